@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint128 } from "@fhevm/solidity/lib/FHE.sol";
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// Running aggregates over the integer values submitted to an FHETestFramework, which deploys this contract and
+/// folds every new value in. Only the snapshot taken every `AGGREGATE_EPOCH` values can be revealed, so two reveals
+/// always differ by a whole epoch and never isolate a single value. Kept apart to stay under the contract size limit.
+contract EncryptedAggregates is SepoliaConfig {
+    // Sum, min and max over the first `count` values of one type, widened to 128 bits.
+    // Aggregated values are at most 64 bits wide, so the sum cannot wrap before 2^64 values.
+    struct Aggregate {
+        uint256 count;
+        euint128 sum;
+        euint128 min;
+        euint128 max;
+    }
+
+    // Revealed snapshot cleartexts; `min` and `max` are only set when `extremes`.
+    struct RevealedAggregate {
+        uint256 count;
+        uint128 sum;
+        uint128 min;
+        uint128 max;
+        bool extremes;
+        bool revealed;
+    }
+
+    // A snapshot decryption in flight.
+    struct AggregateRequest {
+        FheType valueType;
+        uint256 count;
+        bool extremes;
+        bool revealed;
+    }
+
+    // Values between two revealable snapshots, and so the fewest values a reveal can cover.
+    uint256 public constant AGGREGATE_EPOCH = 8;
+
+    // Min and max each are one of the values: they are only revealed once a snapshot covers this many.
+    uint256 public constant MIN_EXTREMES_COUNT = 32;
+
+    address public immutable framework;
+
+    mapping(FheType => Aggregate) public aggregates;
+    mapping(FheType => Aggregate) public snapshots;
+    mapping(FheType => RevealedAggregate) public revealedAggregates;
+    mapping(uint256 => AggregateRequest) private requestIdToAggregate;
+
+    event AggregateDecryptionRequested(FheType indexed valueType, uint256 count, uint256 requestId);
+    event AggregateRevealed(FheType indexed valueType, uint256 count);
+
+    constructor() {
+        framework = msg.sender;
+    }
+
+    /// Whether values of `valueType` are aggregated: 8- to 64-bit integers.
+    function isAggregated(FheType valueType) public pure returns (bool) {
+        return valueType >= FheType.Uint8 && valueType <= FheType.Uint64;
+    }
+
+    /// Fold a new value into the aggregates of its type; the framework grants access to the handle for the call.
+    function fold(bytes32 handle, FheType valueType) external {
+        require(msg.sender == framework, "Not authorized");
+        require(isAggregated(valueType), "Type not aggregated");
+
+        euint128 value = euint128.wrap(Impl.cast(handle, FheType.Uint128));
+        Aggregate storage agg = aggregates[valueType];
+        if (agg.count == 0) {
+            agg.sum = value;
+            agg.min = value;
+            agg.max = value;
+        } else {
+            agg.sum = FHE.add(agg.sum, value);
+            agg.min = FHE.min(agg.min, value);
+            agg.max = FHE.max(agg.max, value);
+        }
+        agg.count += 1;
+
+        FHE.allowThis(agg.sum);
+        FHE.allowThis(agg.min);
+        FHE.allowThis(agg.max);
+
+        if (agg.count % AGGREGATE_EPOCH == 0) {
+            snapshots[valueType] = agg;
+        }
+    }
+
+    /// Ask the decryption oracle for the last snapshot of `valueType`: its sum, plus min and max once it covers
+    /// `MIN_EXTREMES_COUNT` values. Each snapshot is revealed once.
+    function requestAggregateDecryption(FheType valueType) external returns (uint256 requestId) {
+        Aggregate storage snap = snapshots[valueType];
+        require(snap.count != 0, "Not enough values");
+        require(snap.count > revealedAggregates[valueType].count, "Snapshot already revealed");
+
+        bool extremes = snap.count >= MIN_EXTREMES_COUNT;
+        bytes32[] memory cts = new bytes32[](extremes ? 3 : 1);
+        cts[0] = FHE.toBytes32(snap.sum);
+        if (extremes) {
+            cts[1] = FHE.toBytes32(snap.min);
+            cts[2] = FHE.toBytes32(snap.max);
+        }
+        requestId = FHE.requestDecryption(cts, this.handleAggregateDecryption.selector);
+        requestIdToAggregate[requestId] = AggregateRequest({
+            valueType: valueType,
+            count: snap.count,
+            extremes: extremes,
+            revealed: false
+        });
+
+        emit AggregateDecryptionRequested(valueType, snap.count, requestId);
+    }
+
+    /// Callback invoked by the FHE runtime with the decrypted snapshot.
+    // solhint-disable-next-line fhe-callback-access
+    function handleAggregateDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        AggregateRequest storage request = requestIdToAggregate[requestId];
+        require(request.count != 0, "Invalid request mapping");
+        require(!request.revealed, "Already revealed");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        request.revealed = true;
+
+        // A request answered after a newer one must not roll the revealed aggregate back.
+        RevealedAggregate storage ra = revealedAggregates[request.valueType];
+        if (request.count < ra.count) return;
+        if (request.extremes) {
+            (ra.sum, ra.min, ra.max) = abi.decode(cleartexts, (uint128, uint128, uint128));
+        } else {
+            (ra.sum, ra.min, ra.max) = (abi.decode(cleartexts, (uint128)), 0, 0);
+        }
+        ra.count = request.count;
+        ra.extremes = request.extremes;
+        ra.revealed = true;
+
+        emit AggregateRevealed(request.valueType, request.count);
+    }
+}
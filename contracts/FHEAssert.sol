@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
+
+/// Encrypted assertions for contracts under test. Each outcome is kept as an `ebool` in the caller's `Registry`
+/// and announced with `AssertionRecorded`; `src/fheAssert.ts` collects and decrypts them.
+/// Operands are handles (`FHE.toBytes32`); with `scalar`, the right-hand operands are plaintexts instead.
+library FHEAssert {
+    // Kinds of assertions, in the order the TypeScript reader decodes them.
+    enum Kind {
+        Eq,
+        Neq,
+        Between,
+        BitmaskSet,
+        Monotonic
+    }
+
+    // Recorded outcome, encrypted until revealed through the decryption oracle.
+    struct Entry {
+        Kind kind;
+        ebool result;
+        bool revealed;
+        bool passed;
+    }
+
+    // Assertions of one contract, numbered from 1.
+    struct Registry {
+        uint256 count;
+        mapping(uint256 => Entry) entries;
+        // Assertion ids of each decryption request.
+        mapping(uint256 => uint256[]) requests;
+    }
+
+    event AssertionRecorded(uint256 indexed id, Kind kind, string label, ebool result);
+    event AssertionDecryptionRequested(uint256 indexed requestId, uint256[] ids);
+    event FHEAssertRevealed(uint256 indexed id, bool passed);
+
+    /// `lhs == rhs`.
+    function eq(
+        Registry storage registry,
+        string memory label,
+        bytes32 lhs,
+        bytes32 rhs,
+        bool scalar
+    ) internal returns (uint256) {
+        return _record(registry, Kind.Eq, label, Impl.eq(lhs, rhs, scalar));
+    }
+
+    /// `lhs != rhs`.
+    function neq(
+        Registry storage registry,
+        string memory label,
+        bytes32 lhs,
+        bytes32 rhs,
+        bool scalar
+    ) internal returns (uint256) {
+        return _record(registry, Kind.Neq, label, Impl.ne(lhs, rhs, scalar));
+    }
+
+    /// `lo <= value <= hi`.
+    function between(
+        Registry storage registry,
+        string memory label,
+        bytes32 value,
+        bytes32 lo,
+        bytes32 hi,
+        bool scalar
+    ) internal returns (uint256) {
+        bytes32 result = Impl.and(Impl.ge(value, lo, scalar), Impl.le(value, hi, scalar), false);
+        return _record(registry, Kind.Between, label, result);
+    }
+
+    /// Every bit of `mask` is set in `value`.
+    function bitmaskSet(
+        Registry storage registry,
+        string memory label,
+        bytes32 value,
+        bytes32 mask,
+        bool scalar
+    ) internal returns (uint256) {
+        bytes32 result = Impl.eq(Impl.and(value, mask, scalar), mask, scalar);
+        return _record(registry, Kind.BitmaskSet, label, result);
+    }
+
+    /// `values` never decrease, or always increase when `strict`.
+    function monotonic(
+        Registry storage registry,
+        string memory label,
+        bytes32[] memory values,
+        bool strict
+    ) internal returns (uint256) {
+        require(values.length >= 2, "Need two values");
+        bytes32 result;
+        for (uint256 i = 1; i < values.length; i++) {
+            bytes32 step = strict ? Impl.lt(values[i - 1], values[i], false) : Impl.le(values[i - 1], values[i], false);
+            result = i == 1 ? step : Impl.and(result, step, false);
+        }
+        return _record(registry, Kind.Monotonic, label, result);
+    }
+
+    /// Ask the decryption oracle for the outcomes of `ids`, delivered to `callbackSelector` on the calling contract.
+    /// The callback should pass its arguments on to `recordReveal`.
+    function requestReveal(
+        Registry storage registry,
+        uint256[] memory ids,
+        bytes4 callbackSelector
+    ) internal returns (uint256 requestId) {
+        bytes32[] memory cts = new bytes32[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            require(ids[i] != 0 && ids[i] <= registry.count, "Unknown assertion");
+            cts[i] = FHE.toBytes32(registry.entries[ids[i]].result);
+        }
+        requestId = FHE.requestDecryption(cts, callbackSelector);
+        registry.requests[requestId] = ids;
+
+        emit AssertionDecryptionRequested(requestId, ids);
+    }
+
+    /// Store the outcomes delivered by the decryption oracle for a `requestReveal` request. Ids already revealed
+    /// through another request are skipped.
+    function recordReveal(
+        Registry storage registry,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) internal {
+        uint256[] storage ids = registry.requests[requestId];
+        require(ids.length != 0, "Invalid request mapping");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        // One ABI-encoded bool per requested handle.
+        for (uint256 i = 0; i < ids.length; i++) {
+            Entry storage entry = registry.entries[ids[i]];
+            if (entry.revealed) continue;
+            uint256 word;
+            assembly {
+                word := mload(add(cleartexts, mul(add(i, 1), 32)))
+            }
+            entry.passed = word != 0;
+            entry.revealed = true;
+            emit FHEAssertRevealed(ids[i], entry.passed);
+        }
+    }
+
+    // Keep an outcome, readable by the calling contract and its caller.
+    function _record(
+        Registry storage registry,
+        Kind kind,
+        string memory label,
+        bytes32 handle
+    ) private returns (uint256 id) {
+        ebool result = ebool.wrap(handle);
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        registry.count += 1;
+        id = registry.count;
+        registry.entries[id] = Entry({ kind: kind, result: result, revealed: false, passed: false });
+
+        emit AssertionRecorded(id, kind, label, result);
+    }
+}
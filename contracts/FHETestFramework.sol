@@ -1,114 +1,645 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint8, euint16, euint32, euint64, euint128, euint256, eaddress } from "@fhevm/solidity/lib/FHE.sol";
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { Impl } from "@fhevm/solidity/lib/Impl.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { EncryptedAggregates } from "./EncryptedAggregates.sol";
+import { RevealApprovals } from "./RevealApprovals.sol";
 
 /// Utility constants and light notes.
 /// These comments are intentionally generic and non-descriptive.
 /// They are written in English as requested.
 contract FHETestFramework is SepoliaConfig {
-    // Minimal data holder for encrypted test value.
+    // Minimal data holder for encrypted test value of any supported type.
     struct EncryptedValue {
         uint256 id;
-        euint32 value;
+        bytes32 handle;
+        FheType valueType;
         uint256 timestamp;
+        address owner;
     }
 
-    // Placeholder for decrypted cleartext test value.
+    // Decrypted cleartext test value, one word interpreted according to the value type.
     struct ClearValue {
-        string text;
+        uint256 value;
         bool revealed;
     }
 
+    // Comparison applied homomorphically between a stored value and an expected plaintext.
+    enum Operator {
+        Eq,
+        Ne,
+        Lt,
+        Le,
+        Gt,
+        Ge
+    }
+
+    // Encrypted assertion run: the comparison result stays encrypted until revealed.
+    struct AssertionRun {
+        uint256 valueId;
+        Operator op;
+        uint256 expected;
+        ebool result;
+        bool revealed;
+        bool passed;
+    }
+
+    // The decryption request a value is waiting for. A callback for any other request of the value is ignored.
+    struct PendingDecryption {
+        uint256 requestId;
+        // Timestamp after which the request may be cancelled or retried; 0 when nothing is pending.
+        uint256 deadline;
+    }
+
+    // What a check computes: `value <op> bounds[0]`, `bounds[0] <= value <= bounds[1]`, or `value` in `bounds`.
+    enum CheckKind {
+        Compare,
+        InRange,
+        OneOf
+    }
+
+    // Operand of a check: a plaintext word, or the id of a stored value when `encrypted`.
+    struct Bound {
+        bool encrypted;
+        uint256 value;
+    }
+
+    // Encrypted check on a stored value; `op` only applies to Compare. The result stays encrypted until revealed.
+    struct Check {
+        uint256 valueId;
+        CheckKind kind;
+        Operator op;
+        address requester;
+        ebool result;
+        bool revealed;
+        bool passed;
+    }
+
+    // How long the oracle gets to answer a value decryption before it counts as stuck.
+    uint256 public constant DECRYPTION_TIMEOUT = 1 hours;
+
+    // A oneOf set costs one encrypted comparison per element.
+    uint256 public constant MAX_ONE_OF = 16;
+
     // Storage counters and mappings.
     uint256 public valueCount;
     mapping(uint256 => EncryptedValue) public encryptedValues;
     mapping(uint256 => ClearValue) public clearValues;
+    mapping(uint256 => PendingDecryption) public pendingDecryptions;
+
+    // Accounts each owner lets reveal and assert on their values.
+    mapping(address => mapping(address => bool)) public delegates;
+
+    // k-of-n approvals some values need before they can be revealed.
+    RevealApprovals public immutable revealApprovals;
+
+    // Running sum, min and max over the submitted integer values.
+    EncryptedAggregates public immutable encryptedAggregates;
+
+    uint256 public assertionCount;
+    mapping(uint256 => AssertionRun) public assertions;
+
+    uint256 public checkCount;
+    mapping(uint256 => Check) public checks;
+    mapping(uint256 => Bound[]) private checkBounds;
+
 
     // Track decryption requests to internal ids.
     mapping(uint256 => uint256) private requestIdToValueId;
+    mapping(uint256 => uint256) private requestIdToAssertionId;
+    mapping(uint256 => uint256) private requestIdToCheckId;
 
     // Events to signal lifecycle steps.
-    event ValueSubmitted(uint256 indexed id, uint256 timestamp);
+    event ValueSubmitted(uint256 indexed id, FheType valueType, uint256 timestamp);
     event DecryptionRequested(uint256 indexed id, uint256 requestId);
     event ValueRevealed(uint256 indexed id);
+    event DecryptionCancelled(uint256 indexed id, uint256 requestId);
+    event LateDecryptionIgnored(uint256 indexed id, uint256 requestId);
+    event AssertionComputed(uint256 indexed assertionId, uint256 indexed valueId, uint256 requestId);
+    event AssertionRevealed(uint256 indexed assertionId, bool passed);
+    event DelegateUpdated(address indexed owner, address indexed delegate, bool approved);
+    event CheckComputed(uint256 indexed checkId, uint256 indexed valueId, CheckKind kind);
+    event CheckDecryptionRequested(uint256 indexed checkId, uint256 requestId);
+    event CheckRevealed(uint256 indexed checkId, bool passed);
 
-    // Modifier placeholder for access checks.
-    modifier placeholderAccess(uint256 /*id*/) {
-        // Access control intentionally omitted in this example.
+    constructor() {
+        revealApprovals = new RevealApprovals();
+        encryptedAggregates = new EncryptedAggregates();
+    }
+
+    // Only the submitter of a value, or a delegate they approved, may learn anything about it, and only once the
+    // approvals its reveal policy asks for are in.
+    modifier onlyOwnerOrDelegate(uint256 id) {
+        require(encryptedValues[id].id != 0, "Unknown value");
+        _requireRevealable(id);
         _;
     }
 
     /// Submit an encrypted test value to the contract.
     function submitEncryptedValue(euint32 encrypted) external {
-        valueCount += 1;
-        uint256 newId = valueCount;
+        _submitOwnedHandle(euint32.unwrap(encrypted), FheType.Uint32);
+    }
 
-        encryptedValues[newId] = EncryptedValue({
-            id: newId,
-            value: encrypted,
-            timestamp: block.timestamp
-        });
+    /// Submit an encrypted boolean test value.
+    function submitEncryptedBool(ebool encrypted) external {
+        _submitOwnedHandle(ebool.unwrap(encrypted), FheType.Bool);
+    }
 
-        clearValues[newId] = ClearValue({
-            text: "",
-            revealed: false
-        });
+    /// Submit an encrypted 8-bit test value.
+    function submitEncryptedUint8(euint8 encrypted) external {
+        _submitOwnedHandle(euint8.unwrap(encrypted), FheType.Uint8);
+    }
+
+    /// Submit an encrypted 16-bit test value.
+    function submitEncryptedUint16(euint16 encrypted) external {
+        _submitOwnedHandle(euint16.unwrap(encrypted), FheType.Uint16);
+    }
+
+    /// Submit an encrypted 64-bit test value.
+    function submitEncryptedUint64(euint64 encrypted) external {
+        _submitOwnedHandle(euint64.unwrap(encrypted), FheType.Uint64);
+    }
 
-        emit ValueSubmitted(newId, block.timestamp);
+    /// Submit an encrypted 128-bit test value.
+    function submitEncryptedUint128(euint128 encrypted) external {
+        _submitOwnedHandle(euint128.unwrap(encrypted), FheType.Uint128);
+    }
+
+    /// Submit an encrypted 256-bit test value.
+    function submitEncryptedUint256(euint256 encrypted) external {
+        _submitOwnedHandle(euint256.unwrap(encrypted), FheType.Uint256);
+    }
+
+    /// Submit an encrypted address test value.
+    function submitEncryptedAddress(eaddress encrypted) external {
+        _submitOwnedHandle(eaddress.unwrap(encrypted), FheType.Uint160);
+    }
+
+    /// Submit a value encrypted client-side; the input verifier checks it against its proof.
+    function submitEncryptedInput(FheType valueType, bytes32 inputHandle, bytes calldata inputProof) external {
+        bytes32 handle = Impl.verify(inputHandle, inputProof, valueType);
+        _submitValue(handle, valueType);
+    }
+
+    /// Let `delegate` reveal and run assertions on every value the caller submitted, or revoke it.
+    function setDelegate(address delegate, bool approved) external {
+        require(delegate != address(0) && delegate != msg.sender, "Invalid delegate");
+        delegates[msg.sender][delegate] = approved;
+        emit DelegateUpdated(msg.sender, delegate, approved);
+    }
+
+    /// Whether `account` may request decryption of value `id`.
+    function isAuthorized(uint256 id, address account) public view returns (bool) {
+        address owner = encryptedValues[id].owner;
+        return owner != address(0) && (account == owner || delegates[owner][account]);
     }
 
     /// Request decryption via FHE runtime.
-    function requestValueDecryption(uint256 id) external placeholderAccess(id) {
-        EncryptedValue storage ev = encryptedValues[id];
+    function requestValueDecryption(uint256 id) external onlyOwnerOrDelegate(id) {
         require(!clearValues[id].revealed, "Already revealed");
+        require(pendingDecryptions[id].deadline == 0, "Decryption pending");
+        _requestValueDecryption(id);
+    }
 
-        bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(ev.value);
-
-        uint256 req = FHE.requestDecryption(cts, this.handleDecryption.selector);
-        requestIdToValueId[req] = id;
+    /// Drop a request the oracle did not answer before its deadline; its callback will be ignored.
+    function cancelValueDecryption(uint256 id) external onlyOwnerOrDelegate(id) {
+        _cancelStaleDecryption(id);
+    }
 
-        emit DecryptionRequested(id, req);
+    /// Replace a request the oracle did not answer before its deadline with a new one.
+    function retryValueDecryption(uint256 id) external onlyOwnerOrDelegate(id) {
+        require(!clearValues[id].revealed, "Already revealed");
+        _cancelStaleDecryption(id);
+        _requestValueDecryption(id);
     }
 
     /// Callback invoked by the FHE runtime with cleartexts and proof.
+    // Any relayer may send it, so FHE.checkSignatures authenticates it rather than msg.sender.
+    // solhint-disable-next-line fhe-callback-access
     function handleDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         uint256 id = requestIdToValueId[requestId];
         require(id != 0, "Invalid request mapping");
         require(!clearValues[id].revealed, "Already revealed");
 
-        // Verify signatures and authenticity of decryption.
+        // Verify signatures and authenticity of decryption, before anything is emitted for the request.
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        // Decode the clear value(s) and store result.
-        string[] memory decoded = abi.decode(cleartexts, (string[]));
-        clearValues[id].text = decoded.length > 0 ? decoded[0] : "";
-        clearValues[id].revealed = true;
+        // Cancelled or superseded: succeed without effect, so the oracle does not keep retrying.
+        PendingDecryption storage pending = pendingDecryptions[id];
+        if (pending.deadline == 0 || pending.requestId != requestId) {
+            emit LateDecryptionIgnored(id, requestId);
+            return;
+        }
+
+        // Decode the clear value according to its type and store result.
+        ClearValue storage cv = clearValues[id];
+        cv.value = _decodeCleartext(encryptedValues[id].valueType, cleartexts);
+        cv.revealed = true;
+        delete pendingDecryptions[id];
 
         emit ValueRevealed(id);
     }
 
-    /// Retrieve clear value details.
-    function getClearValue(uint256 id) external view returns (string memory text, bool revealed) {
+    /// Compare a stored value with `expected` homomorphically and request decryption of the `ebool` outcome.
+    function runAssertion(
+        uint256 valueId,
+        Operator op,
+        uint256 expected
+    ) external onlyOwnerOrDelegate(valueId) returns (uint256 assertionId) {
+        EncryptedValue storage ev = encryptedValues[valueId];
+
+        ebool result = ebool.wrap(_compare(ev.handle, op, bytes32(expected), true));
+        FHE.allowThis(result);
+        FHE.allow(result, msg.sender);
+
+        assertionCount += 1;
+        assertionId = assertionCount;
+        assertions[assertionId] = AssertionRun({
+            valueId: valueId,
+            op: op,
+            expected: expected,
+            result: result,
+            revealed: false,
+            passed: false
+        });
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(result);
+        uint256 req = FHE.requestDecryption(cts, this.handleAssertionDecryption.selector);
+        requestIdToAssertionId[req] = assertionId;
+
+        emit AssertionComputed(assertionId, valueId, req);
+    }
+
+    /// Callback invoked by the FHE runtime with the decrypted assertion outcome.
+    // solhint-disable-next-line fhe-callback-access
+    function handleAssertionDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 assertionId = requestIdToAssertionId[requestId];
+        require(assertionId != 0, "Invalid request mapping");
+        AssertionRun storage run = assertions[assertionId];
+        require(!run.revealed, "Already revealed");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        run.passed = abi.decode(cleartexts, (bool));
+        run.revealed = true;
+
+        emit AssertionRevealed(assertionId, run.passed);
+    }
+
+    /// Compute `value <op> rhs` homomorphically as a new check; `reveal` also requests its decryption.
+    function checkCompare(
+        uint256 valueId,
+        Operator op,
+        Bound calldata rhs,
+        bool reveal
+    ) external onlyOwnerOrDelegate(valueId) returns (uint256 checkId) {
+        EncryptedValue storage ev = encryptedValues[valueId];
+        (bytes32 operand, bool scalar) = _bound(rhs, ev.valueType);
+        bytes32 result = _compare(ev.handle, op, operand, scalar);
+
+        checkId = _recordCheck(valueId, CheckKind.Compare, op, result);
+        checkBounds[checkId].push(rhs);
+        if (reveal) _requestCheckDecryption(checkId);
+    }
+
+    /// Compute `lo <= value <= hi` homomorphically as a new check; `reveal` also requests its decryption.
+    function checkInRange(
+        uint256 valueId,
+        Bound calldata lo,
+        Bound calldata hi,
+        bool reveal
+    ) external onlyOwnerOrDelegate(valueId) returns (uint256 checkId) {
+        EncryptedValue storage ev = encryptedValues[valueId];
+        (bytes32 loOperand, bool loScalar) = _bound(lo, ev.valueType);
+        (bytes32 hiOperand, bool hiScalar) = _bound(hi, ev.valueType);
+        bytes32 aboveLo = _compare(ev.handle, Operator.Ge, loOperand, loScalar);
+        bytes32 belowHi = _compare(ev.handle, Operator.Le, hiOperand, hiScalar);
+
+        checkId = _recordCheck(valueId, CheckKind.InRange, Operator.Eq, Impl.and(aboveLo, belowHi, false));
+        checkBounds[checkId].push(lo);
+        checkBounds[checkId].push(hi);
+        if (reveal) _requestCheckDecryption(checkId);
+    }
+
+    /// Compute whether the value is in `set` homomorphically as a new check; `reveal` also requests its decryption.
+    function checkOneOf(
+        uint256 valueId,
+        Bound[] calldata set,
+        bool reveal
+    ) external onlyOwnerOrDelegate(valueId) returns (uint256 checkId) {
+        require(set.length > 0 && set.length <= MAX_ONE_OF, "Invalid set size");
+        EncryptedValue storage ev = encryptedValues[valueId];
+        bytes32 result;
+        for (uint256 i = 0; i < set.length; i++) {
+            (bytes32 operand, bool scalar) = _bound(set[i], ev.valueType);
+            bytes32 equal = Impl.eq(ev.handle, operand, scalar);
+            result = i == 0 ? equal : Impl.or(result, equal, false);
+        }
+
+        checkId = _recordCheck(valueId, CheckKind.OneOf, Operator.Eq, result);
+        for (uint256 i = 0; i < set.length; i++) {
+            checkBounds[checkId].push(set[i]);
+        }
+        if (reveal) _requestCheckDecryption(checkId);
+    }
+
+    /// Operands a check was computed against.
+    function getCheckBounds(uint256 checkId) external view returns (Bound[] memory) {
+        return checkBounds[checkId];
+    }
+
+    /// Request decryption of a check that was not revealed when computed; only its requester may.
+    function requestCheckDecryption(uint256 checkId) external {
+        Check storage check = checks[checkId];
+        require(check.requester != address(0), "Unknown check");
+        require(check.requester == msg.sender, "Not authorized");
+        require(!check.revealed, "Already revealed");
+        // The check may predate a reveal policy of its value or of a value it was compared with.
+        require(revealApprovals.isApproved(check.valueId), "Approvals missing");
+        Bound[] storage bounds = checkBounds[checkId];
+        for (uint256 i = 0; i < bounds.length; i++) {
+            require(!bounds[i].encrypted || revealApprovals.isApproved(bounds[i].value), "Approvals missing");
+        }
+        _requestCheckDecryption(checkId);
+    }
+
+    /// Callback invoked by the FHE runtime with the decrypted check outcome.
+    // solhint-disable-next-line fhe-callback-access
+    function handleCheckDecryption(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 checkId = requestIdToCheckId[requestId];
+        require(checkId != 0, "Invalid request mapping");
+        Check storage check = checks[checkId];
+        require(!check.revealed, "Already revealed");
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        check.passed = abi.decode(cleartexts, (bool));
+        check.revealed = true;
+
+        emit CheckRevealed(checkId, check.passed);
+    }
+
+    /// Retrieve clear value details; `value` is to be read according to `valueType`.
+    function getClearValue(uint256 id) external view returns (FheType valueType, uint256 value, bool revealed) {
         ClearValue storage cv = clearValues[id];
-        return (cv.text, cv.revealed);
+        return (encryptedValues[id].valueType, cv.value, cv.revealed);
+    }
+
+    /// Revealed cleartext of an encrypted unsigned integer.
+    function getClearUint(uint256 id) external view returns (uint256) {
+        FheType valueType = encryptedValues[id].valueType;
+        require(valueType != FheType.Bool && valueType != FheType.Uint160, "Not an integer");
+        return _revealedValue(id).value;
+    }
+
+    /// Revealed cleartext of an encrypted boolean.
+    function getClearBool(uint256 id) external view returns (bool) {
+        require(encryptedValues[id].valueType == FheType.Bool, "Not a boolean");
+        return _revealedValue(id).value != 0;
+    }
+
+    /// Revealed cleartext of an encrypted address.
+    function getClearAddress(uint256 id) external view returns (address) {
+        require(encryptedValues[id].valueType == FheType.Uint160, "Not an address");
+        return address(uint160(_revealedValue(id).value));
+    }
+
+    /// Create a mock encrypted value of any supported type, readable by the caller.
+    function mockEncrypted(FheType valueType, uint256 value) external returns (bytes32) {
+        return _mockEncrypted(valueType, value);
     }
 
     /// Create a mock encrypted zero value for testing flows.
-    function mockEncryptedZero() external view returns (euint32) {
-        // Return an encrypted zero placeholder.
-        return FHE.asEuint32(0);
+    function mockEncryptedZero() external returns (euint32) {
+        return euint32.wrap(_mockEncrypted(FheType.Uint32, 0));
+    }
+
+    /// Mock encrypted `false`.
+    function mockEncryptedZeroBool() external returns (ebool) {
+        return ebool.wrap(_mockEncrypted(FheType.Bool, 0));
+    }
+
+    /// Mock encrypted 8-bit zero.
+    function mockEncryptedZeroUint8() external returns (euint8) {
+        return euint8.wrap(_mockEncrypted(FheType.Uint8, 0));
+    }
+
+    /// Mock encrypted 16-bit zero.
+    function mockEncryptedZeroUint16() external returns (euint16) {
+        return euint16.wrap(_mockEncrypted(FheType.Uint16, 0));
+    }
+
+    /// Mock encrypted 64-bit zero.
+    function mockEncryptedZeroUint64() external returns (euint64) {
+        return euint64.wrap(_mockEncrypted(FheType.Uint64, 0));
+    }
+
+    /// Mock encrypted 128-bit zero.
+    function mockEncryptedZeroUint128() external returns (euint128) {
+        return euint128.wrap(_mockEncrypted(FheType.Uint128, 0));
+    }
+
+    /// Mock encrypted 256-bit zero.
+    function mockEncryptedZeroUint256() external returns (euint256) {
+        return euint256.wrap(_mockEncrypted(FheType.Uint256, 0));
+    }
+
+    /// Mock encrypted zero address.
+    function mockEncryptedZeroAddress() external returns (eaddress) {
+        return eaddress.wrap(_mockEncrypted(FheType.Uint160, 0));
     }
 
     /// Example helper to add two encrypted counters.
-    function addEncryptedCounters(euint32 a, euint32 b) external pure returns (euint32) {
-        return FHE.add(a, b);
+    function addEncryptedCounters(euint32 a, euint32 b) external returns (euint32) {
+        euint32 sum = FHE.add(a, b);
+        _allowCaller(euint32.unwrap(sum));
+        return sum;
+    }
+
+    /// 8-bit variant of `addEncryptedCounters`.
+    function addEncryptedCountersUint8(euint8 a, euint8 b) external returns (euint8) {
+        euint8 sum = FHE.add(a, b);
+        _allowCaller(euint8.unwrap(sum));
+        return sum;
+    }
+
+    /// 16-bit variant of `addEncryptedCounters`.
+    function addEncryptedCountersUint16(euint16 a, euint16 b) external returns (euint16) {
+        euint16 sum = FHE.add(a, b);
+        _allowCaller(euint16.unwrap(sum));
+        return sum;
+    }
+
+    /// 64-bit variant of `addEncryptedCounters`.
+    function addEncryptedCountersUint64(euint64 a, euint64 b) external returns (euint64) {
+        euint64 sum = FHE.add(a, b);
+        _allowCaller(euint64.unwrap(sum));
+        return sum;
+    }
+
+    /// 128-bit variant of `addEncryptedCounters`.
+    function addEncryptedCountersUint128(euint128 a, euint128 b) external returns (euint128) {
+        euint128 sum = FHE.add(a, b);
+        _allowCaller(euint128.unwrap(sum));
+        return sum;
     }
 
     /// Lightweight conversion util.
     function toBytes32FromEuint32(euint32 v) external pure returns (bytes32) {
         return FHE.toBytes32(v);
     }
+
+    // Handles passed in directly must already be usable by the caller, or anyone could claim another's value.
+    function _submitOwnedHandle(bytes32 handle, FheType valueType) private {
+        require(Impl.isAllowed(handle, msg.sender), "Sender not allowed on handle");
+        _submitValue(handle, valueType);
+    }
+
+    // Record a new encrypted value owned by the caller, after checking the handle carries the declared type.
+    function _submitValue(bytes32 handle, FheType valueType) private {
+        require(_handleType(handle) == valueType, "Type mismatch");
+        _allowCaller(handle);
+        if (encryptedAggregates.isAggregated(valueType)) {
+            Impl.allowTransient(handle, address(encryptedAggregates));
+            encryptedAggregates.fold(handle, valueType);
+        }
+
+        valueCount += 1;
+        uint256 newId = valueCount;
+
+        encryptedValues[newId] = EncryptedValue({
+            id: newId,
+            handle: handle,
+            valueType: valueType,
+            timestamp: block.timestamp,
+            owner: msg.sender
+        });
+
+        clearValues[newId] = ClearValue({
+            value: 0,
+            revealed: false
+        });
+
+        emit ValueSubmitted(newId, valueType, block.timestamp);
+    }
+
+    function _requestValueDecryption(uint256 id) private {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = encryptedValues[id].handle;
+
+        uint256 req = FHE.requestDecryption(cts, this.handleDecryption.selector);
+        requestIdToValueId[req] = id;
+        pendingDecryptions[id] = PendingDecryption({ requestId: req, deadline: block.timestamp + DECRYPTION_TIMEOUT });
+
+        emit DecryptionRequested(id, req);
+    }
+
+    function _cancelStaleDecryption(uint256 id) private {
+        PendingDecryption storage pending = pendingDecryptions[id];
+        require(pending.deadline != 0, "No pending decryption");
+        require(block.timestamp > pending.deadline, "Decryption not stale");
+
+        emit DecryptionCancelled(id, pending.requestId);
+        delete pendingDecryptions[id];
+    }
+
+    // Handle or plaintext for a check operand; a stored value must be readable by the caller and of the checked type.
+    function _bound(Bound calldata bound, FheType valueType) private view returns (bytes32 operand, bool scalar) {
+        if (!bound.encrypted) return (bytes32(bound.value), true);
+        _requireRevealable(bound.value);
+        EncryptedValue storage ev = encryptedValues[bound.value];
+        require(ev.valueType == valueType, "Type mismatch");
+        return (ev.handle, false);
+    }
+
+    function _requireRevealable(uint256 id) private view {
+        require(isAuthorized(id, msg.sender), "Not authorized");
+        require(revealApprovals.isApproved(id), "Approvals missing");
+    }
+
+    // Store a check result, readable by this contract and the requester.
+    function _recordCheck(
+        uint256 valueId,
+        CheckKind kind,
+        Operator op,
+        bytes32 result
+    ) private returns (uint256 checkId) {
+        _allowCaller(result);
+
+        checkCount += 1;
+        checkId = checkCount;
+        checks[checkId] = Check({
+            valueId: valueId,
+            kind: kind,
+            op: op,
+            requester: msg.sender,
+            result: ebool.wrap(result),
+            revealed: false,
+            passed: false
+        });
+
+        emit CheckComputed(checkId, valueId, kind);
+    }
+
+    function _requestCheckDecryption(uint256 checkId) private {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(checks[checkId].result);
+        uint256 req = FHE.requestDecryption(cts, this.handleCheckDecryption.selector);
+        requestIdToCheckId[req] = checkId;
+
+        emit CheckDecryptionRequested(checkId, req);
+    }
+
+    // Trivially encrypt a plaintext and let the caller use the result.
+    function _mockEncrypted(FheType valueType, uint256 value) private returns (bytes32 handle) {
+        handle = Impl.trivialEncrypt(value, valueType);
+        _allowCaller(handle);
+    }
+
+    // Grant this contract and the caller access to a handle.
+    function _allowCaller(bytes32 handle) private {
+        Impl.allow(handle, address(this));
+        Impl.allow(handle, msg.sender);
+    }
+
+    // Clear value that must already be revealed.
+    function _revealedValue(uint256 id) private view returns (ClearValue storage cv) {
+        cv = clearValues[id];
+        require(cv.revealed, "Not revealed");
+    }
+
+    // Type byte of a ciphertext handle.
+    function _handleType(bytes32 handle) private pure returns (FheType) {
+        return FheType(uint8(uint256(handle) >> 8));
+    }
+
+    // Comparison of a handle with a plaintext (`scalar`) or a handle of the same type.
+    function _compare(bytes32 handle, Operator op, bytes32 rhs, bool scalar) private returns (bytes32) {
+        if (op == Operator.Eq) return Impl.eq(handle, rhs, scalar);
+        if (op == Operator.Ne) return Impl.ne(handle, rhs, scalar);
+        // The executor only orders 8- to 128-bit integers.
+        FheType valueType = _handleType(handle);
+        require(valueType >= FheType.Uint8 && valueType <= FheType.Uint128, "Operator not supported for type");
+        if (op == Operator.Lt) return Impl.lt(handle, rhs, scalar);
+        if (op == Operator.Le) return Impl.le(handle, rhs, scalar);
+        if (op == Operator.Gt) return Impl.gt(handle, rhs, scalar);
+        return Impl.ge(handle, rhs, scalar);
+    }
+
+    // Decode a single cleartext as the ABI type matching `valueType`.
+    function _decodeCleartext(FheType valueType, bytes memory cleartexts) private pure returns (uint256) {
+        if (valueType == FheType.Bool) return abi.decode(cleartexts, (bool)) ? 1 : 0;
+        if (valueType == FheType.Uint8) return abi.decode(cleartexts, (uint8));
+        if (valueType == FheType.Uint16) return abi.decode(cleartexts, (uint16));
+        if (valueType == FheType.Uint32) return abi.decode(cleartexts, (uint32));
+        if (valueType == FheType.Uint64) return abi.decode(cleartexts, (uint64));
+        if (valueType == FheType.Uint128) return abi.decode(cleartexts, (uint128));
+        if (valueType == FheType.Uint160) return uint160(address(abi.decode(cleartexts, (address))));
+        if (valueType == FheType.Uint256) return abi.decode(cleartexts, (uint256));
+        revert("Unsupported type");
+    }
 }
@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+
+// What RevealApprovals reads from the FHETestFramework that deployed it.
+interface IRevealSubject {
+    function encryptedValues(
+        uint256 id
+    ) external view returns (uint256, bytes32 handle, FheType valueType, uint256 timestamp, address owner);
+
+    function clearValues(uint256 id) external view returns (uint256 value, bool revealed);
+
+    function pendingDecryptions(uint256 id) external view returns (uint256 requestId, uint256 deadline);
+}
+
+/// Optional k-of-n reveal policies for the values of an FHETestFramework, which deploys this contract and
+/// consults `isApproved` before requesting a decryption. Kept apart to stay under the contract size limit.
+contract RevealApprovals {
+    // `threshold` of the value's approvers must approve; 0 when the value has no policy.
+    struct Policy {
+        uint256 threshold;
+        uint256 approvals;
+    }
+
+    IRevealSubject public immutable framework;
+
+    mapping(uint256 => Policy) public policies;
+    mapping(uint256 => address[]) private approverLists;
+    mapping(uint256 => mapping(address => bool)) public isApprover;
+    mapping(uint256 => mapping(address => bool)) public approvals;
+
+    event PolicySet(uint256 indexed id, address[] approvers, uint256 threshold);
+    event ApprovalUpdated(uint256 indexed id, address indexed approver, bool approved, uint256 approvals);
+
+    constructor() {
+        framework = IRevealSubject(msg.sender);
+    }
+
+    /// Require `threshold` of `approvers` to approve before value `id` can be revealed. Only its owner may, once,
+    /// before any decryption request.
+    function setPolicy(uint256 id, address[] calldata approvers, uint256 threshold) external {
+        (, , , , address owner) = framework.encryptedValues(id);
+        require(owner != address(0), "Unknown value");
+        require(owner == msg.sender, "Not authorized");
+        require(policies[id].threshold == 0, "Policy already set");
+        _requireNotRequested(id);
+        require(threshold != 0 && threshold <= approvers.length, "Invalid threshold");
+        for (uint256 i = 0; i < approvers.length; i++) {
+            require(approvers[i] != address(0) && !isApprover[id][approvers[i]], "Invalid approver");
+            isApprover[id][approvers[i]] = true;
+        }
+        approverLists[id] = approvers;
+        policies[id].threshold = threshold;
+
+        emit PolicySet(id, approvers, threshold);
+    }
+
+    /// Approve the reveal of value `id` as one of its approvers, or withdraw the approval. Neither is possible once
+    /// its decryption is requested.
+    function setApproval(uint256 id, bool approved) external {
+        require(isApprover[id][msg.sender], "Not an approver");
+        require(approvals[id][msg.sender] != approved, approved ? "Already approved" : "Not approved");
+        _requireNotRequested(id);
+
+        Policy storage policy = policies[id];
+        approvals[id][msg.sender] = approved;
+        policy.approvals = approved ? policy.approvals + 1 : policy.approvals - 1;
+
+        emit ApprovalUpdated(id, msg.sender, approved, policy.approvals);
+    }
+
+    /// Approvers of value `id`, in the order the policy listed them.
+    function getApprovers(uint256 id) external view returns (address[] memory) {
+        return approverLists[id];
+    }
+
+    /// Whether value `id` has no policy or enough approvals to be revealed.
+    function isApproved(uint256 id) external view returns (bool) {
+        Policy storage policy = policies[id];
+        return policy.approvals >= policy.threshold;
+    }
+
+    function _requireNotRequested(uint256 id) private view {
+        (, bool revealed) = framework.clearValues(id);
+        require(!revealed, "Already revealed");
+        (, uint256 deadline) = framework.pendingDecryptions(id);
+        require(deadline == 0, "Decryption pending");
+    }
+}
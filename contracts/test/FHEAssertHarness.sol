@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { FHEAssert } from "../FHEAssert.sol";
+
+/// Records FHEAssert assertions on trivially encrypted operands, for the tests of the library.
+contract FHEAssertHarness is SepoliaConfig {
+    using FHEAssert for FHEAssert.Registry;
+
+    FHEAssert.Registry private assertions;
+
+    /// One assertion of each kind on `a` and `b`: eq, neq, between `[b, b + 10]`, bitmaskSet and strict monotonic.
+    function assertAll(uint32 a, uint32 b) external {
+        bytes32 lhs = FHE.toBytes32(FHE.asEuint32(a));
+        bytes32 rhs = FHE.toBytes32(FHE.asEuint32(b));
+        assertions.eq("a == b", lhs, rhs, false);
+        assertions.neq("a != b", lhs, rhs, false);
+        assertions.between("a in [b, b + 10]", lhs, bytes32(uint256(b)), bytes32(uint256(b) + 10), true);
+        assertions.bitmaskSet("a has the bits of b", lhs, rhs, false);
+
+        bytes32[] memory values = new bytes32[](2);
+        values[0] = rhs;
+        values[1] = lhs;
+        assertions.monotonic("b < a", values, true);
+    }
+
+    /// Ask the decryption oracle for the outcomes of `ids`.
+    function requestReveal(uint256[] calldata ids) external returns (uint256) {
+        return assertions.requestReveal(ids, this.handleAssertionReveal.selector);
+    }
+
+    /// Callback invoked by the FHE runtime with cleartexts and proof.
+    // Any relayer may send it, so FHE.checkSignatures in recordReveal authenticates it rather than msg.sender.
+    // solhint-disable-next-line fhe-callback-access
+    function handleAssertionReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) external {
+        assertions.recordReveal(requestId, cleartexts, proof);
+    }
+
+    function getAssertion(uint256 id) external view returns (bool revealed, bool passed) {
+        FHEAssert.Entry storage entry = assertions.entries[id];
+        return (entry.revealed, entry.passed);
+    }
+}
@@ -345,20 +345,32 @@ async function main() {
   const deployedAddress = (factory as any).target || (factory as any).address;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
-  // Write config for the frontend
+  // Deploy the FHETestFramework; the typechain augmentation types the factory and the contract
+  const FrameworkFactory = await hardhatEthers.getContractFactory("FHETestFramework", wallet);
+  const framework = await FrameworkFactory.deploy();
+  await framework.waitForDeployment();
+
+  const frameworkAddress = await framework.getAddress();
+  const frameworkDeploymentBlock = (await framework.deploymentTransaction()!.wait())!.blockNumber;
+  console.log("FHETestFramework contract deployed at:", frameworkAddress, "in block", frameworkDeploymentBlock);
+
+  // Write config for the frontend, keeping any other entries it already has
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
     console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
   } else {
+    const configPath = path.join(frontendConfigDir, "config.json");
+    const previous = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
     const config = {
+      ...previous,
       network: rpc,
       contractAddress: deployedAddress,
       deployer: wallet.address,
+      frameworkAddress,
+      // Event searches such as the dashboard's pending approvals start here
+      frameworkDeploymentBlock,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
     console.log("Wrote frontend config: frontend/web/src/config.json");
 
     // Copy ABI to the frontend
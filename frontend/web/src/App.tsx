@@ -1,6 +1,22 @@
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
 import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  AggregateStats,
+  approveValueReveal,
+  FHE_TYPES,
+  formatAggregate,
+  inspectHandle,
+  loadAggregates,
+  loadPendingApprovals,
+  OPERATORS,
+  revealAggregate,
+  RevealApprovalStatus,
+  RunStage,
+  startAssertion,
+  submitEncryptedValue,
+  waitForReveal
+} from "./fhe";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
@@ -13,6 +29,11 @@ interface TestCase {
   timestamp: number;
   owner: string;
   fheType: string;
+  valueId: string;
+  operator: string;
+  expected: string;
+  stage: RunStage;
+  assertionId?: string;
 }
 
 const App: React.FC = () => {
@@ -32,9 +53,19 @@ const App: React.FC = () => {
   const [newTestCase, setNewTestCase] = useState({
     name: "",
     description: "",
-    fheType: "Concrete"
+    fheType: "euint32",
+    value: "",
+    operator: "==",
+    expected: ""
   });
   const [showTutorial, setShowTutorial] = useState(false);
+  const [inspectedHandle, setInspectedHandle] = useState("");
+  const [inspection, setInspection] = useState<Awaited<ReturnType<typeof inspectHandle>> | null>(null);
+  const [inspectionError, setInspectionError] = useState("");
+  const [aggregates, setAggregates] = useState<AggregateStats[]>([]);
+  const [revealingAggregate, setRevealingAggregate] = useState(false);
+  const [pendingApprovals, setPendingApprovals] = useState<RevealApprovalStatus[]>([]);
+  const [approving, setApproving] = useState(false);
 
   // Calculate statistics for dashboard
   const passedCount = testCases.filter(tc => tc.status === "passed").length;
@@ -45,6 +76,11 @@ const App: React.FC = () => {
     loadTestCases().finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    if (account) loadAggregates().then(setAggregates).catch(e => console.error("Error loading aggregates:", e));
+    if (account) loadPendingApprovals().then(setPendingApprovals).catch(e => console.error("Error loading approvals:", e));
+  }, [account]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -63,6 +99,46 @@ const App: React.FC = () => {
     }
   };
 
+  const onInspect = async () => {
+    setInspection(null);
+    setInspectionError("");
+    try {
+      setInspection(await inspectHandle(inspectedHandle.trim(), account || undefined));
+    } catch (e: any) {
+      setInspectionError(e.shortMessage || e.message || "Invalid handle");
+    }
+  };
+
+  const onApproveReveal = async (status: RevealApprovalStatus) => {
+    setApproving(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Approving reveal..." });
+    try {
+      await approveValueReveal(status.id);
+      setPendingApprovals(await loadPendingApprovals());
+      setTransactionStatus({ visible: true, status: "success", message: "Reveal approved" });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Approval failed: " + (e.reason || e.shortMessage || e.message) });
+    } finally {
+      setApproving(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const onRevealAggregate = async (stats: AggregateStats) => {
+    setRevealingAggregate(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Waiting for the oracle to reveal the aggregate..." });
+    try {
+      const revealed = await revealAggregate(stats.type);
+      setAggregates(list => list.map(a => (a.type === revealed.type ? revealed : a)));
+      setTransactionStatus({ visible: true, status: "success", message: "Aggregate revealed" });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Reveal failed: " + (e.reason || e.shortMessage || e.message) });
+    } finally {
+      setRevealingAggregate(false);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
   const onConnect = () => setWalletSelectorOpen(true);
   const onDisconnect = () => {
     setAccount("");
@@ -108,7 +184,12 @@ const App: React.FC = () => {
                 status: testCaseData.status || "pending",
                 timestamp: testCaseData.timestamp,
                 owner: testCaseData.owner,
-                fheType: testCaseData.fheType || "Concrete"
+                fheType: testCaseData.fheType || "euint32",
+                valueId: testCaseData.valueId,
+                operator: testCaseData.operator,
+                expected: testCaseData.expected,
+                stage: testCaseData.stage || "submitted",
+                assertionId: testCaseData.assertionId
               });
             } catch (e) {
               console.error(`Error parsing test case data for ${key}:`, e);
@@ -150,13 +231,20 @@ const App: React.FC = () => {
       
       const testCaseId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+      // Only the handle's id is kept: the input itself never leaves the browser in clear
+      const valueId = await submitEncryptedValue(newTestCase.fheType, newTestCase.value);
+
       const testCaseData = {
         name: newTestCase.name,
         description: newTestCase.description,
         timestamp: Math.floor(Date.now() / 1000),
         owner: account,
         status: "pending",
-        fheType: newTestCase.fheType
+        fheType: newTestCase.fheType,
+        valueId,
+        operator: newTestCase.operator,
+        expected: newTestCase.expected,
+        stage: "submitted"
       };
       
       // Store test case on-chain
@@ -197,7 +285,10 @@ const App: React.FC = () => {
         setNewTestCase({
           name: "",
           description: "",
-          fheType: "Concrete"
+          fheType: "euint32",
+          value: "",
+          operator: "==",
+          expected: ""
         });
       }, 2000);
     } catch (e: any) {
@@ -219,51 +310,60 @@ const App: React.FC = () => {
     }
   };
 
+  const updateTestCase = async (contract: ethers.Contract, testCaseId: string, changes: Partial<TestCase>) => {
+    const testCaseBytes = await contract.getData(`test_case_${testCaseId}`);
+    if (testCaseBytes.length === 0) {
+      throw new Error("Test case not found");
+    }
+    const updated = { ...JSON.parse(ethers.toUtf8String(testCaseBytes)), ...changes };
+    await (await contract.setData(`test_case_${testCaseId}`, ethers.toUtf8Bytes(JSON.stringify(updated)))).wait();
+    setTestCases(list => list.map(tc => (tc.id === testCaseId ? { ...tc, ...changes } : tc)));
+    return updated;
+  };
+
   const runTestCase = async (testCaseId: string) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
     }
 
+    const testCase = testCases.find(tc => tc.id === testCaseId);
+    if (!testCase) return;
+
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Running encrypted test with FHE..."
+      message: "Computing encrypted assertion on-chain..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
-      
-      const testCaseBytes = await contract.getData(`test_case_${testCaseId}`);
-      if (testCaseBytes.length === 0) {
-        throw new Error("Test case not found");
+
+      // A run interrupted while awaiting decryption resumes without recomputing
+      let assertionId = testCase.assertionId;
+      if (!assertionId) {
+        setTestCases(list => list.map(tc => (tc.id === testCaseId ? { ...tc, stage: "computing" } : tc)));
+        assertionId = await startAssertion(testCase.valueId, testCase.operator, testCase.fheType, testCase.expected);
+        await updateTestCase(contract, testCaseId, { stage: "awaiting decryption", assertionId });
       }
-      
-      const testCaseData = JSON.parse(ethers.toUtf8String(testCaseBytes));
-      
-      // Randomly pass or fail for simulation
-      const status = Math.random() > 0.3 ? "passed" : "failed";
-      
-      const updatedTestCase = {
-        ...testCaseData,
-        status: status
-      };
-      
-      await contract.setData(
-        `test_case_${testCaseId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedTestCase))
-      );
-      
+
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Awaiting decryption of the encrypted result..."
+      });
+
+      const passed = await waitForReveal(assertionId);
+      const status = passed ? "passed" : "failed";
+      await updateTestCase(contract, testCaseId, { stage: "revealed", status });
+
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: `FHE test ${status === "passed" ? "passed" : "failed"}!`
+        message: `FHE test ${status}!`
       });
       
       await loadTestCases();
@@ -445,6 +545,100 @@ const App: React.FC = () => {
             <h3>Test Results</h3>
             {renderBarChart()}
           </div>
+
+          <div className="dashboard-card tech-card">
+            <h3>Encrypted Aggregates</h3>
+            <p>Sum over every 8 submitted values of a type, plus min and max from 32 values on. Only the aggregate is ever decrypted.</p>
+            {aggregates.length === 0 ? (
+              <p>Connect your wallet to load the aggregates</p>
+            ) : (
+              <ul>
+                {aggregates.map(stats => (
+                  <li key={stats.type}>
+                    {formatAggregate(stats)}{" "}
+                    <button
+                      className="tech-button"
+                      onClick={() => onRevealAggregate(stats)}
+                      disabled={revealingAggregate}
+                    >
+                      Reveal
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="dashboard-card tech-card">
+            <h3>Reveal Approvals</h3>
+            <p>Values that need k of n approvers to sign before their decryption can be requested.</p>
+            {pendingApprovals.length === 0 ? (
+              <p>{account ? "No reveals waiting for approval" : "Connect your wallet to load the pending approvals"}</p>
+            ) : (
+              <ul>
+                {pendingApprovals.map(status => (
+                  <li key={status.id.toString()}>
+                    Value #{status.id.toString()}: {status.approved.length} of {status.threshold.toString()} approvals
+                    {status.ready ? (
+                      " - ready to reveal"
+                    ) : (
+                      <div>Still to sign: {status.missing.map(a => a.substring(0, 6) + "..." + a.substring(38)).join(", ")}</div>
+                    )}
+                    {status.missing.some(a => a.toLowerCase() === account.toLowerCase()) && (
+                      <button className="tech-button" onClick={() => onApproveReveal(status)} disabled={approving}>
+                        Approve
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="dashboard-card tech-card">
+            <h3>Handle Inspector</h3>
+            <div className="form-group">
+              <input
+                type="text"
+                value={inspectedHandle}
+                onChange={(e) => setInspectedHandle(e.target.value)}
+                placeholder="0x... ciphertext handle"
+                className="tech-input"
+              />
+            </div>
+            <button className="tech-button" onClick={onInspect} disabled={!inspectedHandle.trim()}>
+              Inspect
+            </button>
+            {inspectionError && <p>{inspectionError}</p>}
+            {inspection && (
+              <div className="stats-grid">
+                <div className="stat-item">
+                  <div className="stat-value">{inspection.typeName}</div>
+                  <div className="stat-label">Type</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{inspection.chainId.toString()}</div>
+                  <div className="stat-label">Chain ID</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">
+                    {inspection.origin === "input" ? `input #${inspection.inputIndex}` : "computed"}
+                  </div>
+                  <div className="stat-label">Origin</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{inspection.version}</div>
+                  <div className="stat-label">Version</div>
+                </div>
+                {inspection.allowed !== undefined && (
+                  <div className="stat-item">
+                    <div className="stat-value">{inspection.allowed ? "Yes" : "No"}</div>
+                    <div className="stat-label">Allowed for you</div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
         </div>
         
         <div className="team-section tech-card">
@@ -486,7 +680,7 @@ const App: React.FC = () => {
             <div className="table-header">
               <div className="header-cell">Name</div>
               <div className="header-cell">Description</div>
-              <div className="header-cell">FHE Type</div>
+              <div className="header-cell">Assertion</div>
               <div className="header-cell">Owner</div>
               <div className="header-cell">Date</div>
               <div className="header-cell">Status</div>
@@ -509,14 +703,14 @@ const App: React.FC = () => {
                 <div className="test-case-row" key={testCase.id}>
                   <div className="table-cell">{testCase.name}</div>
                   <div className="table-cell">{testCase.description.substring(0, 30)}...</div>
-                  <div className="table-cell">{testCase.fheType}</div>
+                  <div className="table-cell">{testCase.fheType} {testCase.operator} {testCase.expected}</div>
                   <div className="table-cell">{testCase.owner.substring(0, 6)}...{testCase.owner.substring(38)}</div>
                   <div className="table-cell">
                     {new Date(testCase.timestamp * 1000).toLocaleDateString()}
                   </div>
                   <div className="table-cell">
                     <span className={`status-badge ${testCase.status}`}>
-                      {testCase.status}
+                      {testCase.status === "pending" ? testCase.stage : testCase.status}
                     </span>
                   </div>
                   <div className="table-cell actions">
@@ -623,7 +817,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   };
 
   const handleSubmit = () => {
-    if (!testCase.name || !testCase.description) {
+    if (!testCase.name || !testCase.description || testCase.value === "" || testCase.expected === "") {
       alert("Please fill required fields");
       return;
     }
@@ -658,19 +852,56 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
             </div>
             
             <div className="form-group">
-              <label>FHE Type *</label>
+              <label>Encrypted Type *</label>
               <select 
                 name="fheType"
                 value={testCase.fheType} 
                 onChange={handleChange}
                 className="tech-select"
               >
-                <option value="Concrete">Concrete</option>
-                <option value="TFHE-rs">TFHE-rs</option>
-                <option value="OpenFHE">OpenFHE</option>
-                <option value="Other">Other</option>
+                {Object.keys(FHE_TYPES).map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
               </select>
             </div>
+
+            <div className="form-group">
+              <label>Input Value *</label>
+              <input 
+                type="text"
+                name="value"
+                value={testCase.value} 
+                onChange={handleChange}
+                placeholder="Encrypted before submission" 
+                className="tech-input"
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Operator *</label>
+              <select 
+                name="operator"
+                value={testCase.operator} 
+                onChange={handleChange}
+                className="tech-select"
+              >
+                {OPERATORS.map(op => (
+                  <option key={op} value={op}>{op}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Expected Value *</label>
+              <input 
+                type="text"
+                name="expected"
+                value={testCase.expected} 
+                onChange={handleChange}
+                placeholder="42" 
+                className="tech-input"
+              />
+            </div>
             
             <div className="form-group full-width">
               <label>Description *</label>
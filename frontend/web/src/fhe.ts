@@ -0,0 +1,126 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import {
+  AGGREGATE_TYPES,
+  AggregateStats,
+  readAggregate,
+  requestAggregateReveal,
+  waitForAggregate
+} from "../../../src/aggregates";
+import { findPendingApprovals, RevealApprovalStatus } from "../../../src/approvals";
+import { FHETestFrameworkClient } from "../../../src/client";
+import { Operator, runAssertion, waitForAssertion } from "../../../src/assertions";
+import { FheType } from "../../../src/fheTypes";
+import { decodeHandle, HandleMetadata } from "../../../src/handles";
+import { relayerInputFactory } from "../../../src/inputs";
+import { IACL__factory } from "../../../types/factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+import { config } from "./contract";
+
+export { formatAggregate } from "../../../src/aggregates";
+export type { AggregateStats, RevealApprovalStatus };
+
+// Encrypted types a test case input can have.
+export const FHE_TYPES: Record<string, FheType> = {
+  ebool: FheType.Bool,
+  euint8: FheType.Uint8,
+  euint16: FheType.Uint16,
+  euint32: FheType.Uint32,
+  euint64: FheType.Uint64,
+  euint128: FheType.Uint128,
+  euint256: FheType.Uint256
+};
+
+// Operators of FHETestFramework.runAssertion, in enum order.
+export const OPERATORS = ["==", "!=", "<", "<=", ">", ">="];
+
+export type RunStage = "submitted" | "computing" | "awaiting decryption" | "revealed";
+
+let instancePromise: Promise<any> | null = null;
+
+const getInstance = () => {
+  if (!instancePromise) {
+    instancePromise = initSDK().then(() =>
+      createInstance({ ...SepoliaConfig, network: (window as any).ethereum })
+    );
+  }
+  return instancePromise;
+};
+
+const toClear = (fheType: string, value: string) =>
+  fheType === "ebool" ? value === "true" || value === "1" : BigInt(value);
+
+export async function getFrameworkClient(): Promise<FHETestFrameworkClient> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!config.frameworkAddress) {
+    throw new Error("FHETestFramework address missing from config.json");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const signer = await provider.getSigner();
+  return FHETestFrameworkClient.connect(config.frameworkAddress, signer, relayerInputFactory(await getInstance()));
+}
+
+// Encrypt `value` in the browser and store it in FHETestFramework; returns the new value id.
+export async function submitEncryptedValue(fheType: string, value: string): Promise<string> {
+  const client = await getFrameworkClient();
+  const { id } = await client.submit(toClear(fheType, value), FHE_TYPES[fheType]);
+  return id.toString();
+}
+
+// Evaluate `value <op> expected` homomorphically; resolves once the ebool is computed and its decryption requested.
+export async function startAssertion(valueId: string, operator: string, fheType: string, expected: string): Promise<string> {
+  const client = await getFrameworkClient();
+  const op = OPERATORS.indexOf(operator);
+  if (op < 0) throw new Error(`Unknown operator ${operator}`);
+
+  const id = await runAssertion(client.contract, BigInt(valueId), op as Operator, toClear(fheType, expected), FHE_TYPES[fheType]);
+  return id.toString();
+}
+
+// Wait until the decryption oracle has revealed the assertion outcome.
+export async function waitForReveal(assertionId: string): Promise<boolean> {
+  const client = await getFrameworkClient();
+  const run = await waitForAssertion(client.contract, BigInt(assertionId), { intervalMs: 5000, timeoutMs: 300000 });
+  return run.passed;
+}
+
+// Last revealed aggregate of every value type; individual values are never read.
+export async function loadAggregates(): Promise<AggregateStats[]> {
+  const client = await getFrameworkClient();
+  return Promise.all(AGGREGATE_TYPES.map(type => readAggregate(client.contract, type)));
+}
+
+// Ask the decryption oracle for the aggregate of `fheType` and wait until it is revealed.
+export async function revealAggregate(fheType: FheType): Promise<AggregateStats> {
+  const client = await getFrameworkClient();
+  await requestAggregateReveal(client.contract, fheType);
+  return waitForAggregate(client.contract, fheType, { intervalMs: 5000, timeoutMs: 300000 });
+}
+
+// Values whose reveal still waits for approvals, with who has and has not approved.
+export async function loadPendingApprovals(): Promise<RevealApprovalStatus[]> {
+  const client = await getFrameworkClient();
+  if (!config.frameworkDeploymentBlock) {
+    throw new Error("FHETestFramework deployment block missing from config.json");
+  }
+  return findPendingApprovals(client.contract, { fromBlock: config.frameworkDeploymentBlock });
+}
+
+// Approve the reveal of a value from the connected wallet; resolves with the number of approvals so far.
+export async function approveValueReveal(valueId: bigint): Promise<bigint> {
+  const client = await getFrameworkClient();
+  return client.approveReveal(valueId);
+}
+
+// Decode a ciphertext handle; with a connected wallet, also ask the ACL whether `account` may use it.
+export async function inspectHandle(handle: string, account?: string): Promise<HandleMetadata & { allowed?: boolean }> {
+  const metadata = decodeHandle(handle);
+  if (!account || !(window as any).ethereum) {
+    return metadata;
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const acl = IACL__factory.connect(SepoliaConfig.aclContractAddress, provider);
+  return { ...metadata, allowed: await acl.isAllowed(metadata.handle, account) };
+}
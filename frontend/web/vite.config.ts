@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  // The FHETestFramework client and its typechain bindings live in the hardhat project
+  server: {
+    fs: { allow: ["../.."] }
+  },
   define: {
     'process.env': process.env
   }
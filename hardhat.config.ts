@@ -2,6 +2,14 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./src/coverageReporter";
+import "./src/matchers";
+import "./src/profilerReporter";
+import "./tasks/fheInspect";
+import "./tasks/fheLint";
+import "./tasks/fheMutate";
+import "./tasks/fheStuckReveals";
+import "./tasks/fheTest";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -0,0 +1,54 @@
+import { ethers } from "ethers";
+
+/** Submitter of a stored value. */
+export async function valueOwner(framework: ethers.BaseContract, id: bigint | number): Promise<string> {
+  const [, , , , owner] = await framework.getFunction("encryptedValues").staticCall(id);
+  if (owner === ethers.ZeroAddress) {
+    throw new Error(`Unknown value ${id}`);
+  }
+  return owner as string;
+}
+
+/** Let `delegate` reveal and run assertions on every value `owner` submitted. */
+export async function approveDelegate(
+  framework: ethers.BaseContract,
+  owner: ethers.Signer,
+  delegate: ethers.AddressLike,
+): Promise<void> {
+  await setDelegate(framework, owner, delegate, true);
+}
+
+export async function revokeDelegate(
+  framework: ethers.BaseContract,
+  owner: ethers.Signer,
+  delegate: ethers.AddressLike,
+): Promise<void> {
+  await setDelegate(framework, owner, delegate, false);
+}
+
+export async function isDelegate(
+  framework: ethers.BaseContract,
+  owner: ethers.AddressLike,
+  delegate: ethers.AddressLike,
+): Promise<boolean> {
+  return framework.getFunction("delegates").staticCall(owner, delegate);
+}
+
+/** Whether `account` may request decryption of value `id`, i.e. owns it or is one of its owner's delegates. */
+export async function canReveal(
+  framework: ethers.BaseContract,
+  id: bigint | number,
+  account: ethers.AddressLike,
+): Promise<boolean> {
+  return framework.getFunction("isAuthorized").staticCall(id, account);
+}
+
+async function setDelegate(
+  framework: ethers.BaseContract,
+  owner: ethers.Signer,
+  delegate: ethers.AddressLike,
+  approved: boolean,
+): Promise<void> {
+  const connected = framework.connect(owner) as ethers.BaseContract;
+  await (await connected.getFunction("setDelegate").send(delegate, approved)).wait();
+}
@@ -0,0 +1,129 @@
+import type { EncryptedAggregates } from "../types/contracts/EncryptedAggregates";
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import { EncryptedAggregates__factory } from "../types/factories/contracts/EncryptedAggregates__factory";
+import { encodeClearWord } from "./cleartexts";
+import { timeDecryption } from "./decryptionLog";
+import { ClearValue, FheType, typeName } from "./fheTypes";
+import type { LocalDecryptionOracle } from "./oracle";
+
+// Value types EncryptedAggregates keeps running aggregates for; 64 bits at most, so the 128-bit sum cannot wrap.
+export const AGGREGATE_TYPES = [FheType.Uint8, FheType.Uint16, FheType.Uint32, FheType.Uint64];
+
+// Mirrors `EncryptedAggregates.AGGREGATE_EPOCH`: a snapshot is taken every this many values of a type.
+export const AGGREGATE_EPOCH = 8n;
+
+// Mirrors `EncryptedAggregates.MIN_EXTREMES_COUNT`.
+export const MIN_EXTREMES_COUNT = 32n;
+
+// Encrypted aggregate of one value type: the number of values it covers and the euint128 handles over them.
+export interface EncryptedAggregate {
+  type: FheType;
+  count: bigint;
+  sum: string;
+  min: string;
+  max: string;
+}
+
+// Revealed snapshot over the first `count` values of a type. `min` and `max` are 0 unless `extremes`.
+export interface AggregateStats {
+  type: FheType;
+  count: bigint;
+  sum: bigint;
+  min: bigint;
+  max: bigint;
+  extremes: boolean;
+  revealed: boolean;
+}
+
+export interface WaitForAggregateOptions {
+  // Number of values the reveal must cover at least; defaults to the snapshot's count when the wait starts.
+  count?: bigint;
+  intervalMs?: number;
+  timeoutMs?: number;
+  // Local oracle to drive on every poll when running against the hardhat mock.
+  oracle?: LocalDecryptionOracle;
+}
+
+/** The EncryptedAggregates contract deployed by a framework, connected to the same runner. */
+export async function aggregatesOf(framework: FHETestFramework): Promise<EncryptedAggregates> {
+  return EncryptedAggregates__factory.connect(await framework.encryptedAggregates(), framework.runner);
+}
+
+/** Snapshot the contract should reveal after `values` of `type` were submitted, computed in plaintext. */
+export function expectedAggregate(type: FheType, values: (ClearValue | number)[]): AggregateStats {
+  const count = (BigInt(values.length) / AGGREGATE_EPOCH) * AGGREGATE_EPOCH;
+  const words = values.slice(0, Number(count)).map((value) => encodeClearWord(type, value));
+  if (words.length === 0) {
+    return { type, count: 0n, sum: 0n, min: 0n, max: 0n, extremes: false, revealed: false };
+  }
+  const extremes = count >= MIN_EXTREMES_COUNT;
+  return {
+    type,
+    count,
+    sum: words.reduce((sum, word) => sum + word, 0n),
+    min: extremes ? words.reduce((min, word) => (word < min ? word : min)) : 0n,
+    max: extremes ? words.reduce((max, word) => (word > max ? word : max)) : 0n,
+    extremes,
+    revealed: true,
+  };
+}
+
+/** The running aggregate of `type`, over every value submitted so far. */
+export async function readEncryptedAggregate(framework: FHETestFramework, type: FheType): Promise<EncryptedAggregate> {
+  const [count, sum, min, max] = await (await aggregatesOf(framework)).aggregates(type);
+  return { type, count, sum, min, max };
+}
+
+/** The last revealed snapshot of `type`. */
+export async function readAggregate(framework: FHETestFramework, type: FheType): Promise<AggregateStats> {
+  const [count, sum, min, max, extremes, revealed] = await (await aggregatesOf(framework)).revealedAggregates(type);
+  return { type, count, sum, min, max, extremes, revealed };
+}
+
+/** Ask the decryption oracle to reveal the last snapshot of `type`; returns the oracle's request id. */
+export async function requestAggregateReveal(framework: FHETestFramework, type: FheType): Promise<bigint> {
+  const aggregates = await aggregatesOf(framework);
+  const tx = await aggregates.requestAggregateDecryption(type);
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = aggregates.interface.parseLog(log);
+    if (parsed?.name === "AggregateDecryptionRequested") {
+      return parsed.args.requestId as bigint;
+    }
+  }
+  throw new Error(`No AggregateDecryptionRequested event in transaction ${tx.hash}`);
+}
+
+/** Poll the aggregate of `type` until a reveal covering enough values lands on-chain. */
+export async function waitForAggregate(
+  framework: FHETestFramework,
+  type: FheType,
+  { count, intervalMs = 2000, timeoutMs = 120_000, oracle }: WaitForAggregateOptions = {},
+): Promise<AggregateStats> {
+  const target = count ?? (await (await aggregatesOf(framework)).snapshots(type)).count;
+  const deadline = Date.now() + timeoutMs;
+  const poll = async () => {
+    for (;;) {
+      await oracle?.fulfill();
+      const stats = await readAggregate(framework, type);
+      if (stats.revealed && stats.count >= target) {
+        return stats;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Aggregate of ${typeName(type)} over ${target} values was not revealed within ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  };
+  return timeDecryption(`aggregate ${typeName(type)}`, poll, formatAggregate);
+}
+
+/** One-line summary of a revealed aggregate. */
+export function formatAggregate(stats: AggregateStats): string {
+  if (!stats.revealed) {
+    return `${typeName(stats.type)}: not revealed`;
+  }
+  const mean = (Number(stats.sum) / Number(stats.count)).toFixed(2);
+  const extremes = stats.extremes ? `, min ${stats.min}, max ${stats.max}` : "";
+  return `${typeName(stats.type)}: count ${stats.count}, sum ${stats.sum}${extremes}, mean ${mean}`;
+}
@@ -0,0 +1,66 @@
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import type { RevealApprovals } from "../types/contracts/RevealApprovals.sol/RevealApprovals";
+import { RevealApprovals__factory } from "../types/factories/contracts/RevealApprovals.sol/RevealApprovals__factory";
+
+// The k-of-n reveal policy of a value and where its approvals stand.
+export interface RevealApprovalStatus {
+  id: bigint;
+  threshold: bigint;
+  approvers: string[];
+  approved: string[];
+  // Approvers who have not approved yet; `threshold - approved.length` of them must still sign.
+  missing: string[];
+  // Enough approvals for `requestValueDecryption`.
+  ready: boolean;
+}
+
+/** The RevealApprovals contract deployed by a framework, connected to the same runner. */
+export async function revealApprovalsOf(framework: FHETestFramework): Promise<RevealApprovals> {
+  return RevealApprovals__factory.connect(await framework.revealApprovals(), framework.runner);
+}
+
+/** Reveal policy of a value, or `undefined` when anyone authorized may reveal it alone. */
+export async function readRevealApprovals(
+  framework: FHETestFramework,
+  id: bigint | number,
+): Promise<RevealApprovalStatus | undefined> {
+  const approvals = await revealApprovalsOf(framework);
+  const { threshold } = await approvals.policies(id);
+  if (threshold === 0n) {
+    return undefined;
+  }
+  const approvers = await approvals.getApprovers(id);
+  const approved: string[] = [];
+  const missing: string[] = [];
+  for (const approver of approvers) {
+    ((await approvals.approvals(id, approver)) ? approved : missing).push(approver);
+  }
+  return { id: BigInt(id), threshold, approvers, approved, missing, ready: BigInt(approved.length) >= threshold };
+}
+
+/**
+ * Values with a reveal policy whose decryption is not requested yet, in id order.
+ * Policies are searched from `fromBlock`, normally the block the framework was deployed in.
+ */
+export async function findPendingApprovals(
+  framework: FHETestFramework,
+  { fromBlock }: { fromBlock: number },
+): Promise<RevealApprovalStatus[]> {
+  const approvals = await revealApprovalsOf(framework);
+  const policies = await approvals.queryFilter(approvals.filters.PolicySet(), fromBlock);
+  const pending: RevealApprovalStatus[] = [];
+  for (const { args } of policies) {
+    const [, revealed] = await framework.clearValues(args.id);
+    const { deadline } = await framework.pendingDecryptions(args.id);
+    if (!revealed && deadline === 0n) {
+      pending.push((await readRevealApprovals(framework, args.id))!);
+    }
+  }
+  return pending.sort((a, b) => (a.id < b.id ? -1 : 1));
+}
+
+/** One-line status, e.g. `value 3: 1 of 2 approvals, waiting for 0xab…, 0xcd…`. */
+export function formatRevealApprovals(status: RevealApprovalStatus): string {
+  const summary = `value ${status.id}: ${status.approved.length} of ${status.threshold} approvals`;
+  return status.ready ? `${summary}, ready to reveal` : `${summary}, waiting for ${status.missing.join(", ")}`;
+}
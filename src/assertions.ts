@@ -0,0 +1,128 @@
+import { ethers } from "ethers";
+import { encodeClearWord } from "./cleartexts";
+import { timeDecryption } from "./decryptionLog";
+import { ClearValue, FheType } from "./fheTypes";
+import { BinaryOperation, UnsupportedOperationError, binaryOperation, supports } from "./model";
+
+// Mirrors `FHETestFramework.Operator`.
+export enum Operator {
+  Eq = 0,
+  Ne,
+  Lt,
+  Le,
+  Gt,
+  Ge,
+}
+
+export const OPERATOR_SYMBOLS: Record<Operator, string> = {
+  [Operator.Eq]: "==",
+  [Operator.Ne]: "!=",
+  [Operator.Lt]: "<",
+  [Operator.Le]: "<=",
+  [Operator.Gt]: ">",
+  [Operator.Ge]: ">=",
+};
+
+// Executor comparison `runAssertion` performs for each operator.
+const OPERATOR_OPERATIONS: Record<Operator, BinaryOperation> = {
+  [Operator.Eq]: "fheEq",
+  [Operator.Ne]: "fheNe",
+  [Operator.Lt]: "fheLt",
+  [Operator.Le]: "fheLe",
+  [Operator.Gt]: "fheGt",
+  [Operator.Ge]: "fheGe",
+};
+
+// Progress of an encrypted assertion, from submission of the input to the reveal of its outcome.
+export type AssertionStage = "submitted" | "computing" | "awaiting decryption" | "revealed";
+
+// An assertion run as stored by FHETestFramework.
+export interface AssertionRun {
+  id: bigint;
+  valueId: bigint;
+  op: Operator;
+  expected: bigint;
+  result: string;
+  revealed: boolean;
+  passed: boolean;
+}
+
+/** Outcome `runAssertion` should reveal for a value, computed with the plaintext model. */
+export function expectedOutcome(
+  op: Operator,
+  type: FheType,
+  value: ClearValue | number,
+  expected: ClearValue | number,
+): boolean {
+  return binaryOperation(OPERATOR_OPERATIONS[op], type, value, expected) as boolean;
+}
+
+/** Throws `UnsupportedOperationError` unless the executor can compare values of `type` with `op`, as the contract requires. */
+export function requireOperatorSupported(op: Operator, type: FheType): void {
+  if (!supports(OPERATOR_OPERATIONS[op], type)) {
+    throw new UnsupportedOperationError(OPERATOR_OPERATIONS[op], type);
+  }
+}
+
+/** Start an assertion on a stored value; returns its id once the comparison is computed and decryption requested. */
+export async function runAssertion(
+  framework: ethers.BaseContract,
+  valueId: bigint | number,
+  op: Operator,
+  expected: ClearValue | number,
+  type: FheType,
+): Promise<bigint> {
+  requireOperatorSupported(op, type);
+  const tx = await framework.getFunction("runAssertion").send(valueId, op, encodeClearWord(type, expected));
+  return assertionId(framework, tx);
+}
+
+/** Id of the assertion started by a `runAssertion` transaction, read from its `AssertionComputed` event. */
+export async function assertionId(
+  framework: ethers.BaseContract,
+  tx: ethers.ContractTransactionResponse,
+): Promise<bigint> {
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = framework.interface.parseLog(log);
+    if (parsed?.name === "AssertionComputed") {
+      return parsed.args.assertionId as bigint;
+    }
+  }
+  throw new Error(`No AssertionComputed event in transaction ${tx.hash}`);
+}
+
+export async function readAssertion(framework: ethers.BaseContract, id: bigint | number): Promise<AssertionRun> {
+  const [valueId, op, expected, result, revealed, passed] = await framework.getFunction("assertions").staticCall(id);
+  return {
+    id: BigInt(id),
+    valueId,
+    op: Number(op) as Operator,
+    expected,
+    result: ethers.toBeHex(result, 32),
+    revealed,
+    passed,
+  };
+}
+
+/** Poll an assertion until its outcome is revealed by the decryption oracle. */
+export async function waitForAssertion(
+  framework: ethers.BaseContract,
+  id: bigint | number,
+  { intervalMs = 2000, timeoutMs = 120_000 }: { intervalMs?: number; timeoutMs?: number } = {},
+): Promise<AssertionRun> {
+  const deadline = Date.now() + timeoutMs;
+  const poll = async () => {
+    for (;;) {
+      const run = await readAssertion(framework, id);
+      if (run.revealed) {
+        return run;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Assertion ${id} was not revealed within ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  };
+  return timeDecryption(`assertion ${id}`, poll, (run) => (run.passed ? "passed" : "failed"));
+}
@@ -0,0 +1,202 @@
+import { ethers } from "ethers";
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import { OPERATOR_SYMBOLS, Operator, expectedOutcome, requireOperatorSupported } from "./assertions";
+import { decodeClearWord, encodeClearWord } from "./cleartexts";
+import { timeDecryption } from "./decryptionLog";
+import { ClearValue, FheType } from "./fheTypes";
+import { clearValuesEqual, formatClearValue } from "./handles";
+import type { LocalDecryptionOracle } from "./oracle";
+
+// Mirrors `FHETestFramework.CheckKind`.
+export enum CheckKind {
+  Compare = 0,
+  InRange,
+  OneOf,
+}
+
+// Operand of a check: a plaintext of the checked value's type, or another stored value, compared encrypted.
+export type CheckBound = ClearValue | number | { valueId: bigint | number };
+
+// `FHETestFramework.Bound`: a plaintext word, or a stored value id when `encrypted`.
+export interface EncodedBound {
+  encrypted: boolean;
+  value: bigint;
+}
+
+// A check as stored by FHETestFramework, with the type of the checked value.
+export interface Check {
+  id: bigint;
+  valueId: bigint;
+  type: FheType;
+  kind: CheckKind;
+  // Only meaningful for `Compare`.
+  op: Operator;
+  requester: string;
+  result: string;
+  bounds: EncodedBound[];
+  revealed: boolean;
+  passed: boolean;
+}
+
+export interface CheckOptions {
+  // Request the decryption of the outcome in the same transaction.
+  reveal?: boolean;
+}
+
+export interface WaitForCheckOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  // Local oracle to drive on every poll when running against the hardhat mock.
+  oracle?: LocalDecryptionOracle;
+}
+
+/** Contract form of a bound; plaintexts are checked against the width of `type`. */
+export function encodeBound(type: FheType, bound: CheckBound): EncodedBound {
+  if (typeof bound === "object") {
+    return { encrypted: true, value: BigInt(bound.valueId) };
+  }
+  return { encrypted: false, value: encodeClearWord(type, bound) };
+}
+
+/**
+ * Compare a stored value with `rhs` homomorphically; returns the new check id.
+ * Booleans, addresses and 256-bit values only support `Eq` and `Ne`.
+ */
+export async function checkCompare(
+  framework: FHETestFramework,
+  valueId: bigint | number,
+  op: Operator,
+  rhs: CheckBound,
+  type: FheType,
+  { reveal = false }: CheckOptions = {},
+): Promise<bigint> {
+  requireOperatorSupported(op, type);
+  return checkId(framework, await framework.checkCompare(valueId, op, encodeBound(type, rhs), reveal));
+}
+
+/** Check `lo <= value <= hi` homomorphically; returns the new check id. */
+export async function checkInRange(
+  framework: FHETestFramework,
+  valueId: bigint | number,
+  lo: CheckBound,
+  hi: CheckBound,
+  type: FheType,
+  { reveal = false }: CheckOptions = {},
+): Promise<bigint> {
+  requireOperatorSupported(Operator.Ge, type);
+  const tx = await framework.checkInRange(valueId, encodeBound(type, lo), encodeBound(type, hi), reveal);
+  return checkId(framework, tx);
+}
+
+/** Check that a stored value is one of `set` homomorphically; returns the new check id. */
+export async function checkOneOf(
+  framework: FHETestFramework,
+  valueId: bigint | number,
+  set: CheckBound[],
+  type: FheType,
+  { reveal = false }: CheckOptions = {},
+): Promise<bigint> {
+  const bounds = set.map((bound) => encodeBound(type, bound));
+  return checkId(framework, await framework.checkOneOf(valueId, bounds, reveal));
+}
+
+/** Id of the check computed by a transaction, read from its `CheckComputed` event. */
+export async function checkId(framework: FHETestFramework, tx: ethers.ContractTransactionResponse): Promise<bigint> {
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = framework.interface.parseLog(log);
+    if (parsed?.name === "CheckComputed") {
+      return parsed.args.checkId as bigint;
+    }
+  }
+  throw new Error(`No CheckComputed event in transaction ${tx.hash}`);
+}
+
+export async function readCheck(framework: FHETestFramework, id: bigint | number): Promise<Check> {
+  const [valueId, kind, op, requester, result, revealed, passed] = await framework.checks(id);
+  const { valueType } = await framework.encryptedValues(valueId);
+  const bounds = await framework.getCheckBounds(id);
+  return {
+    id: BigInt(id),
+    valueId,
+    type: Number(valueType) as FheType,
+    kind: Number(kind) as CheckKind,
+    op: Number(op) as Operator,
+    requester,
+    result: ethers.toBeHex(result, 32),
+    bounds: bounds.map(({ encrypted, value }) => ({ encrypted, value })),
+    revealed,
+    passed,
+  };
+}
+
+/** Ask the decryption oracle to reveal a check computed without `reveal`; returns the oracle's request id. */
+export async function requestCheckReveal(framework: FHETestFramework, id: bigint | number): Promise<bigint> {
+  const tx = await framework.requestCheckDecryption(id);
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = framework.interface.parseLog(log);
+    if (parsed?.name === "CheckDecryptionRequested") {
+      return parsed.args.requestId as bigint;
+    }
+  }
+  throw new Error(`No CheckDecryptionRequested event in transaction ${tx.hash}`);
+}
+
+/** Poll a check until its outcome is revealed by the decryption oracle. */
+export async function waitForCheck(
+  framework: FHETestFramework,
+  id: bigint | number,
+  { intervalMs = 2000, timeoutMs = 120_000, oracle }: WaitForCheckOptions = {},
+): Promise<Check> {
+  const deadline = Date.now() + timeoutMs;
+  const poll = async () => {
+    for (;;) {
+      await oracle?.fulfill();
+      const check = await readCheck(framework, id);
+      if (check.revealed) {
+        return check;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Check ${id} (${describeCheck(check)}) was not revealed within ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  };
+  return timeDecryption(`check ${id}`, poll, (check) => (check.passed ? "passed" : "failed"));
+}
+
+/** Outcome a check should reveal for a value, computed in plaintext; bounds are given by their plaintexts. */
+export function expectedCheckOutcome(
+  kind: CheckKind,
+  op: Operator,
+  type: FheType,
+  value: ClearValue | number,
+  bounds: (ClearValue | number)[],
+): boolean {
+  switch (kind) {
+    case CheckKind.Compare:
+      return expectedOutcome(op, type, value, bounds[0]);
+    case CheckKind.InRange:
+      return (
+        expectedOutcome(Operator.Ge, type, value, bounds[0]) && expectedOutcome(Operator.Le, type, value, bounds[1])
+      );
+    case CheckKind.OneOf:
+      return bounds.some((bound) => clearValuesEqual(decodeClearWord(type, encodeClearWord(type, value)), bound));
+  }
+}
+
+/** What a check tests, e.g. `value 1 in [10, value 2]`. */
+export function describeCheck(check: Check): string {
+  const bounds = check.bounds.map((bound) =>
+    bound.encrypted ? `value ${bound.value}` : formatClearValue(decodeClearWord(check.type, bound.value)),
+  );
+  switch (check.kind) {
+    case CheckKind.Compare:
+      return `value ${check.valueId} ${OPERATOR_SYMBOLS[check.op]} ${bounds[0]}`;
+    case CheckKind.InRange:
+      return `value ${check.valueId} in [${bounds.join(", ")}]`;
+    case CheckKind.OneOf:
+      return `value ${check.valueId} in {${bounds.join(", ")}}`;
+  }
+}
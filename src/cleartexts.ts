@@ -0,0 +1,71 @@
+import { ethers } from "ethers";
+import { ClearValue, FheType, bitWidth, isUintType, solidityType, typeName } from "./fheTypes";
+
+// A reveal result as stored by FHETestFramework, with its plaintext in the native JS type.
+export interface RevealedValue {
+  type: FheType;
+  value: ClearValue;
+  revealed: boolean;
+}
+
+/** Decode the `cleartexts` argument of a decryption callback, one value per requested handle type. */
+export function decodeCleartexts(cleartexts: ethers.BytesLike, types: FheType[]): ClearValue[] {
+  const decoded = ethers.AbiCoder.defaultAbiCoder().decode(types.map(solidityType), cleartexts);
+  return types.map((type, i) => toClearValue(type, decoded[i]));
+}
+
+/** Interpret a cleartext stored as a single word (the way `getClearValue` returns it). */
+export function decodeClearWord(type: FheType, word: ethers.BigNumberish): ClearValue {
+  const raw = ethers.toBigInt(word);
+  if (type === FheType.Bool) {
+    return raw !== 0n;
+  }
+  if (type === FheType.Uint160) {
+    return ethers.getAddress(ethers.toBeHex(raw, 20));
+  }
+  if (isUintType(type)) {
+    return raw;
+  }
+  throw new Error(`Cannot decode cleartext of type ${typeName(type)}`);
+}
+
+/** Inverse of `decodeClearWord`: the single-word form of a plaintext, checked against the type's width. */
+export function encodeClearWord(type: FheType, value: ClearValue | number): bigint {
+  if (type === FheType.Bool) {
+    if (typeof value !== "boolean") {
+      throw new TypeError(`Expected a boolean for ${typeName(type)}, got ${value}`);
+    }
+    return value ? 1n : 0n;
+  }
+  if (type === FheType.Uint160) {
+    return ethers.toBigInt(ethers.getAddress(String(value)));
+  }
+  if (!isUintType(type) || typeof value === "boolean") {
+    throw new TypeError(`Cannot encode ${value} as ${typeName(type)}`);
+  }
+  const word = BigInt(value);
+  if (word < 0n || word >= 1n << BigInt(bitWidth(type))) {
+    throw new RangeError(`${value} does not fit in ${typeName(type)}`);
+  }
+  return word;
+}
+
+/** Typed view of the `(valueType, value, revealed)` tuple returned by `getClearValue`. */
+export function toRevealedValue([type, word, revealed]: [
+  ethers.BigNumberish,
+  ethers.BigNumberish,
+  boolean,
+]): RevealedValue {
+  const fheType = Number(type) as FheType;
+  return { type: fheType, value: decodeClearWord(fheType, word), revealed };
+}
+
+function toClearValue(type: FheType, decoded: unknown): ClearValue {
+  if (type === FheType.Bool) {
+    return decoded as boolean;
+  }
+  if (type === FheType.Uint160) {
+    return ethers.getAddress(decoded as string);
+  }
+  return decoded as bigint;
+}
@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import { FHETestFramework__factory } from "../types/factories/contracts/FHETestFramework__factory";
+import { revealApprovalsOf } from "./approvals";
+import { RevealedValue, toRevealedValue } from "./cleartexts";
+import { ClearValue, FheType } from "./fheTypes";
+import { EncryptedInputFactory, encryptInput } from "./inputs";
+import { AwaitRevealOptions, awaitReveal } from "./reveal";
+import type { SubmittedValue } from "./values";
+
+export type { FHETestFramework };
+
+// Arguments of the framework's events, decoded.
+export interface ValueSubmittedEvent {
+  id: bigint;
+  type: FheType;
+  timestamp: bigint;
+}
+
+export interface DecryptionRequestedEvent {
+  id: bigint;
+  requestId: bigint;
+}
+
+// Stops an event subscription.
+export type Unsubscribe = () => Promise<void>;
+
+/**
+ * Typed access to a deployed FHETestFramework, usable from hardhat tests and from the browser.
+ * Encryption goes through `inputs` (the hardhat plugin's or the relayer SDK's), so the client itself never needs hardhat.
+ */
+export class FHETestFrameworkClient {
+  constructor(
+    readonly contract: FHETestFramework,
+    private readonly inputs: EncryptedInputFactory,
+  ) {}
+
+  static connect(
+    address: string,
+    runner: ethers.ContractRunner,
+    inputs: EncryptedInputFactory,
+  ): FHETestFrameworkClient {
+    return new FHETestFrameworkClient(FHETestFramework__factory.connect(address, runner), inputs);
+  }
+
+  static async deploy(signer: ethers.Signer, inputs: EncryptedInputFactory): Promise<FHETestFrameworkClient> {
+    const contract = await new FHETestFramework__factory(signer).deploy();
+    await contract.waitForDeployment();
+    return new FHETestFrameworkClient(contract, inputs);
+  }
+
+  /** Same contract and encryption, sending from another account. */
+  connect(signer: ethers.Signer): FHETestFrameworkClient {
+    return new FHETestFrameworkClient(this.contract.connect(signer), this.inputs);
+  }
+
+  /** Encrypt `value` as `type` for the sending account and store it; the plaintext never leaves the client. */
+  async submit(value: ClearValue | number, type: FheType): Promise<SubmittedValue> {
+    const address = await this.contract.getAddress();
+    const input = await encryptInput(this.inputs, address, await this.sender(), value, type);
+    const tx = await this.contract.submitEncryptedInput(type, input.handle, input.inputProof);
+    const { id } = this.findEvent(await tx.wait(), "ValueSubmitted", tx.hash);
+    return { id, type, handle: (await this.contract.encryptedValues(id)).handle };
+  }
+
+  /** Ask the decryption oracle to reveal a value; returns the oracle's request id. */
+  async requestReveal(id: bigint | number): Promise<bigint> {
+    const tx = await this.contract.requestValueDecryption(id);
+    return this.findEvent(await tx.wait(), "DecryptionRequested", tx.hash).requestId;
+  }
+
+  /** Drop a reveal the oracle did not answer before its deadline; a late callback for it is ignored. */
+  async cancelReveal(id: bigint | number): Promise<void> {
+    await (await this.contract.cancelValueDecryption(id)).wait();
+  }
+
+  /** Replace a reveal past its deadline with a new oracle request; returns the new request id. */
+  async retryReveal(id: bigint | number): Promise<bigint> {
+    const tx = await this.contract.retryValueDecryption(id);
+    return this.findEvent(await tx.wait(), "DecryptionRequested", tx.hash).requestId;
+  }
+
+  /** Require `threshold` of `approvers` to approve before the value can be revealed; only its owner may, once. */
+  async setRevealPolicy(id: bigint | number, approvers: ethers.AddressLike[], threshold: number): Promise<void> {
+    await (await (await revealApprovalsOf(this.contract)).setPolicy(id, approvers, threshold)).wait();
+  }
+
+  /** Approve the reveal of a value as one of its approvers; returns the number of approvals so far. */
+  async approveReveal(id: bigint | number): Promise<bigint> {
+    return this.setRevealApproval(id, true);
+  }
+
+  /** Withdraw the sender's approval; no longer possible once the reveal is requested. */
+  async revokeRevealApproval(id: bigint | number): Promise<bigint> {
+    return this.setRevealApproval(id, false);
+  }
+
+  async getClearValue(id: bigint | number): Promise<RevealedValue> {
+    return toRevealedValue(await this.contract.getClearValue(id));
+  }
+
+  /** Wait for the oracle to reveal a value; see `awaitReveal` for the options and the timeout diagnostics. */
+  async awaitReveal(id: bigint | number, options?: AwaitRevealOptions): Promise<ClearValue> {
+    return awaitReveal(this.contract, id, options);
+  }
+
+  async onValueSubmitted(listener: (event: ValueSubmittedEvent) => void): Promise<Unsubscribe> {
+    const event = this.contract.getEvent("ValueSubmitted");
+    const handler = (id: bigint, valueType: bigint, timestamp: bigint) =>
+      listener({ id, type: Number(valueType) as FheType, timestamp });
+    await this.contract.on(event, handler);
+    return async () => void (await this.contract.off(event, handler));
+  }
+
+  async onDecryptionRequested(listener: (event: DecryptionRequestedEvent) => void): Promise<Unsubscribe> {
+    const event = this.contract.getEvent("DecryptionRequested");
+    const handler = (id: bigint, requestId: bigint) => listener({ id, requestId });
+    await this.contract.on(event, handler);
+    return async () => void (await this.contract.off(event, handler));
+  }
+
+  /** Calls `listener` with each value's typed cleartext once its reveal lands on-chain. */
+  async onValueRevealed(listener: (id: bigint, value: RevealedValue) => void): Promise<Unsubscribe> {
+    const event = this.contract.getEvent("ValueRevealed");
+    const handler = async (id: bigint) => listener(id, await this.getClearValue(id));
+    await this.contract.on(event, handler);
+    return async () => void (await this.contract.off(event, handler));
+  }
+
+  private async setRevealApproval(id: bigint | number, approved: boolean): Promise<bigint> {
+    const approvals = await revealApprovalsOf(this.contract);
+    const tx = await approvals.setApproval(id, approved);
+    return this.findEvent(await tx.wait(), "ApprovalUpdated", tx.hash, approvals).approvals;
+  }
+
+  private async sender(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("FHETestFrameworkClient needs a signer to send transactions");
+    }
+    return runner.getAddress();
+  }
+
+  private findEvent(
+    receipt: ethers.ContractTransactionReceipt | null,
+    name: string,
+    hash: string,
+    emitter: ethers.BaseContract = this.contract,
+  ): ethers.Result {
+    for (const log of receipt?.logs ?? []) {
+      const parsed = emitter.interface.parseLog(log);
+      if (parsed?.name === name) {
+        return parsed.args;
+      }
+    }
+    throw new Error(`No ${name} event in transaction ${hash}`);
+  }
+}
@@ -0,0 +1,134 @@
+import { ExecutorCall } from "./executor";
+import { FheType, typeName } from "./fheTypes";
+import { ExecutorOperation, SUPPORTED_TYPES } from "./model";
+
+// Calls seen for one operation on one operand type.
+export interface CoverageCell {
+  encrypted: number;
+  scalar: number;
+}
+
+export interface CoverageReport {
+  // Percentage of supported (operation, type) pairs exercised at least once.
+  percent: number;
+  covered: number;
+  total: number;
+  types: string[];
+  operations: {
+    operation: ExecutorOperation;
+    cells: Record<string, CoverageCell | null>;
+  }[];
+}
+
+const TYPES = [
+  FheType.Bool,
+  FheType.Uint8,
+  FheType.Uint16,
+  FheType.Uint32,
+  FheType.Uint64,
+  FheType.Uint128,
+  FheType.Uint160,
+  FheType.Uint256,
+];
+
+/** Tally of the executor calls made by a test run, against the operations and widths fhevm supports. */
+export class OperatorCoverage {
+  private readonly counts = new Map<string, CoverageCell>();
+
+  record(calls: ExecutorCall[]): void {
+    for (const call of calls) {
+      const key = `${call.operation}:${call.type}`;
+      const cell = this.counts.get(key) ?? { encrypted: 0, scalar: 0 };
+      if (call.scalar) {
+        cell.scalar++;
+      } else {
+        cell.encrypted++;
+      }
+      this.counts.set(key, cell);
+    }
+  }
+
+  report(): CoverageReport {
+    let covered = 0;
+    let total = 0;
+    const operations = (Object.keys(SUPPORTED_TYPES) as ExecutorOperation[]).map((operation) => {
+      const cells: Record<string, CoverageCell | null> = {};
+      for (const type of TYPES) {
+        if (!SUPPORTED_TYPES[operation].includes(type)) {
+          cells[typeName(type)] = null;
+          continue;
+        }
+        const cell = this.counts.get(`${operation}:${type}`) ?? { encrypted: 0, scalar: 0 };
+        cells[typeName(type)] = cell;
+        total++;
+        if (cell.encrypted + cell.scalar > 0) {
+          covered++;
+        }
+      }
+      return { operation, cells };
+    });
+    const percent = total === 0 ? 0 : Math.round((covered / total) * 1000) / 10;
+    return { percent, covered, total, types: TYPES.map(typeName), operations };
+  }
+}
+
+/** Plain-text matrix: call counts per cell, `.` for a supported pair never called, blank where unsupported. */
+export function formatCoverageTable(report: CoverageReport): string {
+  const width = 10;
+  const pad = (text: string, n = width) => text.padEnd(n);
+  const lines = [pad("", 16) + report.types.map((t) => pad(t)).join("")];
+  for (const { operation, cells } of report.operations) {
+    const row = report.types.map((t) => {
+      const cell = cells[t];
+      if (cell === null) {
+        return pad("");
+      }
+      const calls = cell.encrypted + cell.scalar;
+      return pad(calls === 0 ? "." : String(calls));
+    });
+    lines.push(pad(operation, 16) + row.join(""));
+  }
+  lines.push("", `FHE operator coverage: ${report.covered}/${report.total} (${report.percent}%)`);
+  return lines.join("\n");
+}
+
+export function coverageHtml(report: CoverageReport): string {
+  const header = report.types.map((t) => `<th>${t}</th>`).join("");
+  const rows = report.operations
+    .map(({ operation, cells }) => {
+      const tds = report.types.map((t) => {
+        const cell = cells[t];
+        if (cell === null) {
+          return `<td class="na"></td>`;
+        }
+        const calls = cell.encrypted + cell.scalar;
+        const title = `${cell.encrypted} encrypted, ${cell.scalar} scalar`;
+        return `<td class="${calls === 0 ? "miss" : "hit"}" title="${title}">${calls}</td>`;
+      });
+      return `<tr><th>${operation}</th>${tds.join("")}</tr>`;
+    })
+    .join("\n");
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>FHE operator coverage</title>
+<style>
+body { font-family: sans-serif; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: center; }
+td.hit { background: #c8f7c5; }
+td.miss { background: #f7c5c5; }
+td.na { background: #eee; }
+</style>
+</head>
+<body>
+<h1>FHE operator coverage: ${report.covered}/${report.total} (${report.percent}%)</h1>
+<table>
+<tr><th></th>${header}</tr>
+${rows}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { TASK_TEST_RUN_MOCHA_TESTS } from "hardhat/builtin-tasks/task-names";
+import { extendConfig, extendProvider, subtask } from "hardhat/config";
+import { HardhatPluginError, ProviderWrapper } from "hardhat/plugins";
+import type { EIP1193Provider, RequestArguments } from "hardhat/types";
+import { CoverageReport, OperatorCoverage, coverageHtml, formatCoverageTable } from "./coverage";
+import { RawLog, parseExecutorCalls } from "./executor";
+
+// Records the FHE operators exercised by `hardhat test` in mock mode; imported from hardhat.config.ts.
+
+export interface FheCoverageUserConfig {
+  // Defaults to true when FHE_COVERAGE is set.
+  enabled?: boolean;
+  outputDir?: string;
+  // Minimum percentage of supported (operation, type) pairs; the run fails below it. Defaults to FHE_COVERAGE_THRESHOLD.
+  threshold?: number;
+}
+
+export interface FheCoverageConfig {
+  enabled: boolean;
+  outputDir: string;
+  threshold?: number;
+}
+
+declare module "hardhat/types/config" {
+  interface HardhatUserConfig {
+    fheCoverage?: FheCoverageUserConfig;
+  }
+
+  interface HardhatConfig {
+    fheCoverage: FheCoverageConfig;
+  }
+}
+
+// Shared by the provider wrapper and the test task; the provider outlives evm_revert, so calls made before a snapshot is restored still count.
+const coverage = new OperatorCoverage();
+
+/** Records the executor calls of every transaction sent through `provider` into `coverage`. */
+export class ExecutorCallRecorder extends ProviderWrapper {
+  constructor(
+    provider: EIP1193Provider,
+    private readonly coverage: OperatorCoverage,
+  ) {
+    super(provider);
+  }
+
+  async request(args: RequestArguments): Promise<unknown> {
+    const result = await this._wrappedProvider.request(args);
+    if (args.method === "eth_sendTransaction" || args.method === "eth_sendRawTransaction") {
+      const receipt = (await this._wrappedProvider.request({
+        method: "eth_getTransactionReceipt",
+        params: [result],
+      })) as { logs: RawLog[] } | null;
+      if (receipt !== null) {
+        this.coverage.record(parseExecutorCalls(receipt.logs));
+      }
+    }
+    return result;
+  }
+}
+
+/** Threshold from the config or FHE_COVERAGE_THRESHOLD; unset when empty, and an error when not a number. */
+export function parseCoverageThreshold(threshold: number | string | undefined): number | undefined {
+  if (threshold === undefined || threshold === "") {
+    return undefined;
+  }
+  const percent = Number(threshold);
+  if (!Number.isFinite(percent)) {
+    throw new HardhatPluginError("fheCoverage", `FHE coverage threshold must be a percentage, got "${threshold}"`);
+  }
+  return percent;
+}
+
+/** Write the report as `fhe-operators.json` and `fhe-operators.html` under `outputDir`. */
+export function writeCoverageReport(report: CoverageReport, outputDir: string): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, "fhe-operators.json"), JSON.stringify(report, null, 2));
+  fs.writeFileSync(path.join(outputDir, "fhe-operators.html"), coverageHtml(report));
+}
+
+extendConfig((config, userConfig) => {
+  config.fheCoverage = {
+    enabled: userConfig.fheCoverage?.enabled ?? !!process.env.FHE_COVERAGE,
+    outputDir: path.resolve(config.paths.root, userConfig.fheCoverage?.outputDir ?? "coverage/fhe"),
+    threshold: parseCoverageThreshold(userConfig.fheCoverage?.threshold ?? process.env.FHE_COVERAGE_THRESHOLD),
+  };
+});
+
+extendProvider(async (provider: EIP1193Provider, config, network) => {
+  // Only the in-process mock network runs the executor locally.
+  if (!config.fheCoverage.enabled || network !== "hardhat") {
+    return provider;
+  }
+  return new ExecutorCallRecorder(provider, coverage);
+});
+
+subtask(TASK_TEST_RUN_MOCHA_TESTS).setAction(async (args, hre, runSuper) => {
+  const failures: number = await runSuper(args);
+  const { enabled, outputDir, threshold } = hre.config.fheCoverage;
+  if (!enabled || hre.network.name !== "hardhat") {
+    return failures;
+  }
+
+  const report = coverage.report();
+  console.log(`\n${formatCoverageTable(report)}`);
+  writeCoverageReport(report, outputDir);
+  console.log(`Written to ${path.relative(hre.config.paths.root, outputDir)}/fhe-operators.{json,html}`);
+
+  if (threshold !== undefined && report.percent < threshold) {
+    console.error(`FHE operator coverage ${report.percent}% is below the threshold of ${threshold}%`);
+    return failures + 1;
+  }
+  return failures;
+});
@@ -0,0 +1,35 @@
+// Decryptions performed by the helpers of this package, reported to listeners such as the `fhe:test` reporters.
+
+export interface DecryptionRecord {
+  // What was decrypted: a handle, `value <id>` or `assertion <id>`.
+  subject: string;
+  value: string;
+  durationMs: number;
+}
+
+export type DecryptionListener = (record: DecryptionRecord) => void;
+
+const listeners = new Set<DecryptionListener>();
+
+/** Be told of every decryption until the returned function is called. */
+export function onDecryption(listener: DecryptionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Run `decrypt` and report its result and duration to the listeners. */
+export async function timeDecryption<T>(
+  subject: string,
+  decrypt: () => Promise<T>,
+  format: (value: T) => string = String,
+): Promise<T> {
+  const start = Date.now();
+  const value = await decrypt();
+  if (listeners.size > 0) {
+    const record = { subject, value: format(value), durationMs: Date.now() - start };
+    listeners.forEach((listener) => listener(record));
+  }
+  return value;
+}
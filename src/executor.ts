@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import { FheType } from "./fheTypes";
+import { handleType } from "./handles";
+import { ExecutorOperation } from "./model";
+
+// Events emitted by FHEVMExecutor for each operation (FHEEvents.sol in @fhevm/core-contracts).
+const BINARY_EVENTS = [
+  "FheAdd",
+  "FheSub",
+  "FheMul",
+  "FheDiv",
+  "FheRem",
+  "FheBitAnd",
+  "FheBitOr",
+  "FheBitXor",
+  "FheShl",
+  "FheShr",
+  "FheRotl",
+  "FheRotr",
+  "FheEq",
+  "FheNe",
+  "FheGe",
+  "FheGt",
+  "FheLe",
+  "FheLt",
+  "FheMin",
+  "FheMax",
+];
+
+export const EXECUTOR_EVENTS = new ethers.Interface([
+  ...BINARY_EVENTS.map(
+    (name) => `event ${name}(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)`,
+  ),
+  "event FheNeg(address indexed caller, bytes32 ct, bytes32 result)",
+  "event FheNot(address indexed caller, bytes32 ct, bytes32 result)",
+  "event VerifyCiphertext(address indexed caller, bytes32 inputHandle, address userAddress, bytes inputProof, uint8 inputType, bytes32 result)",
+  "event Cast(address indexed caller, bytes32 ct, uint8 toType, bytes32 result)",
+  "event TrivialEncrypt(address indexed caller, uint256 pt, uint8 toType, bytes32 result)",
+  "event FheIfThenElse(address indexed caller, bytes32 control, bytes32 ifTrue, bytes32 ifFalse, bytes32 result)",
+  "event FheRand(address indexed caller, uint8 randType, bytes16 seed, bytes32 result)",
+  "event FheRandBounded(address indexed caller, uint256 upperBound, uint8 randType, bytes16 seed, bytes32 result)",
+]);
+
+// One `IFHEVMExecutor` call, recovered from the event it emitted.
+export interface ExecutorCall {
+  // Executor function, e.g. `fheAdd`, `cast` or `verifyCiphertext`.
+  operation: ExecutorOperation | "verifyCiphertext";
+  // Type of the (first) encrypted operand; for `trivialEncrypt` and rand, the type produced.
+  type: FheType;
+  // Whether the right-hand operand was a plaintext.
+  scalar: boolean;
+  // Encrypted operand handles.
+  operands: string[];
+  caller: string;
+  result: string;
+  address: string;
+  transactionHash: string;
+}
+
+/** Executor calls found among `logs`, in log order; logs of other contracts are skipped. */
+export function parseExecutorCalls(logs: readonly (ethers.Log | RawLog)[]): ExecutorCall[] {
+  const calls: ExecutorCall[] = [];
+  for (const log of logs) {
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = EXECUTOR_EVENTS.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+    if (parsed === null) {
+      continue;
+    }
+    const { name, args } = parsed;
+    calls.push({
+      ...describe(name, args),
+      caller: args.caller as string,
+      result: args.result as string,
+      address: log.address,
+      transactionHash: log.transactionHash ?? "",
+    });
+  }
+  return calls;
+}
+
+// A log as returned by the JSON-RPC API, before ethers wraps it.
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  transactionHash?: string;
+}
+
+function describe(name: string, args: ethers.Result): Pick<ExecutorCall, "operation" | "type" | "scalar" | "operands"> {
+  const operation = (name.charAt(0).toLowerCase() + name.slice(1)) as ExecutorCall["operation"];
+  if (BINARY_EVENTS.includes(name)) {
+    const scalar = (Number(args.scalarByte) & 1) === 1;
+    return { operation, type: handleType(args.lhs), scalar, operands: scalar ? [args.lhs] : [args.lhs, args.rhs] };
+  }
+  switch (name) {
+    case "FheNeg":
+    case "FheNot":
+    case "Cast":
+      return { operation, type: handleType(args.ct), scalar: false, operands: [args.ct] };
+    case "FheIfThenElse":
+      return {
+        operation,
+        type: handleType(args.ifTrue),
+        scalar: false,
+        operands: [args.control, args.ifTrue, args.ifFalse],
+      };
+    case "VerifyCiphertext":
+      return { operation, type: Number(args.inputType) as FheType, scalar: false, operands: [] };
+    case "TrivialEncrypt":
+      return { operation, type: Number(args.toType) as FheType, scalar: true, operands: [] };
+    default:
+      return { operation, type: Number(args.randType) as FheType, scalar: false, operands: [] };
+  }
+}
@@ -0,0 +1,143 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { FHEAssert__factory } from "../types/factories/contracts/FHEAssert__factory";
+import { decryptHandle } from "./handles";
+import type { LocalDecryptionOracle } from "./oracle";
+
+// Events of the FHEAssert library, emitted from the contracts that use it.
+const FHE_ASSERT_EVENTS = FHEAssert__factory.createInterface();
+
+// Mirrors `FHEAssert.Kind`.
+export enum AssertionKind {
+  Eq = 0,
+  Neq,
+  Between,
+  BitmaskSet,
+  Monotonic,
+}
+
+export const ASSERTION_KIND_NAMES: Record<AssertionKind, string> = {
+  [AssertionKind.Eq]: "eq",
+  [AssertionKind.Neq]: "neq",
+  [AssertionKind.Between]: "between",
+  [AssertionKind.BitmaskSet]: "bitmaskSet",
+  [AssertionKind.Monotonic]: "monotonic",
+};
+
+// An `AssertionRecorded` event: assertion `id` of the registry of `contract`.
+export interface RecordedAssertion {
+  contract: string;
+  id: bigint;
+  kind: AssertionKind;
+  label: string;
+  result: string;
+  blockNumber: number;
+}
+
+export interface AssertionResult extends RecordedAssertion {
+  passed: boolean;
+}
+
+export interface ReadAssertionsOptions {
+  // `mock` decrypts the results directly, `oracle` waits for the contract to have them revealed.
+  // Defaults to `mock` on the hardhat network unless `oracle` is given.
+  mode?: "mock" | "oracle";
+  // Local oracle to drive on every poll when running against the hardhat mock.
+  oracle?: LocalDecryptionOracle;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+/** Every assertion recorded by a transaction, in emission order. */
+export async function collectAssertions(
+  provider: ethers.Provider,
+  tx: string | { hash: string },
+): Promise<RecordedAssertion[]> {
+  const hash = typeof tx === "string" ? tx : tx.hash;
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (receipt === null) {
+    throw new Error(`Transaction ${hash} is not mined`);
+  }
+  const assertions: RecordedAssertion[] = [];
+  for (const log of receipt.logs) {
+    const parsed = FHE_ASSERT_EVENTS.parseLog(log);
+    if (parsed?.name === "AssertionRecorded") {
+      assertions.push({
+        contract: log.address,
+        id: parsed.args.id,
+        kind: Number(parsed.args.kind) as AssertionKind,
+        label: parsed.args.label,
+        result: parsed.args.result,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+  }
+  return assertions;
+}
+
+/** Collect the assertions of a transaction and find out which passed. */
+export async function readAssertionResults(
+  hre: HardhatRuntimeEnvironment,
+  tx: string | { hash: string },
+  options: ReadAssertionsOptions = {},
+): Promise<AssertionResult[]> {
+  const assertions = await collectAssertions(hre.ethers.provider, tx);
+  const mode = options.mode ?? (hre.fhevm.isMock && options.oracle === undefined ? "mock" : "oracle");
+  if (mode === "oracle") {
+    return awaitAssertionReveals(hre.ethers.provider, assertions, options);
+  }
+  const results: AssertionResult[] = [];
+  // One after the other: the mock coprocessor does not support concurrent queries.
+  for (const assertion of assertions) {
+    results.push({ ...assertion, passed: (await decryptHandle(hre, assertion.result)) as boolean });
+  }
+  return results;
+}
+
+/** Wait for the `FHEAssertRevealed` event of each assertion; the contract must have requested the reveals. */
+export async function awaitAssertionReveals(
+  provider: ethers.Provider,
+  assertions: RecordedAssertion[],
+  options: ReadAssertionsOptions = {},
+): Promise<AssertionResult[]> {
+  const local = (await provider.getNetwork()).chainId === 31337n;
+  const timeoutMs = options.timeoutMs ?? (local ? 30_000 : 300_000);
+  const pollIntervalMs = options.pollIntervalMs ?? (local ? 50 : 4_000);
+  const deadline = Date.now() + timeoutMs;
+  const revealed = FHE_ASSERT_EVENTS.getEvent("FHEAssertRevealed");
+  const passed = new Map<RecordedAssertion, boolean>();
+
+  for (;;) {
+    await options.oracle?.fulfill();
+    for (const assertion of assertions.filter((a) => !passed.has(a))) {
+      const [log] = await provider.getLogs({
+        address: assertion.contract,
+        topics: [revealed.topicHash, ethers.toBeHex(assertion.id, 32)],
+        fromBlock: assertion.blockNumber,
+      });
+      if (log !== undefined) {
+        passed.set(assertion, FHE_ASSERT_EVENTS.parseLog(log)!.args.passed);
+      }
+    }
+    if (passed.size === assertions.length) {
+      return assertions.map((assertion) => ({ ...assertion, passed: passed.get(assertion)! }));
+    }
+    if (Date.now() > deadline) {
+      const missing = assertions.filter((a) => !passed.has(a)).map(describeAssertion);
+      throw new Error(`Assertions not revealed within ${timeoutMs}ms: ${missing.join("; ")}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+export function describeAssertion(assertion: RecordedAssertion): string {
+  return `#${assertion.id} ${ASSERTION_KIND_NAMES[assertion.kind]} "${assertion.label}"`;
+}
+
+/** Pass/fail list of a test's assertions, with a summary line. */
+export function formatAssertionResults(results: AssertionResult[]): string {
+  const lines = results.map((result) => `  ${result.passed ? "✓" : "✗"} ${describeAssertion(result)}`);
+  const failed = results.filter((result) => !result.passed).length;
+  lines.push(`${results.length - failed} passed, ${failed} failed`);
+  return lines.join("\n");
+}
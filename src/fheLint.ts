@@ -0,0 +1,580 @@
+// FHE-specific lint rules over the solc AST, reported in solhint's result format so its formatters apply.
+
+export type LintRuleId =
+  | "fhe-store-without-allow-this"
+  | "fhe-return-without-allow"
+  | "fhe-callback-missing-check-signatures"
+  | "fhe-callback-access";
+
+export type LintSeverity = "error" | "warn" | "off";
+
+export const LINT_RULES: Record<LintRuleId, { severity: Exclude<LintSeverity, "off">; description: string }> = {
+  "fhe-store-without-allow-this": {
+    severity: "error",
+    description: "Encrypted handles written to storage must be granted to the contract with FHE.allowThis",
+  },
+  "fhe-return-without-allow": {
+    severity: "error",
+    description: "Handles computed and returned by external functions must be granted to someone with FHE.allow",
+  },
+  "fhe-callback-missing-check-signatures": {
+    severity: "error",
+    description: "Decryption callbacks must verify the KMS signatures with FHE.checkSignatures",
+  },
+  "fhe-callback-access": {
+    severity: "warn",
+    description: "Decryption callbacks should restrict who may call them",
+  },
+};
+
+// Solhint's numeric severities.
+const SEVERITY = { error: 2, warn: 3 } as const;
+
+export interface LintMessage {
+  line: number;
+  column: number;
+  severity: 2 | 3;
+  message: string;
+  ruleId: LintRuleId;
+}
+
+// One file of results, as solhint's formatters expect them.
+export interface LintResult {
+  filePath: string;
+  messages: LintMessage[];
+  errorCount: number;
+  warningCount: number;
+  fixableErrorCount: number;
+  fixableWarningCount: number;
+}
+
+export interface LintSource {
+  // Path reported to the formatters.
+  filePath: string;
+  content: string;
+  ast: AstNode;
+}
+
+// The parts of solc's compact JSON AST the rules read.
+export interface AstNode {
+  nodeType: string;
+  id: number;
+  src: string;
+  name?: string;
+  memberName?: string;
+  operator?: string;
+  kind?: string;
+  visibility?: string;
+  stateMutability?: string;
+  stateVariable?: boolean;
+  storageLocation?: string;
+  referencedDeclaration?: number | null;
+  typeDescriptions?: { typeString?: string | null };
+  nodes?: AstNode[];
+  body?: AstNode | null;
+  parameters?: AstNode & { parameters: AstNode[] };
+  returnParameters?: AstNode & { parameters: AstNode[] };
+  modifiers?: AstNode[];
+  expression?: AstNode | null;
+  arguments?: AstNode[];
+  components?: (AstNode | null)[];
+  leftHandSide?: AstNode;
+  rightHandSide?: AstNode;
+  leftExpression?: AstNode;
+  rightExpression?: AstNode;
+  baseExpression?: AstNode;
+  declarations?: (AstNode | null)[];
+  initialValue?: AstNode | null;
+}
+
+const ENCRYPTED_TYPE = /^(ebool|euint\d+|eint\d+|eaddress|ebytes\d+)$/;
+const FHE_LIBRARIES = ["FHE", "Impl"];
+// Calls that only change how a handle is typed.
+const HANDLE_CONVERSIONS = ["wrap", "unwrap", "toBytes32"];
+
+// What a function does with its parameters and return value, so callers get credit for the helpers they use.
+interface FunctionSummary {
+  grantsThis: Set<number>;
+  grantsOthers: Set<number>;
+  returnsHandle: boolean;
+  returnsAllowed: boolean;
+  checksSignatures: boolean;
+}
+
+// Grants and signature checks seen in one function body, by handle key.
+interface FunctionFacts {
+  grantedThis: Set<string>;
+  grantedOthers: Set<string>;
+  checksSignatures: boolean;
+}
+
+/** Lint the sources of one compilation; rules set to "off" are skipped and the others use the given severity. */
+export function lintSources(
+  sources: LintSource[],
+  severities: Partial<Record<LintRuleId, LintSeverity>> = {},
+): LintResult[] {
+  const linter = new FheLinter(sources);
+  return sources.map((source) => {
+    const disabled = disabledRules(source.content);
+    const messages = linter
+      .lint(source)
+      .filter(({ ruleId }) => (severities[ruleId] ?? LINT_RULES[ruleId].severity) !== "off")
+      .filter(({ ruleId, line }) => !disabled(line, ruleId))
+      .map((message) => {
+        const severity = severities[message.ruleId] ?? LINT_RULES[message.ruleId].severity;
+        return { ...message, severity: SEVERITY[severity as keyof typeof SEVERITY] };
+      })
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+    return {
+      filePath: source.filePath,
+      messages,
+      errorCount: messages.filter((m) => m.severity === SEVERITY.error).length,
+      warningCount: messages.filter((m) => m.severity === SEVERITY.warn).length,
+      fixableErrorCount: 0,
+      fixableWarningCount: 0,
+    };
+  });
+}
+
+class FheLinter {
+  private readonly declarations = new Map<number, AstNode>();
+  private readonly functions: AstNode[] = [];
+  private readonly summaries = new Map<number, FunctionSummary>();
+  // bytes32 variables and parameters that hold handles.
+  private readonly handleVariables = new Set<number>();
+  private readonly contents = new Map<AstNode, Buffer>();
+
+  constructor(sources: LintSource[]) {
+    for (const source of sources) {
+      const content = Buffer.from(source.content);
+      walk(source.ast, (node) => {
+        this.contents.set(node, content);
+        if (node.nodeType === "VariableDeclaration" || node.nodeType === "FunctionDefinition") {
+          this.declarations.set(node.id, node);
+        }
+        if (node.nodeType === "FunctionDefinition" && node.body) {
+          this.functions.push(node);
+        }
+      });
+    }
+    this.summarize();
+  }
+
+  lint(source: LintSource): Omit<LintMessage, "severity">[] {
+    const messages: Omit<LintMessage, "severity">[] = [];
+    const report = (node: AstNode, ruleId: LintRuleId, message: string) =>
+      messages.push({ ...position(source.content, node.src), message, ruleId });
+
+    const callbacks = new Set<number>();
+    walk(source.ast, (node) => {
+      if (node.nodeType !== "FunctionDefinition" || !node.body) {
+        return;
+      }
+      const facts = this.facts(node);
+      this.checkStores(node, facts, report);
+      this.checkReturns(node, facts, report);
+      for (const callback of this.decryptionCallbacks(node)) {
+        callbacks.add(callback);
+      }
+    });
+
+    for (const id of callbacks) {
+      const callback = this.declarations.get(id);
+      if (callback === undefined || !this.contains(source, callback)) {
+        continue;
+      }
+      if (!this.summaries.get(id)?.checksSignatures) {
+        report(
+          callback,
+          "fhe-callback-missing-check-signatures",
+          `Decryption callback ${callback.name} does not call FHE.checkSignatures: anyone can call it with forged cleartexts`,
+        );
+      }
+      if (!restrictsSender(callback)) {
+        report(
+          callback,
+          "fhe-callback-access",
+          `Decryption callback ${callback.name} can be called by anyone: add an access modifier or check msg.sender`,
+        );
+      }
+    }
+    return messages;
+  }
+
+  // Writes of handles to storage, including `push`, with no allowThis on either side of the assignment.
+  private checkStores(fn: AstNode, facts: FunctionFacts, report: Reporter) {
+    const check = (node: AstNode, target: AstNode, value: AstNode) => {
+      if (!this.isStorage(target)) {
+        return;
+      }
+      for (const handle of this.storedHandles(value)) {
+        if (!facts.grantedThis.has(this.key(handle)) && !facts.grantedThis.has(this.key(target))) {
+          report(
+            node,
+            "fhe-store-without-allow-this",
+            `Encrypted handle ${this.text(handle)} is stored in ${this.text(target)} without FHE.allowThis: ` +
+              `the contract cannot use it in later transactions`,
+          );
+        }
+      }
+    };
+    walk(fn.body!, (node) => {
+      if (node.nodeType === "Assignment" && node.operator === "=") {
+        check(node, node.leftHandSide!, node.rightHandSide!);
+      }
+      const callee = node.nodeType === "FunctionCall" ? node.expression : undefined;
+      if (callee?.nodeType === "MemberAccess" && callee.memberName === "push" && node.arguments!.length === 1) {
+        check(node, callee.expression!, node.arguments![0]);
+      }
+    });
+  }
+
+  // Handles a state-changing external function computes and hands back without granting them to anyone.
+  private checkReturns(fn: AstNode, facts: FunctionFacts, report: Reporter) {
+    if (!isEntryPoint(fn)) {
+      return;
+    }
+    walk(fn.body!, (node) => {
+      if (node.nodeType !== "Return" || !node.expression) {
+        return;
+      }
+      const values = node.expression.nodeType === "TupleExpression" ? node.expression.components! : [node.expression];
+      for (const value of values) {
+        if (value && this.isHandle(value) && !this.isStorage(value) && !this.isAllowed(value, facts)) {
+          report(
+            node,
+            "fhe-return-without-allow",
+            `Encrypted handle ${this.text(value)} is returned by ${fn.name} without FHE.allow: the caller cannot use it`,
+          );
+        }
+      }
+    });
+    for (const output of fn.returnParameters!.parameters) {
+      if (output.name && this.isHandleDeclaration(output) && !facts.grantedOthers.has(`#${output.id}`)) {
+        report(
+          output,
+          "fhe-return-without-allow",
+          `Encrypted handle ${output.name} is returned by ${fn.name} without FHE.allow: the caller cannot use it`,
+        );
+      }
+    }
+  }
+
+  // Functions passed as `this.<callback>.selector` to requestDecryption.
+  private decryptionCallbacks(fn: AstNode): number[] {
+    const callbacks: number[] = [];
+    walk(fn.body!, (node) => {
+      if (node.nodeType !== "FunctionCall" || fheFunction(node.expression) !== "requestDecryption") {
+        return;
+      }
+      for (const argument of node.arguments!) {
+        const target =
+          argument.nodeType === "MemberAccess" && argument.memberName === "selector" && argument.expression;
+        if (target && typeof target.referencedDeclaration === "number") {
+          callbacks.push(target.referencedDeclaration);
+        }
+      }
+    });
+    return callbacks;
+  }
+
+  // Iterate to a fixed point: a helper may grant through another helper, and a handle may pass through several.
+  private summarize() {
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const fn of this.functions) {
+        const before = this.handleVariables.size;
+        this.trackHandles(fn);
+        const summary = this.summarizeFunction(fn);
+        const previous = this.summaries.get(fn.id);
+        if (this.handleVariables.size !== before || previous === undefined || !sameSummary(previous, summary)) {
+          this.summaries.set(fn.id, summary);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  private summarizeFunction(fn: AstNode): FunctionSummary {
+    const facts = this.facts(fn);
+    const indices = (granted: Set<string>) =>
+      new Set(fn.parameters!.parameters.flatMap((p, i) => (granted.has(`#${p.id}`) ? [i] : [])));
+    const returned: AstNode[] = [];
+    walk(fn.body!, (node) => {
+      if (node.nodeType === "Return" && node.expression) {
+        returned.push(node.expression);
+      }
+    });
+    const outputs = fn.returnParameters!.parameters.filter((o) => this.isHandleDeclaration(o));
+    const handles = [...returned.filter((r) => this.isHandle(r)), ...outputs.filter((o) => o.name)];
+    return {
+      grantsThis: indices(facts.grantedThis),
+      grantsOthers: indices(facts.grantedOthers),
+      returnsHandle: outputs.length > 0 || handles.length > 0,
+      returnsAllowed:
+        handles.length > 0 &&
+        handles.every((h) =>
+          h.nodeType === "VariableDeclaration" ? facts.grantedOthers.has(`#${h.id}`) : this.isAllowed(h, facts),
+        ),
+      checksSignatures: facts.checksSignatures,
+    };
+  }
+
+  private facts(fn: AstNode): FunctionFacts {
+    const facts: FunctionFacts = { grantedThis: new Set(), grantedOthers: new Set(), checksSignatures: false };
+    walk(fn.body!, (node) => {
+      if (node.nodeType !== "FunctionCall") {
+        return;
+      }
+      const args = callArguments(node);
+      const name = fheFunction(node.expression);
+      if (name === "allowThis") {
+        facts.grantedThis.add(this.key(args[0]));
+      } else if ((name === "allow" || name === "allowTransient") && args.length === 2) {
+        (isThis(args[1]) ? facts.grantedThis : facts.grantedOthers).add(this.key(args[0]));
+      } else if (name === "checkSignatures") {
+        facts.checksSignatures = true;
+      }
+      const summary = this.summaryOf(node);
+      if (summary !== undefined) {
+        summary.grantsThis.forEach((i) => args[i] && facts.grantedThis.add(this.key(args[i])));
+        summary.grantsOthers.forEach((i) => args[i] && facts.grantedOthers.add(this.key(args[i])));
+        facts.checksSignatures ||= summary.checksSignatures;
+      }
+    });
+    return facts;
+  }
+
+  // Marks bytes32 locals assigned from handles, and helper parameters some call passes a handle to.
+  private trackHandles(fn: AstNode) {
+    walk(fn.body!, (node) => {
+      if (node.nodeType === "VariableDeclarationStatement" && node.initialValue && this.isHandle(node.initialValue)) {
+        node.declarations!.forEach((d) => d && this.handleVariables.add(d.id));
+      }
+      if (node.nodeType === "Assignment" && node.leftHandSide!.nodeType === "Identifier") {
+        const target = node.leftHandSide!.referencedDeclaration;
+        if (typeof target === "number" && this.isHandle(node.rightHandSide!)) {
+          this.handleVariables.add(target);
+        }
+      }
+      if (node.nodeType === "FunctionCall") {
+        const callee = this.declarations.get(node.expression?.referencedDeclaration ?? -1);
+        if (callee?.nodeType === "FunctionDefinition") {
+          node.arguments!.forEach(
+            (arg, i) =>
+              this.isHandle(arg) &&
+              callee.parameters!.parameters[i] &&
+              this.handleVariables.add(callee.parameters!.parameters[i].id),
+          );
+        }
+      }
+    });
+  }
+
+  private isHandle(node: AstNode): boolean {
+    if (isEncrypted(node)) {
+      return true;
+    }
+    if (node.nodeType === "Identifier") {
+      return this.handleVariables.has(node.referencedDeclaration ?? -1);
+    }
+    if (node.nodeType === "FunctionCall") {
+      const name = fheFunction(node.expression);
+      if (name !== undefined) {
+        return HANDLE_CONVERSIONS.includes(name) || node.typeDescriptions?.typeString === "bytes32";
+      }
+      if (node.expression?.nodeType === "MemberAccess" && HANDLE_CONVERSIONS.includes(node.expression.memberName!)) {
+        return true;
+      }
+      return !!this.summaryOf(node)?.returnsHandle;
+    }
+    return false;
+  }
+
+  private isHandleDeclaration(declaration: AstNode): boolean {
+    return isEncrypted(declaration) || this.handleVariables.has(declaration.id);
+  }
+
+  // Handles written by a value: itself, or the fields of a struct literal or tuple. Copies from storage are already granted.
+  private storedHandles(value: AstNode): AstNode[] {
+    if (value.nodeType === "FunctionCall" && value.kind === "structConstructorCall") {
+      return value.arguments!.flatMap((arg) => this.storedHandles(arg));
+    }
+    if (value.nodeType === "TupleExpression") {
+      return value.components!.flatMap((c) => (c ? this.storedHandles(c) : []));
+    }
+    return this.isHandle(value) && !this.isStorage(value) ? [value] : [];
+  }
+
+  // A state variable, a storage pointer, or an element or member of one.
+  private isStorage(node: AstNode): boolean {
+    let root = node;
+    while (root.nodeType === "IndexAccess" || root.nodeType === "MemberAccess") {
+      root = root.nodeType === "IndexAccess" ? root.baseExpression! : root.expression!;
+    }
+    const declaration = this.declarations.get(root.nodeType === "Identifier" ? (root.referencedDeclaration ?? -1) : -1);
+    return !!declaration && (!!declaration.stateVariable || declaration.storageLocation === "storage");
+  }
+
+  // Granted to someone other than the contract here, or by the helper that produced it.
+  private isAllowed(handle: AstNode, facts: FunctionFacts): boolean {
+    return facts.grantedOthers.has(this.key(handle)) || !!this.summaryOf(unwrapHandle(handle))?.returnsAllowed;
+  }
+
+  // Library calls are judged by name instead: their bodies grant whatever account they are given.
+  private summaryOf(call: AstNode): FunctionSummary | undefined {
+    if (call.nodeType !== "FunctionCall" || fheFunction(call.expression) !== undefined) {
+      return undefined;
+    }
+    return this.summaries.get(call.expression?.referencedDeclaration ?? -1);
+  }
+
+  // Grants are matched by variable, or by source text for other expressions such as `balances[msg.sender]`.
+  private key(node: AstNode): string {
+    const handle = unwrapHandle(node);
+    if (handle.nodeType === "Identifier" && typeof handle.referencedDeclaration === "number") {
+      return `#${handle.referencedDeclaration}`;
+    }
+    return this.text(handle).replace(/\s+/g, "");
+  }
+
+  private text(node: AstNode): string {
+    const [start, length] = node.src.split(":").map(Number);
+    return (
+      this.contents
+        .get(node)
+        ?.subarray(start, start + length)
+        .toString() ?? ""
+    );
+  }
+
+  private contains(source: LintSource, node: AstNode): boolean {
+    return this.contents.get(node) !== undefined && this.contents.get(node) === this.contents.get(source.ast);
+  }
+}
+
+type Reporter = (node: AstNode, ruleId: LintRuleId, message: string) => void;
+
+function walk(node: unknown, visit: (node: AstNode) => void) {
+  if (Array.isArray(node)) {
+    node.forEach((child) => walk(child, visit));
+  } else if (node !== null && typeof node === "object") {
+    if (typeof (node as AstNode).nodeType === "string") {
+      visit(node as AstNode);
+    }
+    Object.values(node).forEach((child) => walk(child, visit));
+  }
+}
+
+function isEncrypted(node: AstNode): boolean {
+  return ENCRYPTED_TYPE.test(node.typeDescriptions?.typeString ?? "");
+}
+
+// `FHE.<name>` or `Impl.<name>`, or `<handle>.<name>` through `using FHE for ...`.
+function fheFunction(callee: AstNode | null | undefined): string | undefined {
+  if (callee?.nodeType !== "MemberAccess") {
+    return undefined;
+  }
+  const receiver = callee.expression!;
+  if (receiver.nodeType === "Identifier" && FHE_LIBRARIES.includes(receiver.name!)) {
+    return callee.memberName;
+  }
+  return isEncrypted(receiver) && callee.memberName !== "unwrap" ? callee.memberName : undefined;
+}
+
+// Arguments with the receiver of a `using for` call first.
+function callArguments(call: AstNode): AstNode[] {
+  const callee = call.expression!;
+  const bound =
+    callee.nodeType === "MemberAccess" &&
+    fheFunction(callee) !== undefined &&
+    !(callee.expression!.nodeType === "Identifier" && FHE_LIBRARIES.includes(callee.expression!.name!));
+  return bound ? [callee.expression!, ...call.arguments!] : call.arguments!;
+}
+
+function unwrapHandle(node: AstNode): AstNode {
+  if (node.nodeType === "FunctionCall" && node.arguments!.length === 1) {
+    const callee = node.expression!;
+    const conversion =
+      (callee.nodeType === "MemberAccess" && HANDLE_CONVERSIONS.includes(callee.memberName!)) ||
+      (node.kind === "typeConversion" && node.typeDescriptions?.typeString === "bytes32");
+    if (conversion) {
+      return unwrapHandle(node.arguments![0]);
+    }
+  }
+  if (node.nodeType === "TupleExpression" && node.components!.length === 1 && node.components![0]) {
+    return unwrapHandle(node.components![0]);
+  }
+  return node;
+}
+
+function isThis(node: AstNode): boolean {
+  const inner = node.nodeType === "FunctionCall" && node.kind === "typeConversion" ? node.arguments![0] : node;
+  return inner.nodeType === "Identifier" && inner.name === "this";
+}
+
+function isEntryPoint(fn: AstNode): boolean {
+  return (
+    fn.kind === "function" &&
+    (fn.visibility === "external" || fn.visibility === "public") &&
+    fn.stateMutability !== "view" &&
+    fn.stateMutability !== "pure"
+  );
+}
+
+// An applied modifier, or a comparison involving msg.sender anywhere in the body.
+function restrictsSender(fn: AstNode): boolean {
+  if (fn.modifiers!.some((m) => m.kind !== "baseConstructorSpecifier")) {
+    return true;
+  }
+  let checked = false;
+  walk(fn.body!, (node) => {
+    if (node.nodeType === "BinaryOperation" && (node.operator === "==" || node.operator === "!=")) {
+      checked ||= [node.leftExpression!, node.rightExpression!].some(isMsgSender);
+    }
+  });
+  return checked;
+}
+
+function isMsgSender(node: AstNode): boolean {
+  return (
+    node.nodeType === "MemberAccess" &&
+    node.memberName === "sender" &&
+    node.expression!.nodeType === "Identifier" &&
+    node.expression!.name === "msg"
+  );
+}
+
+function sameSummary(a: FunctionSummary, b: FunctionSummary): boolean {
+  const sameSet = (x: Set<number>, y: Set<number>) => x.size === y.size && [...x].every((v) => y.has(v));
+  return (
+    sameSet(a.grantsThis, b.grantsThis) &&
+    sameSet(a.grantsOthers, b.grantsOthers) &&
+    a.returnsHandle === b.returnsHandle &&
+    a.returnsAllowed === b.returnsAllowed &&
+    a.checksSignatures === b.checksSignatures
+  );
+}
+
+// 1-based line and column of a solc `start:length:file` location; solc offsets count bytes.
+function position(content: string, src: string): { line: number; column: number } {
+  const start = Number(src.split(":")[0]);
+  const lines = Buffer.from(content).subarray(0, start).toString().split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+// solhint-disable-line and solhint-disable-next-line comments, with or without a list of rules.
+function disabledRules(content: string): (line: number, ruleId: LintRuleId) => boolean {
+  const disabled = new Map<number, string[] | "all">();
+  content.split("\n").forEach((text, i) => {
+    const match = /\/[/*]\s*solhint-disable-(next-line|line)\b([^*\n]*)/.exec(text);
+    if (match) {
+      const rules = match[2].split(/[\s,]+/).filter(Boolean);
+      disabled.set(match[1] === "line" ? i + 1 : i + 2, rules.length === 0 ? "all" : rules);
+    }
+  });
+  return (line, ruleId) => {
+    const rules = disabled.get(line);
+    return rules === "all" || (rules !== undefined && rules.includes(ruleId));
+  };
+}
@@ -0,0 +1,55 @@
+// Encrypted value types, numbered like `FheType` in @fhevm/solidity/lib/FheType.sol.
+// The same number is stored in byte 30 of every ciphertext handle.
+export enum FheType {
+  Bool = 0,
+  Uint4 = 1,
+  Uint8 = 2,
+  Uint16 = 3,
+  Uint32 = 4,
+  Uint64 = 5,
+  Uint128 = 6,
+  Uint160 = 7,
+  Uint256 = 8,
+}
+
+// Plaintext of a handle: bigint for euintX, boolean for ebool, checksummed string for eaddress.
+export type ClearValue = bigint | boolean | string;
+
+// Solidity name, cleartext ABI type (as passed to decryption callbacks) and plaintext width of each type.
+const TYPE_INFO: Record<FheType, { name: string; abiType?: string; bits: number }> = {
+  [FheType.Bool]: { name: "ebool", abiType: "bool", bits: 1 },
+  [FheType.Uint4]: { name: "euint4", bits: 4 },
+  [FheType.Uint8]: { name: "euint8", abiType: "uint8", bits: 8 },
+  [FheType.Uint16]: { name: "euint16", abiType: "uint16", bits: 16 },
+  [FheType.Uint32]: { name: "euint32", abiType: "uint32", bits: 32 },
+  [FheType.Uint64]: { name: "euint64", abiType: "uint64", bits: 64 },
+  [FheType.Uint128]: { name: "euint128", abiType: "uint128", bits: 128 },
+  [FheType.Uint160]: { name: "eaddress", abiType: "address", bits: 160 },
+  [FheType.Uint256]: { name: "euint256", abiType: "uint256", bits: 256 },
+};
+
+/** Solidity name of the encrypted type, e.g. `euint32` or `eaddress`. */
+export function typeName(type: FheType): string {
+  return TYPE_INFO[type]?.name ?? `unknown(${type})`;
+}
+
+export function solidityType(type: FheType): string {
+  const abiType = TYPE_INFO[type]?.abiType;
+  if (abiType === undefined) {
+    throw new Error(`No cleartext ABI type for ${typeName(type)}`);
+  }
+  return abiType;
+}
+
+/** Number of plaintext bits of the type. */
+export function bitWidth(type: FheType): number {
+  const info = TYPE_INFO[type];
+  if (info === undefined) {
+    throw new Error(`Unknown encrypted type ${type}`);
+  }
+  return info.bits;
+}
+
+export function isUintType(type: FheType): boolean {
+  return type !== FheType.Bool && type !== FheType.Uint160 && type in TYPE_INFO;
+}
@@ -0,0 +1,113 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { FHETestFramework__factory } from "../types/factories/contracts/FHETestFramework__factory";
+import { decodeClearWord, encodeClearWord } from "./cleartexts";
+import { FHETestFramework, FHETestFrameworkClient } from "./client";
+import { ClearValue, FheType } from "./fheTypes";
+import { hardhatInputFactory } from "./inputs";
+import { LocalDecryptionOracle } from "./oracle";
+import { awaitReveal } from "./reveal";
+import { SubmittedValue } from "./values";
+
+// A plaintext to encrypt and store while setting up a fixture.
+export interface Seed {
+  type: FheType;
+  value: ClearValue | number;
+  // Overrides the fixture's `reveal` option for this value.
+  reveal?: boolean;
+}
+
+// Seeds given as a list or by name; the fixture returns its values in the same shape.
+export type Seeds = Seed[] | Record<string, Seed>;
+
+export interface SeededValue extends SubmittedValue {
+  value: ClearValue;
+  revealed: boolean;
+}
+
+export type SeededValues<S extends Seeds> = { [K in keyof S]: SeededValue };
+
+export interface FixtureOptions<S extends Seeds> {
+  values?: S;
+  // Request the decryption of every seeded value and deliver it through a local oracle.
+  reveal?: boolean;
+}
+
+export interface FrameworkFixture<S extends Seeds> {
+  framework: FHETestFramework;
+  client: FHETestFrameworkClient;
+  // Submitter, and so owner, of the seeded values.
+  owner: HardhatEthersSigner;
+  others: HardhatEthersSigner[];
+  values: SeededValues<S>;
+  // Plaintext of each seeded value, by value id.
+  plaintexts: Map<bigint, ClearValue>;
+  // Set when anything was revealed; it keeps serving the requests the test makes.
+  oracle?: LocalDecryptionOracle;
+}
+
+/**
+ * A fixture for `loadFrameworkFixture` that deploys FHETestFramework and submits `options.values` from the first signer.
+ * Create it once at module scope: `loadFixture` only reuses its snapshot for the same function.
+ */
+export function frameworkFixture<S extends Seeds = []>(
+  hre: HardhatRuntimeEnvironment,
+  options: FixtureOptions<S> = {},
+): () => Promise<FrameworkFixture<S>> {
+  const seeds = (options.values ?? []) as S;
+
+  return async function deployFrameworkFixture(): Promise<FrameworkFixture<S>> {
+    const [owner, ...others] = await hre.ethers.getSigners();
+    // The hardhat factory links against the fhevm addresses of the running network.
+    const deployed = await (await hre.ethers.getContractFactory("FHETestFramework", owner)).deploy();
+    await deployed.waitForDeployment();
+    const framework = FHETestFramework__factory.connect(await deployed.getAddress(), owner);
+    const client = new FHETestFrameworkClient(framework, hardhatInputFactory(hre));
+
+    const revealing = Object.values(seeds).some((seed) => seed.reveal ?? options.reveal);
+    const oracle = revealing ? await new LocalDecryptionOracle(hre).init() : undefined;
+
+    const plaintexts = new Map<bigint, ClearValue>();
+    const entries: [string, SeededValue][] = [];
+    for (const [key, seed] of Object.entries(seeds)) {
+      const value = decodeClearWord(seed.type, encodeClearWord(seed.type, seed.value));
+      const submitted = await client.submit(value, seed.type);
+      const revealed = seed.reveal ?? options.reveal ?? false;
+      if (revealed) {
+        await client.requestReveal(submitted.id);
+      }
+      plaintexts.set(submitted.id, value);
+      entries.push([key, { ...submitted, value, revealed }]);
+    }
+    for (const [, seeded] of entries) {
+      if (seeded.revealed) {
+        await awaitReveal(framework, seeded.id, { oracle });
+      }
+    }
+
+    const values = (
+      Array.isArray(seeds) ? entries.map(([, seeded]) => seeded) : Object.fromEntries(entries)
+    ) as SeededValues<S>;
+    return { framework, client, owner, others, values, plaintexts, oracle };
+  };
+}
+
+/**
+ * `loadFixture` for a `frameworkFixture`. The mock coprocessor does not rewind its log cursor on `evm_revert`, so after
+ * restoring the snapshot this mines past the blocks the previous test used, and hands out a new oracle if the fixture
+ * had one: handles and decryption requests made from then on are picked up again.
+ */
+export async function loadFrameworkFixture<S extends Seeds>(
+  hre: HardhatRuntimeEnvironment,
+  fixture: () => Promise<FrameworkFixture<S>>,
+): Promise<FrameworkFixture<S>> {
+  const head = await hre.ethers.provider.getBlockNumber();
+  const loaded = await loadFixture(fixture);
+  const restored = await hre.ethers.provider.getBlockNumber();
+  if (restored >= head) {
+    return loaded;
+  }
+  await mine(head + 1 - restored);
+  return { ...loaded, oracle: loaded.oracle && (await new LocalDecryptionOracle(hre).init()) };
+}
@@ -0,0 +1,239 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ClearValue, FheType, bitWidth, typeName } from "./fheTypes";
+import { clearValuesEqual, decryptHandle, formatClearValue } from "./handles";
+import { binaryOperation } from "./model";
+import { mockEncrypt, sendAndReturn } from "./values";
+
+/** Seeded PRNG (mulberry32); the same seed always yields the same sequence. */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  nextUint32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /** Integer in [0, max). */
+  int(max: number): number {
+    return this.nextUint32() % max;
+  }
+
+  /** Uniform `bits`-wide unsigned integer. */
+  bits(bits: number): bigint {
+    let value = 0n;
+    for (let filled = 0; filled < bits; filled += 32) {
+      value = (value << 32n) | BigInt(this.nextUint32());
+    }
+    return value & ((1n << BigInt(bits)) - 1n);
+  }
+}
+
+// Generator of random inputs together with the simpler inputs a failing one can shrink to.
+export interface Arbitrary<T> {
+  generate(random: Random): T;
+  shrink(value: T): Iterable<T>;
+}
+
+/** Unsigned integers that fit in `type`, biased towards the edges where wraparound bugs live. */
+export function uintArbitrary(type: FheType): Arbitrary<bigint> {
+  const bits = bitWidth(type);
+  const max = (1n << BigInt(bits)) - 1n;
+  const edges = [0n, 1n, 2n, max, max - 1n, max >> 1n, (max >> 1n) + 1n];
+  return {
+    generate: (random) => (random.int(4) === 0 ? edges[random.int(edges.length)] : random.bits(bits)),
+    shrink: shrinkTowardsZero,
+  };
+}
+
+export function boolArbitrary(): Arbitrary<boolean> {
+  return {
+    generate: (random) => random.int(2) === 1,
+    shrink: (value) => (value ? [false] : []),
+  };
+}
+
+export interface PropertyOptions {
+  runs?: number;
+  // Defaults to FUZZ_SEED from the environment, then to a fresh random seed.
+  seed?: number;
+  maxShrinks?: number;
+}
+
+/** Thrown when a property fails; the message carries the seed to replay the run and the shrunk counterexample. */
+export class PropertyFailedError<T extends unknown[]> extends Error {
+  constructor(
+    readonly seed: number,
+    readonly run: number,
+    readonly original: T,
+    readonly counterexample: T,
+    readonly shrinks: number,
+    readonly failure: string,
+  ) {
+    super(
+      `Property failed on run ${run} (seed ${seed}, replay with FUZZ_SEED=${seed})\n` +
+        `  counterexample: ${formatArgs(counterexample)} (shrunk ${shrinks} times from ${formatArgs(original)})\n` +
+        `  ${failure}`,
+    );
+    this.name = "PropertyFailedError";
+  }
+}
+
+// Arbitraries for each parameter of a property.
+export type Arbitraries<T extends unknown[]> = { [K in keyof T]: Arbitrary<T[K]> };
+
+// A property holds when it returns anything but `false` without throwing.
+export type Property<T extends unknown[]> = (...args: T) => Promise<boolean | void> | boolean | void;
+
+/** Check `property` on `runs` random inputs; on failure, shrink to a minimal counterexample and throw it. */
+export async function forAll<T extends unknown[]>(
+  arbitraries: Arbitraries<T>,
+  property: Property<T>,
+  options: PropertyOptions = {},
+): Promise<void> {
+  const seed = options.seed ?? defaultSeed();
+  const random = new Random(seed);
+  const runs = options.runs ?? 50;
+
+  for (let run = 1; run <= runs; run++) {
+    const args = arbitraries.map((a) => a.generate(random)) as T;
+    const failure = await check(property, args);
+    if (failure === undefined) {
+      continue;
+    }
+    const [counterexample, lastFailure, shrinks] = await shrink(arbitraries, property, args, failure, options);
+    throw new PropertyFailedError(seed, run, args, counterexample, shrinks, lastFailure);
+  }
+}
+
+// An encrypted operation exposed by a contract function, with the plaintext result it should produce.
+export interface EncryptedOperation {
+  functionName: string;
+  operandTypes: FheType[];
+  model: (...operands: ClearValue[]) => ClearValue;
+}
+
+/** `addEncryptedCounters` and its variants, for each width they exist in. */
+export function encryptedAdd(type: FheType): EncryptedOperation {
+  const suffix = type === FheType.Uint32 ? "" : typeName(type).replace("euint", "Uint");
+  return {
+    functionName: `addEncryptedCounters${suffix}`,
+    operandTypes: [type, type],
+    model: (a, b) => binaryOperation("fheAdd", type, a, b),
+  };
+}
+
+/**
+ * Fuzz an encrypted operation in mock mode: encrypt random operands, run the operation on-chain,
+ * decrypt the result and compare it to the plaintext model.
+ */
+export async function fuzzEncryptedOperation(
+  hre: HardhatRuntimeEnvironment,
+  contract: ethers.BaseContract,
+  operation: EncryptedOperation,
+  options: PropertyOptions = {},
+): Promise<void> {
+  const arbitraries = operation.operandTypes.map((type) =>
+    type === FheType.Bool ? boolArbitrary() : uintArbitrary(type),
+  ) as Arbitrary<ClearValue>[];
+
+  await forAll(
+    arbitraries,
+    async (...operands: ClearValue[]) => {
+      const handles: string[] = [];
+      for (const [i, operand] of operands.entries()) {
+        handles.push(await mockEncrypt(contract, operation.operandTypes[i], operand));
+      }
+      const result = await sendAndReturn<string>(contract, operation.functionName, handles);
+      const actual = await decryptHandle(hre, result);
+      const expected = operation.model(...operands);
+      if (!clearValuesEqual(actual, expected)) {
+        throw new Error(
+          `${operation.functionName} decrypted to ${formatClearValue(actual)}, model expects ${formatClearValue(expected)}`,
+        );
+      }
+    },
+    options,
+  );
+}
+
+// Undefined when the property holds, otherwise why it failed.
+async function check<T extends unknown[]>(property: Property<T>, args: T): Promise<string | undefined> {
+  try {
+    return (await property(...args)) === false ? "property returned false" : undefined;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Greedily replace one argument at a time by a simpler value that still fails, until none does.
+async function shrink<T extends unknown[]>(
+  arbitraries: Arbitraries<T>,
+  property: Property<T>,
+  args: T,
+  failure: string,
+  options: PropertyOptions,
+): Promise<[T, string, number]> {
+  const maxShrinks = options.maxShrinks ?? 200;
+  let current = args;
+  let lastFailure = failure;
+  let shrinks = 0;
+
+  let improved = true;
+  while (improved && shrinks < maxShrinks) {
+    improved = false;
+    for (let i = 0; i < current.length && !improved; i++) {
+      for (const candidate of arbitraries[i].shrink(current[i])) {
+        const next = [...current] as T;
+        next[i] = candidate;
+        const result = await check(property, next);
+        if (result !== undefined) {
+          current = next;
+          lastFailure = result;
+          shrinks++;
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+  return [current, lastFailure, shrinks];
+}
+
+// 0 first, then values closing in on `value` by halving the distance.
+function* shrinkTowardsZero(value: bigint): Iterable<bigint> {
+  if (value === 0n) {
+    return;
+  }
+  yield 0n;
+  for (let delta = value >> 1n; delta > 0n; delta >>= 1n) {
+    yield value - delta;
+  }
+  if (value > 1n) {
+    yield value - 1n;
+  }
+}
+
+/** FUZZ_SEED from the environment, or a fresh random seed. Throws when FUZZ_SEED is not a 32-bit unsigned integer. */
+export function defaultSeed(): number {
+  const env = process.env.FUZZ_SEED;
+  if (env === undefined || env === "") {
+    return Math.floor(Math.random() * 2 ** 32);
+  }
+  // Number() would take "0x10" or " 7 ", and turn anything else into NaN, which seeds the same run as 0.
+  if (!/^\d+$/.test(env) || Number(env) >= 2 ** 32) {
+    throw new Error(`FUZZ_SEED must be an integer from 0 to ${2 ** 32 - 1}, got "${env}"`);
+  }
+  return Number(env);
+}
+
+function formatArgs(args: unknown[]): string {
+  return `(${args.map((a) => (typeof a === "bigint" ? `${a}n` : String(a))).join(", ")})`;
+}
@@ -0,0 +1,96 @@
+import { ethers } from "ethers";
+import type { FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { timeDecryption } from "./decryptionLog";
+import { ClearValue, FheType, isUintType, typeName } from "./fheTypes";
+
+// A ciphertext handle as returned by contracts, events or typechain bindings.
+export type HandleLike = string | bigint | Uint8Array;
+
+/** Normalize any handle representation to a 0x-prefixed bytes32 hex string. */
+export function toHandleHex(handle: HandleLike): string {
+  if (handle instanceof Uint8Array) {
+    return ethers.zeroPadValue(handle, 32);
+  }
+  return ethers.toBeHex(handle, 32);
+}
+
+/** Encrypted type encoded in byte 30 of the handle. */
+export function handleType(handle: HandleLike): FheType {
+  const bytes = ethers.getBytes(toHandleHex(handle));
+  return bytes[30] as FheType;
+}
+
+// Metadata fhevm packs into the low 11 bytes of every handle (see FHEVMExecutor._appendMetadataToPrehandle).
+export interface HandleMetadata {
+  handle: string;
+  // Bytes 0-20: hash of the operation, or of the input ciphertext, that produced the handle.
+  hash: string;
+  // Byte 21 is 0xff for handles computed by the executor, otherwise the position of the value in its input proof.
+  origin: "input" | "computed";
+  inputIndex?: number;
+  // Bytes 22-29.
+  chainId: bigint;
+  // Byte 30.
+  type: FheType;
+  typeName: string;
+  // Byte 31.
+  version: number;
+}
+
+/** Split a handle into the fields fhevm encodes in it. */
+export function decodeHandle(handle: HandleLike): HandleMetadata {
+  const hex = toHandleHex(handle);
+  const bytes = ethers.getBytes(hex);
+  const computed = bytes[21] === 0xff;
+  return {
+    handle: hex,
+    hash: ethers.hexlify(bytes.slice(0, 21)),
+    origin: computed ? "computed" : "input",
+    inputIndex: computed ? undefined : bytes[21],
+    chainId: ethers.toBigInt(bytes.slice(22, 30)),
+    type: bytes[30] as FheType,
+    typeName: typeName(bytes[30] as FheType),
+    version: bytes[31],
+  };
+}
+
+/** Decrypt a handle in mock mode, picking the decryption routine from the handle's type. */
+export async function decryptHandle(hre: HardhatRuntimeEnvironment, handle: HandleLike): Promise<ClearValue> {
+  if (!hre.fhevm.isMock) {
+    throw new Error(`Cannot decrypt handle ${toHandleHex(handle)}: fhevm is not running in mock mode`);
+  }
+
+  const hex = toHandleHex(handle);
+  return timeDecryption(hex, () => mockDecrypt(hre, hex), formatClearValue);
+}
+
+async function mockDecrypt(hre: HardhatRuntimeEnvironment, hex: string): Promise<ClearValue> {
+  const type = handleType(hex);
+  if (type === FheType.Bool) {
+    return hre.fhevm.debugger.decryptEbool(hex);
+  }
+  if (type === FheType.Uint160) {
+    return hre.fhevm.debugger.decryptEaddress(hex);
+  }
+  if (isUintType(type)) {
+    // FheType and the plugin's FhevmType share their numbering.
+    return hre.fhevm.debugger.decryptEuint(type as number as FhevmTypeEuint, hex);
+  }
+  throw new Error(`Cannot decrypt handle ${hex}: unsupported type ${typeName(type)}`);
+}
+
+/** Compare plaintexts, accepting numbers for euint values and case-insensitive addresses. */
+export function clearValuesEqual(actual: ClearValue, expected: ClearValue | number): boolean {
+  if (typeof actual === "boolean" || typeof expected === "boolean") {
+    return actual === expected;
+  }
+  if (typeof actual === "string" || typeof expected === "string") {
+    return String(actual).toLowerCase() === String(expected).toLowerCase();
+  }
+  return actual === BigInt(expected);
+}
+
+export function formatClearValue(value: ClearValue | number): string {
+  return typeof value === "string" ? value : value.toString();
+}
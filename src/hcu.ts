@@ -0,0 +1,146 @@
+import { ExecutorCall } from "./executor";
+import { FheType, typeName } from "./fheTypes";
+import { handleType } from "./handles";
+import { ExecutorOperation } from "./model";
+
+// Homomorphic complexity units (HCU) charged by the HCULimit contract of @fhevm/core-contracts. The cost of an
+// operation depends on its operand type (the result type for `cast`) and on whether the right operand is a plaintext.
+
+// The coprocessor rejects a transaction once either limit is reached.
+export const MAX_HCU_PER_TX = 20_000_000;
+// Longest chain of dependent operations, summed along the chain.
+export const MAX_HCU_DEPTH_PER_TX = 5_000_000;
+
+type Costs = Partial<Record<FheType, number>>;
+
+const UINTS = [FheType.Uint8, FheType.Uint16, FheType.Uint32, FheType.Uint64, FheType.Uint128];
+const BITS = [FheType.Bool, ...UINTS, FheType.Uint256];
+const SHIFTED = [...UINTS, FheType.Uint256];
+const ALL = [FheType.Bool, ...UINTS, FheType.Uint160, FheType.Uint256];
+
+function costs(types: FheType[], units: number[]): Costs {
+  return Object.fromEntries(types.map((type, i) => [type, units[i]]));
+}
+
+export const HCU_COSTS: Record<ExecutorOperation, { encrypted?: Costs; scalar?: Costs }> = {
+  fheAdd: {
+    encrypted: costs(UINTS, [88_000, 93_000, 125_000, 162_000, 259_000]),
+    scalar: costs(UINTS, [84_000, 93_000, 95_000, 133_000, 172_000]),
+  },
+  fheSub: {
+    encrypted: costs(UINTS, [91_000, 93_000, 125_000, 162_000, 260_000]),
+    scalar: costs(UINTS, [84_000, 93_000, 95_000, 133_000, 172_000]),
+  },
+  fheMul: {
+    encrypted: costs(UINTS, [150_000, 222_000, 328_000, 596_000, 1_686_000]),
+    scalar: costs(UINTS, [122_000, 193_000, 265_000, 365_000, 696_000]),
+  },
+  fheDiv: { scalar: costs(UINTS, [210_000, 302_000, 438_000, 715_000, 1_225_000]) },
+  fheRem: { scalar: costs(UINTS, [440_000, 580_000, 792_000, 1_153_000, 1_943_000]) },
+  fheBitAnd: {
+    encrypted: costs(BITS, [25_000, 31_000, 31_000, 32_000, 34_000, 37_000, 38_000]),
+    scalar: costs(BITS, [22_000, 31_000, 31_000, 32_000, 34_000, 37_000, 38_000]),
+  },
+  fheBitOr: {
+    encrypted: costs(BITS, [24_000, 30_000, 31_000, 32_000, 34_000, 37_000, 38_000]),
+    scalar: costs(BITS, [22_000, 30_000, 30_000, 32_000, 34_000, 37_000, 38_000]),
+  },
+  fheBitXor: {
+    encrypted: costs(BITS, [22_000, 31_000, 31_000, 32_000, 34_000, 37_000, 39_000]),
+    scalar: costs(BITS, [22_000, 31_000, 31_000, 32_000, 34_000, 37_000, 39_000]),
+  },
+  fheShl: {
+    encrypted: costs(SHIFTED, [92_000, 125_000, 162_000, 208_000, 272_000, 378_000]),
+    scalar: costs(SHIFTED, [32_000, 32_000, 32_000, 34_000, 37_000, 39_000]),
+  },
+  fheShr: {
+    encrypted: costs(SHIFTED, [91_000, 123_000, 163_000, 209_000, 272_000, 369_000]),
+    scalar: costs(SHIFTED, [32_000, 32_000, 32_000, 34_000, 37_000, 38_000]),
+  },
+  fheRotl: {
+    encrypted: costs(SHIFTED, [91_000, 125_000, 163_000, 209_000, 278_000, 378_000]),
+    scalar: costs(SHIFTED, [31_000, 31_000, 32_000, 34_000, 37_000, 38_000]),
+  },
+  fheRotr: {
+    encrypted: costs(SHIFTED, [93_000, 125_000, 160_000, 209_000, 283_000, 375_000]),
+    scalar: costs(SHIFTED, [31_000, 31_000, 32_000, 34_000, 37_000, 40_000]),
+  },
+  fheEq: {
+    encrypted: costs(ALL, [26_000, 55_000, 83_000, 86_000, 120_000, 122_000, 137_000, 152_000]),
+    scalar: costs(ALL, [25_000, 55_000, 55_000, 82_000, 83_000, 117_000, 117_000, 118_000]),
+  },
+  fheNe: {
+    encrypted: costs(ALL, [23_000, 55_000, 83_000, 85_000, 118_000, 122_000, 136_000, 150_000]),
+    scalar: costs(ALL, [23_000, 55_000, 55_000, 83_000, 84_000, 117_000, 117_000, 117_000]),
+  },
+  fheGe: {
+    encrypted: costs(UINTS, [63_000, 84_000, 118_000, 152_000, 210_000]),
+    scalar: costs(UINTS, [52_000, 55_000, 84_000, 116_000, 149_000]),
+  },
+  fheGt: {
+    encrypted: costs(UINTS, [59_000, 84_000, 118_000, 152_000, 218_000]),
+    scalar: costs(UINTS, [52_000, 55_000, 84_000, 117_000, 150_000]),
+  },
+  fheLe: {
+    encrypted: costs(UINTS, [58_000, 83_000, 117_000, 149_000, 218_000]),
+    scalar: costs(UINTS, [58_000, 58_000, 84_000, 119_000, 150_000]),
+  },
+  fheLt: {
+    encrypted: costs(UINTS, [59_000, 84_000, 117_000, 146_000, 215_000]),
+    scalar: costs(UINTS, [52_000, 58_000, 83_000, 118_000, 149_000]),
+  },
+  fheMin: {
+    encrypted: costs(UINTS, [119_000, 146_000, 182_000, 219_000, 289_000]),
+    scalar: costs(UINTS, [84_000, 88_000, 117_000, 150_000, 186_000]),
+  },
+  fheMax: {
+    encrypted: costs(UINTS, [121_000, 145_000, 180_000, 218_000, 290_000]),
+    scalar: costs(UINTS, [89_000, 89_000, 117_000, 149_000, 180_000]),
+  },
+  fheNeg: { encrypted: costs(SHIFTED, [79_000, 93_000, 95_000, 131_000, 168_000, 269_000]) },
+  fheNot: { encrypted: costs(BITS, [2, 9, 16, 32, 63, 130, 130]) },
+  cast: { encrypted: costs(BITS, [32, 32, 32, 32, 32, 32, 32]) },
+  trivialEncrypt: { encrypted: costs(ALL, [32, 32, 32, 32, 32, 32, 32, 32]) },
+  fheIfThenElse: { encrypted: costs(ALL, [55_000, 55_000, 55_000, 55_000, 55_000, 57_000, 83_000, 108_000]) },
+  fheRand: { encrypted: costs(BITS, [19_000, 23_000, 23_000, 24_000, 24_000, 25_000, 30_000]) },
+  fheRandBounded: { encrypted: costs(SHIFTED, [23_000, 23_000, 24_000, 24_000, 25_000, 30_000]) },
+};
+
+// HCU used by a transaction, in total and along its longest chain of dependent operations.
+export interface TransactionHcu {
+  hcu: number;
+  depth: number;
+}
+
+/** HCU charged for one executor call; `verifyCiphertext` is free. */
+export function operationHcu(call: ExecutorCall): number {
+  if (call.operation === "verifyCiphertext") {
+    return 0;
+  }
+  const entry = HCU_COSTS[call.operation];
+  const table = (call.scalar ? entry.scalar : entry.encrypted) ?? entry.encrypted ?? entry.scalar ?? {};
+  const type = call.operation === "cast" ? handleType(call.result) : call.type;
+  const units = table[type];
+  if (units === undefined) {
+    throw new Error(`No HCU cost for ${call.operation} on ${typeName(type)}`);
+  }
+  return units;
+}
+
+/** Total and depth HCU of the executor calls of one transaction, tracked like HCULimit does. */
+export function transactionHcu(calls: ExecutorCall[]): TransactionHcu {
+  const handleDepth = new Map<string, number>();
+  let hcu = 0;
+  let depth = 0;
+  for (const call of calls) {
+    const units = operationHcu(call);
+    if (units === 0) {
+      continue;
+    }
+    hcu += units;
+    const resultDepth = units + Math.max(0, ...call.operands.map((h) => handleDepth.get(h) ?? 0));
+    handleDepth.set(call.result, resultDepth);
+    depth = Math.max(depth, resultDepth);
+  }
+  return { hcu, depth };
+}
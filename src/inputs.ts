@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { encodeClearWord } from "./cleartexts";
+import { ClearValue, FheType, typeName } from "./fheTypes";
+import { SubmittedValue, submittedId } from "./values";
+
+// Builder shared by the hardhat plugin's `createEncryptedInput` and the relayer SDK's.
+export interface EncryptedInputBuilder {
+  addBool(value: boolean | number | bigint): EncryptedInputBuilder;
+  add8(value: number | bigint): EncryptedInputBuilder;
+  add16(value: number | bigint): EncryptedInputBuilder;
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  add128(value: number | bigint): EncryptedInputBuilder;
+  add256(value: number | bigint): EncryptedInputBuilder;
+  addAddress(value: string): EncryptedInputBuilder;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+// Creates an input bound to the contract that will verify it and the account that will send it.
+export type EncryptedInputFactory = (contractAddress: string, userAddress: string) => EncryptedInputBuilder;
+
+// A client-side ciphertext ready to be passed to `submitEncryptedInput`.
+export interface EncryptedInput {
+  type: FheType;
+  handle: string;
+  inputProof: string;
+}
+
+/** Inputs encrypted by the fhevm hardhat plugin (mock on the hardhat network). */
+export function hardhatInputFactory(hre: HardhatRuntimeEnvironment): EncryptedInputFactory {
+  return (contractAddress, userAddress) => hre.fhevm.createEncryptedInput(contractAddress, userAddress);
+}
+
+/** Inputs encrypted in the browser by a relayer SDK instance (`createInstance` from `@zama-fhe/relayer-sdk`). */
+export function relayerInputFactory(instance: {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}): EncryptedInputFactory {
+  return (contractAddress, userAddress) => instance.createEncryptedInput(contractAddress, userAddress);
+}
+
+/** Encrypt one plaintext for `userAddress` to submit to `contractAddress`. */
+export async function encryptInput(
+  factory: EncryptedInputFactory,
+  contractAddress: string,
+  userAddress: string,
+  value: ClearValue | number,
+  type: FheType,
+): Promise<EncryptedInput> {
+  const word = encodeClearWord(type, value);
+  const builder = factory(contractAddress, userAddress);
+  switch (type) {
+    case FheType.Bool:
+      builder.addBool(word);
+      break;
+    case FheType.Uint8:
+      builder.add8(word);
+      break;
+    case FheType.Uint16:
+      builder.add16(word);
+      break;
+    case FheType.Uint32:
+      builder.add32(word);
+      break;
+    case FheType.Uint64:
+      builder.add64(word);
+      break;
+    case FheType.Uint128:
+      builder.add128(word);
+      break;
+    case FheType.Uint256:
+      builder.add256(word);
+      break;
+    case FheType.Uint160:
+      builder.addAddress(ethers.getAddress(ethers.toBeHex(word, 20)));
+      break;
+    default:
+      throw new Error(`Cannot encrypt ${typeName(type)} inputs`);
+  }
+  const { handles, inputProof } = await builder.encrypt();
+  return { type, handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+/** Send an encrypted input to `submitEncryptedInput`, whatever its proof; returns the new value id. */
+export async function submitInput(
+  framework: ethers.BaseContract,
+  signer: ethers.Signer,
+  input: EncryptedInput,
+): Promise<bigint> {
+  const connected = framework.connect(signer) as ethers.BaseContract;
+  const tx = await connected.getFunction("submitEncryptedInput").send(input.type, input.handle, input.inputProof);
+  return submittedId(framework, tx);
+}
+
+/**
+ * Encrypt `value` as `type` for `signer` and submit it with its input proof.
+ * Uses the hardhat plugin unless another factory (e.g. `relayerInputFactory`) is given.
+ */
+export async function submitEncrypted(
+  framework: ethers.BaseContract,
+  signer: ethers.Signer,
+  value: ClearValue | number,
+  type: FheType,
+  factory: EncryptedInputFactory = hardhatInputFactory(loadHre()),
+): Promise<SubmittedValue> {
+  const input = await encryptInput(factory, await framework.getAddress(), await signer.getAddress(), value, type);
+  const id = await submitInput(framework, signer, input);
+  const [, handle] = await framework.getFunction("encryptedValues").staticCall(id);
+  return { id, type, handle: handle as string };
+}
+
+/** Copy of a proof with one byte flipped, for exercising the input verifier's rejection path. */
+export function corruptProof(inputProof: string, offset?: number): string {
+  const bytes = ethers.getBytes(inputProof);
+  const at = offset ?? bytes.length - 1;
+  bytes[at] ^= 0xff;
+  return ethers.hexlify(bytes);
+}
+
+// Required lazily so that browser bundles never pull in hardhat.
+function loadHre(): HardhatRuntimeEnvironment {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require("hardhat");
+}
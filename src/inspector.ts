@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { IACL__factory } from "../types/factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+import { EXECUTOR_EVENTS, ExecutorCall, parseExecutorCalls } from "./executor";
+import { ClearValue } from "./fheTypes";
+import { decodeHandle, decryptHandle, HandleLike, HandleMetadata, toHandleHex } from "./handles";
+
+// Events of ACLEvents.sol in @fhevm/core-contracts.
+const ACL_EVENTS = new ethers.Interface([
+  "event Allowed(address indexed caller, address indexed account, bytes32 handle)",
+  "event AllowedForDecryption(address indexed caller, bytes32[] handlesList)",
+]);
+const ACL_TOPICS = ["Allowed", "AllowedForDecryption"].map((name) => ACL_EVENTS.getEvent(name)!.topicHash);
+
+export interface AclEntry {
+  account: string;
+  // Contracts that granted the access.
+  grantedBy: string[];
+  // Whether IACL.isAllowed still holds.
+  allowed: boolean;
+}
+
+export interface HandleInspection extends Omit<HandleMetadata, "origin"> {
+  // `trivial` when the executor call that produced it was a trivialEncrypt.
+  origin: HandleMetadata["origin"] | "trivial";
+  // The rest is only known in mock mode.
+  producedBy?: ExecutorCall;
+  plaintext?: ClearValue;
+  // Why the plaintext could not be read.
+  plaintextError?: string;
+  acl?: AclEntry[];
+  allowedForDecryption?: boolean;
+}
+
+export interface InspectOptions {
+  // First block searched for the producing call and the ACL grants; defaults to the first block of the chain.
+  fromBlock?: number;
+}
+
+/** Decode a handle and, in mock mode, find the call that produced it, its plaintext and its ACL entries. */
+export async function inspectHandle(
+  hre: HardhatRuntimeEnvironment,
+  handle: HandleLike,
+  { fromBlock = 0 }: InspectOptions = {},
+): Promise<HandleInspection> {
+  const metadata = decodeHandle(handle);
+  const inspection: HandleInspection = { ...metadata };
+  if (!hre.fhevm.isMock) {
+    return inspection;
+  }
+
+  const provider = hre.ethers.provider;
+  const executorTopics = EXECUTOR_EVENTS.fragments.map((f) => (f as ethers.EventFragment).topicHash);
+  const executorLogs = await provider.getLogs({ fromBlock, topics: [executorTopics] });
+  inspection.producedBy = parseExecutorCalls(executorLogs).find((call) => call.result === metadata.handle);
+  if (inspection.producedBy?.operation === "trivialEncrypt") {
+    inspection.origin = "trivial";
+  }
+
+  try {
+    inspection.plaintext = await decryptHandle(hre, metadata.handle);
+  } catch (e) {
+    inspection.plaintextError = (e as Error).message;
+  }
+
+  const { ACLAddress: aclAddress } = await hre.fhevm.getRelayerMetadata();
+  const acl = IACL__factory.connect(aclAddress, provider);
+  const grants = new Map<string, Set<string>>();
+  inspection.allowedForDecryption = false;
+  for (const log of await provider.getLogs({ address: aclAddress, fromBlock, topics: [ACL_TOPICS] })) {
+    const parsed = ACL_EVENTS.parseLog(log);
+    if (parsed?.name === "Allowed" && parsed.args.handle === metadata.handle) {
+      const grantedBy = grants.get(parsed.args.account) ?? new Set();
+      grants.set(parsed.args.account, grantedBy.add(parsed.args.caller));
+    }
+    if (parsed?.name === "AllowedForDecryption" && parsed.args.handlesList.includes(metadata.handle)) {
+      inspection.allowedForDecryption = true;
+    }
+  }
+  inspection.acl = await Promise.all(
+    [...grants].map(async ([account, grantedBy]) => ({
+      account,
+      grantedBy: [...grantedBy],
+      allowed: await acl.isAllowed(metadata.handle, account),
+    })),
+  );
+  return inspection;
+}
+
+/** Human-readable report of an inspection, one field per line. */
+export function formatInspection(inspection: HandleInspection): string {
+  const lines = [
+    `handle    ${toHandleHex(inspection.handle)}`,
+    `type      ${inspection.typeName} (${inspection.type})`,
+    `chain id  ${inspection.chainId}`,
+    `origin    ${inspection.origin}${inspection.inputIndex === undefined ? "" : ` #${inspection.inputIndex}`}`,
+    `version   ${inspection.version}`,
+    `hash      ${inspection.hash}`,
+  ];
+  if (inspection.producedBy !== undefined) {
+    const { operation, operands, caller, transactionHash } = inspection.producedBy;
+    lines.push(`produced  ${operation}(${operands.join(", ")}) by ${caller} in ${transactionHash}`);
+  }
+  if (inspection.plaintext !== undefined) {
+    lines.push(`plaintext ${inspection.plaintext}`);
+  } else if (inspection.plaintextError !== undefined) {
+    lines.push(`plaintext unavailable: ${inspection.plaintextError}`);
+  }
+  if (inspection.acl !== undefined) {
+    lines.push(`public    ${inspection.allowedForDecryption ? "allowed for decryption" : "no"}`);
+    lines.push(`acl       ${inspection.acl.length === 0 ? "no entries" : ""}`.trimEnd());
+    for (const entry of inspection.acl) {
+      const revoked = entry.allowed ? "" : " (no longer allowed)";
+      lines.push(`  ${entry.account} granted by ${entry.grantedBy.join(", ")}${revoked}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,378 @@
+import { mine, SnapshotRestorer, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeClearWord, encodeClearWord, toRevealedValue } from "./cleartexts";
+import { FHETestFramework, FHETestFrameworkClient } from "./client";
+import { ClearValue, FheType, typeName } from "./fheTypes";
+import { frameworkFixture } from "./fixtures";
+import { Random, boolArbitrary, defaultSeed, uintArbitrary } from "./fuzz";
+import { clearValuesEqual, formatClearValue } from "./handles";
+import { LocalDecryptionOracle } from "./oracle";
+
+// One action of the submit / request decryption / reveal lifecycle. Plain JSON, so a failing sequence can be replayed.
+export type LifecycleStep =
+  | { action: "submit"; signer: number; type: FheType; value: string }
+  | { action: "requestReveal"; signer: number; id: number }
+  | { action: "setDelegate"; signer: number; delegate: number; approved: boolean }
+  | { action: "fulfill" };
+
+// What the contract should hold, tracked from the steps that went through.
+export interface ModelValue {
+  owner: string;
+  type: FheType;
+  value: ClearValue;
+  requested: boolean;
+  // A request is waiting for the oracle; every `fulfill` step answers it.
+  pending: boolean;
+  // Cleartext read on-chain the first time the value was seen revealed.
+  revealed?: ClearValue;
+}
+
+export interface LifecycleState {
+  framework: FHETestFramework;
+  signers: HardhatEthersSigner[];
+  oracle: LocalDecryptionOracle;
+  values: Map<bigint, ModelValue>;
+  // Approved (owner, delegate) pairs, as `owner:delegate` addresses.
+  delegates: Set<string>;
+  // Highest `valueCount` observed so far.
+  valueCount: bigint;
+  // Block the framework was deployed at; events are searched from there.
+  fromBlock: number;
+}
+
+// Checked after every step; throws to report a violation.
+export interface Invariant {
+  name: string;
+  check(state: LifecycleState): Promise<void>;
+}
+
+export interface LifecycleOptions {
+  runs?: number;
+  // Steps per run.
+  steps?: number;
+  // Number of hardhat signers acting on the contract.
+  signers?: number;
+  // Defaults to FUZZ_SEED from the environment, then to a fresh random seed.
+  seed?: number;
+  maxShrinks?: number;
+  // Checked in addition to `LIFECYCLE_INVARIANTS`.
+  invariants?: Invariant[];
+}
+
+export const LIFECYCLE_INVARIANTS: Invariant[] = [
+  {
+    name: "valueCount only increases",
+    async check(state) {
+      const count = await state.framework.valueCount();
+      if (count < state.valueCount) {
+        throw new Error(`valueCount went from ${state.valueCount} down to ${count}`);
+      }
+      state.valueCount = count;
+    },
+  },
+  {
+    name: "a revealed value never changes",
+    async check(state) {
+      for (const [id, model] of state.values) {
+        const clear = toRevealedValue(await state.framework.getClearValue(id));
+        if (!clear.revealed) {
+          continue;
+        }
+        if (!model.requested) {
+          throw new Error(`value ${id} was revealed without a decryption request`);
+        }
+        if (!clearValuesEqual(clear.value, model.value)) {
+          throw new Error(`value ${id} was revealed as ${formatClearValue(clear.value)}, submitted as ${model.value}`);
+        }
+        if (model.revealed !== undefined && !clearValuesEqual(clear.value, model.revealed)) {
+          throw new Error(`value ${id} changed from ${model.revealed} to ${formatClearValue(clear.value)}`);
+        }
+        model.revealed = clear.value;
+      }
+    },
+  },
+  {
+    name: "every DecryptionRequested maps to a valid id",
+    async check(state) {
+      const events = await state.framework.queryFilter(state.framework.filters.DecryptionRequested(), state.fromBlock);
+      for (const { args } of events) {
+        if (args.id === 0n || args.id > state.valueCount || !state.values.has(args.id)) {
+          throw new Error(`DecryptionRequested(id ${args.id}, request ${args.requestId}) names no stored value`);
+        }
+      }
+    },
+  },
+];
+
+/** Thrown when an invariant breaks or a step's outcome differs from the model; carries the shrunk script. */
+export class InvariantViolationError extends Error {
+  constructor(
+    readonly seed: number | undefined,
+    readonly script: LifecycleStep[],
+    readonly originalLength: number,
+    readonly failure: string,
+  ) {
+    const origin = seed === undefined ? "replayed script" : `seed ${seed}, replay with FUZZ_SEED=${seed}`;
+    super(
+      `${failure} (${origin})\n` +
+        `  script (shrunk from ${originalLength} steps), replay with replayLifecycle(hre, script):\n` +
+        formatScript(script)
+          .split("\n")
+          .map((line) => `  ${line}`)
+          .join("\n"),
+    );
+    this.name = "InvariantViolationError";
+  }
+}
+
+/**
+ * Run random sequences of lifecycle actions from several signers against a fresh FHETestFramework and the local oracle,
+ * checking the expected outcome of every step and the invariants after it. Mock mode only.
+ */
+export async function checkLifecycleInvariants(
+  hre: HardhatRuntimeEnvironment,
+  options: LifecycleOptions = {},
+): Promise<void> {
+  const seed = options.seed ?? defaultSeed();
+  const random = new Random(seed);
+  const runner = await LifecycleRunner.create(hre, options);
+
+  for (let run = 1; run <= (options.runs ?? 10); run++) {
+    const state = await runner.reset();
+    const steps: LifecycleStep[] = [];
+    for (let i = 0; i < (options.steps ?? 20); i++) {
+      const step = generateStep(random, state);
+      steps.push(step);
+      const failure = await runner.step(state, step);
+      if (failure !== undefined) {
+        const [script, lastFailure] = await runner.shrink(steps, failure, options.maxShrinks ?? 100);
+        throw new InvariantViolationError(seed, script, steps.length, `run ${run}, ${lastFailure}`);
+      }
+    }
+  }
+}
+
+/** Run a script printed by `InvariantViolationError` against a fresh deployment; throws if it still fails. */
+export async function replayLifecycle(
+  hre: HardhatRuntimeEnvironment,
+  script: LifecycleStep[],
+  options: Pick<LifecycleOptions, "signers" | "invariants"> = {},
+): Promise<void> {
+  const runner = await LifecycleRunner.create(hre, options);
+  const failure = await runner.play(script);
+  if (failure !== undefined) {
+    throw new InvariantViolationError(undefined, script, script.length, failure);
+  }
+}
+
+// Drops step `i`; dropping a submit also drops the reveals of its value and renumbers the later ids.
+function withoutStep(script: LifecycleStep[], i: number): LifecycleStep[] {
+  const removed = script[i];
+  if (removed.action !== "submit") {
+    return script.filter((_, j) => j !== i);
+  }
+  const id = script.slice(0, i + 1).filter((step) => step.action === "submit").length;
+  return script.flatMap((step, j) => {
+    if (j === i || (step.action === "requestReveal" && step.id === id)) {
+      return [];
+    }
+    return step.action === "requestReveal" && step.id > id ? [{ ...step, id: step.id - 1 }] : [step];
+  });
+}
+
+export function formatScript(script: LifecycleStep[]): string {
+  return `[\n${script.map((step) => `  ${JSON.stringify(step)},`).join("\n")}\n]`;
+}
+
+// Deploys once, then restores the deployment snapshot before each sequence.
+class LifecycleRunner {
+  private constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly client: FHETestFrameworkClient,
+    private readonly signers: HardhatEthersSigner[],
+    private readonly invariants: Invariant[],
+    private readonly snapshot: SnapshotRestorer,
+    private readonly fromBlock: number,
+  ) {}
+
+  static async create(hre: HardhatRuntimeEnvironment, options: LifecycleOptions): Promise<LifecycleRunner> {
+    const { client, owner, others } = await frameworkFixture(hre)();
+    const signers = [owner, ...others].slice(0, options.signers ?? 3);
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
+    const invariants = [...LIFECYCLE_INVARIANTS, ...(options.invariants ?? [])];
+    return new LifecycleRunner(hre, client, signers, invariants, await takeSnapshot(), fromBlock);
+  }
+
+  async reset(): Promise<LifecycleState> {
+    // The mock coprocessor does not rewind its log cursor on evm_revert: mine past the discarded blocks.
+    const head = await this.hre.ethers.provider.getBlockNumber();
+    await this.snapshot.restore();
+    await mine(head + 1 - (await this.hre.ethers.provider.getBlockNumber()));
+    return {
+      framework: this.client.contract,
+      signers: this.signers,
+      oracle: await new LocalDecryptionOracle(this.hre).init(),
+      values: new Map(),
+      delegates: new Set(),
+      valueCount: 0n,
+      fromBlock: this.fromBlock,
+    };
+  }
+
+  // Undefined when the step behaved as the model expects and every invariant holds, otherwise what went wrong.
+  async step(state: LifecycleState, step: LifecycleStep): Promise<string | undefined> {
+    const failure = await this.execute(state, step);
+    if (failure !== undefined) {
+      return `${describeStep(step)}: ${failure}`;
+    }
+    for (const invariant of this.invariants) {
+      try {
+        await invariant.check(state);
+      } catch (e) {
+        return `invariant "${invariant.name}" violated after ${describeStep(step)}: ${(e as Error).message}`;
+      }
+    }
+    return undefined;
+  }
+
+  async play(script: LifecycleStep[]): Promise<string | undefined> {
+    const state = await this.reset();
+    for (const step of script) {
+      const failure = await this.step(state, step);
+      if (failure !== undefined) {
+        return failure;
+      }
+    }
+    return undefined;
+  }
+
+  // Greedily drop steps while the script still fails. Dropping a submit can drop later steps too: stay in bounds.
+  async shrink(script: LifecycleStep[], failure: string, maxShrinks: number): Promise<[LifecycleStep[], string]> {
+    let current = script;
+    let lastFailure = failure;
+    let shrinks = 0;
+    for (let i = current.length - 1; i >= 0 && shrinks < maxShrinks; i = Math.min(i, current.length) - 1) {
+      const candidate = withoutStep(current, i);
+      const result = await this.play(candidate);
+      shrinks++;
+      if (result !== undefined) {
+        current = candidate;
+        lastFailure = result;
+      }
+    }
+    return [current, lastFailure];
+  }
+
+  private async execute(state: LifecycleState, step: LifecycleStep): Promise<string | undefined> {
+    if (step.action === "fulfill") {
+      await state.oracle.fulfill();
+      state.values.forEach((model) => (model.pending = false));
+      return undefined;
+    }
+    const signer = this.signers[step.signer];
+    const client = this.client.connect(signer);
+
+    switch (step.action) {
+      case "submit": {
+        const value = decodeClearWord(step.type, BigInt(step.value));
+        const { id } = await client.submit(value, step.type);
+        if (id !== state.valueCount + 1n) {
+          return `stored as value ${id}, expected ${state.valueCount + 1n}`;
+        }
+        state.values.set(id, { owner: signer.address, type: step.type, value, requested: false, pending: false });
+        return undefined;
+      }
+      case "requestReveal": {
+        const id = BigInt(step.id);
+        const model = state.values.get(id);
+        const expected =
+          model === undefined
+            ? "Unknown value"
+            : model.owner !== signer.address && !state.delegates.has(`${model.owner}:${signer.address}`)
+              ? "Not authorized"
+              : model.revealed !== undefined
+                ? "Already revealed"
+                : model.pending
+                  ? "Decryption pending"
+                  : undefined;
+        const outcome = await attempt(() => client.requestReveal(id));
+        if (outcome === undefined && model !== undefined) {
+          model.requested = true;
+          model.pending = true;
+        }
+        return compareOutcome(expected, outcome);
+      }
+      case "setDelegate": {
+        const delegate = this.signers[step.delegate].address;
+        const expected = step.delegate === step.signer ? "Invalid delegate" : undefined;
+        const outcome = await attempt(async () =>
+          (await state.framework.connect(signer).setDelegate(delegate, step.approved)).wait(),
+        );
+        if (outcome === undefined) {
+          const key = `${signer.address}:${delegate}`;
+          if (step.approved) {
+            state.delegates.add(key);
+          } else {
+            state.delegates.delete(key);
+          }
+        }
+        return compareOutcome(expected, outcome);
+      }
+    }
+  }
+}
+
+const STEP_TYPES = [FheType.Bool, FheType.Uint8, FheType.Uint16, FheType.Uint32, FheType.Uint64];
+
+// Weighted towards submitting and revealing; ids range one past the last stored value to exercise `Unknown value`.
+function generateStep(random: Random, state: LifecycleState): LifecycleStep {
+  const signer = random.int(state.signers.length);
+  const roll = random.int(10);
+  if (roll < 3 || state.values.size === 0) {
+    const type = STEP_TYPES[random.int(STEP_TYPES.length)];
+    const value = type === FheType.Bool ? boolArbitrary().generate(random) : uintArbitrary(type).generate(random);
+    return { action: "submit", signer, type, value: encodeClearWord(type, value).toString() };
+  }
+  if (roll < 6) {
+    return { action: "requestReveal", signer, id: random.int(state.values.size + 1) + 1 };
+  }
+  if (roll < 8) {
+    return { action: "fulfill" };
+  }
+  return { action: "setDelegate", signer, delegate: random.int(state.signers.length), approved: random.int(3) > 0 };
+}
+
+function describeStep(step: LifecycleStep): string {
+  switch (step.action) {
+    case "submit":
+      return `submit ${typeName(step.type)} ${step.value} from signer ${step.signer}`;
+    case "requestReveal":
+      return `requestReveal(${step.id}) from signer ${step.signer}`;
+    case "setDelegate":
+      return `setDelegate(signer ${step.delegate}, ${step.approved}) from signer ${step.signer}`;
+    case "fulfill":
+      return "oracle fulfill";
+  }
+}
+
+// Undefined when `send` went through, otherwise its revert reason.
+async function attempt(send: () => Promise<unknown>): Promise<string | undefined> {
+  try {
+    await send();
+    return undefined;
+  } catch (e) {
+    const error = e as { reason?: string; shortMessage?: string; message?: string };
+    return error.reason ?? error.shortMessage ?? error.message ?? String(e);
+  }
+}
+
+function compareOutcome(expected: string | undefined, outcome: string | undefined): string | undefined {
+  if (expected === undefined) {
+    return outcome === undefined ? undefined : `reverted with "${outcome}", expected to succeed`;
+  }
+  if (outcome === undefined) {
+    return `succeeded, expected to revert with "${expected}"`;
+  }
+  return outcome.includes(expected) ? undefined : `reverted with "${outcome}", expected "${expected}"`;
+}
@@ -0,0 +1,230 @@
+import chai from "chai";
+import type { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import { WaitForCheckOptions, describeCheck, waitForCheck } from "./checks";
+import { ClearValue, typeName } from "./fheTypes";
+import { HandleLike, clearValuesEqual, decryptHandle, formatClearValue, handleType, toHandleHex } from "./handles";
+import { Delivery, EXPECTED_FAULT_REVERTS } from "./oracle";
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  export namespace Chai {
+    interface Assertion {
+      decryptTo(expected: ClearValue | number): AsyncAssertion;
+      encryptedEqual(other: HandleLike | Promise<HandleLike>): AsyncAssertion;
+      encryptedInRange(lo: bigint | number, hi: bigint | number): AsyncAssertion;
+      encryptedSatisfies(predicate: (value: ClearValue) => boolean, description?: string): AsyncAssertion;
+      beRejectedByCallback(reason?: string | RegExp): AsyncAssertion;
+      beAcceptedByCallback(): AsyncAssertion;
+      leaveUnrevealed(framework: ethers.BaseContract, id: bigint | number): AsyncAssertion;
+      passEncryptedCheck(framework: FHETestFramework, options?: WaitForCheckOptions): AsyncAssertion;
+    }
+
+    interface AsyncAssertion extends Assertion, Promise<void> {}
+  }
+}
+
+// Resolved handle and plaintext of the assertion subject.
+interface Decrypted {
+  label: string;
+  value: ClearValue;
+}
+
+// Loaded lazily: this module is imported from hardhat.config.ts, before the runtime exists.
+function getHre(): HardhatRuntimeEnvironment {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require("hardhat");
+}
+
+async function decryptSubject(subject: HandleLike | Promise<HandleLike>): Promise<Decrypted> {
+  const handle = toHandleHex(await subject);
+  const value = await decryptHandle(getHre(), handle);
+  return { label: `${typeName(handleType(handle))} handle ${handle}`, value };
+}
+
+// Makes the assertion awaitable, the same way hardhat-chai-matchers does for its async matchers.
+function makeAsync(assertion: Chai.AssertionStatic, run: Promise<void>): Chai.AsyncAssertion {
+  const self = assertion as unknown as Chai.AsyncAssertion & Record<string, unknown>;
+  self.then = run.then.bind(run);
+  self.catch = run.catch.bind(run);
+  self.finally = run.finally.bind(run);
+  return self;
+}
+
+function deliveryLabel(delivery: Delivery): string {
+  return `callback for request ${delivery.request.requestID}${delivery.fault ? ` (${delivery.fault})` : ""}`;
+}
+
+export function fhevmChaiMatchers(chaiInstance: Chai.ChaiStatic, utils: Chai.ChaiUtils): void {
+  const { Assertion } = chaiInstance;
+
+  utils.addMethod(
+    Assertion.prototype,
+    "decryptTo",
+    function (this: Chai.AssertionStatic, expected: ClearValue | number) {
+      const run = decryptSubject(this._obj).then(({ label, value }) => {
+        this.assert(
+          clearValuesEqual(value, expected),
+          `expected ${label} to decrypt to ${formatClearValue(expected)}, but it decrypted to ${formatClearValue(value)}`,
+          `expected ${label} not to decrypt to ${formatClearValue(expected)}`,
+          formatClearValue(expected),
+          formatClearValue(value),
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+
+  utils.addMethod(
+    Assertion.prototype,
+    "encryptedEqual",
+    function (this: Chai.AssertionStatic, other: HandleLike | Promise<HandleLike>) {
+      // Decrypt one after the other: the mock coprocessor does not support concurrent queries.
+      const run = decryptSubject(this._obj).then(async (lhs) => {
+        const rhs = await decryptSubject(other);
+        this.assert(
+          clearValuesEqual(lhs.value, rhs.value),
+          `expected ${lhs.label} (${formatClearValue(lhs.value)}) to equal ${rhs.label} (${formatClearValue(rhs.value)})`,
+          `expected ${lhs.label} not to equal ${rhs.label}, both decrypted to ${formatClearValue(lhs.value)}`,
+          formatClearValue(rhs.value),
+          formatClearValue(lhs.value),
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+
+  utils.addMethod(
+    Assertion.prototype,
+    "encryptedInRange",
+    function (this: Chai.AssertionStatic, lo: bigint | number, hi: bigint | number) {
+      const run = decryptSubject(this._obj).then(({ label, value }) => {
+        if (typeof value !== "bigint") {
+          throw new TypeError(`encryptedInRange expects an euint handle, got ${label}`);
+        }
+        const range = `[${lo}, ${hi}]`;
+        this.assert(
+          value >= BigInt(lo) && value <= BigInt(hi),
+          `expected ${label} to be in range ${range}, but it decrypted to ${value}`,
+          `expected ${label} not to be in range ${range}, but it decrypted to ${value}`,
+          range,
+          value.toString(),
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+
+  utils.addMethod(
+    Assertion.prototype,
+    "encryptedSatisfies",
+    function (this: Chai.AssertionStatic, predicate: (value: ClearValue) => boolean, description?: string) {
+      const what = description ?? (predicate.name || "predicate");
+      const run = decryptSubject(this._obj).then(({ label, value }) => {
+        this.assert(
+          predicate(value),
+          `expected ${label} to satisfy ${what}, but it decrypted to ${formatClearValue(value)}`,
+          `expected ${label} not to satisfy ${what}, but it decrypted to ${formatClearValue(value)}`,
+          what,
+          formatClearValue(value),
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+
+  // On a delivery from `LocalDecryptionOracle`; without `reason`, the revert expected for its fault.
+  utils.addMethod(
+    Assertion.prototype,
+    "beRejectedByCallback",
+    function (this: Chai.AssertionStatic, reason?: string | RegExp) {
+      const run = Promise.resolve(this._obj as Delivery | undefined | Promise<Delivery | undefined>).then(
+        (delivery) => {
+          if (delivery === undefined) {
+            throw new TypeError("beRejectedByCallback expects a delivery, but no callback was sent");
+          }
+          const expected =
+            reason ??
+            (delivery.fault !== undefined && delivery.fault in EXPECTED_FAULT_REVERTS
+              ? EXPECTED_FAULT_REVERTS[delivery.fault as keyof typeof EXPECTED_FAULT_REVERTS]
+              : undefined);
+          const label = deliveryLabel(delivery);
+          const matches =
+            expected === undefined ||
+            (typeof expected === "string" ? delivery.reason?.includes(expected) : expected.test(delivery.reason ?? ""));
+          const what = expected === undefined ? "" : ` with ${expected}`;
+          this.assert(
+            delivery.reverted && !!matches,
+            delivery.reverted
+              ? `expected ${label} to be rejected${what}, but it reverted with ${delivery.reason}`
+              : `expected ${label} to be rejected${what}, but it went through (${delivery.transactionHash})`,
+            `expected ${label} not to be rejected${what}`,
+            expected?.toString(),
+            delivery.reason,
+          );
+        },
+      );
+      return makeAsync(this, run);
+    },
+  );
+
+  // On a delivery from `LocalDecryptionOracle`, such as a `nonOracleSender` fault: the callback must have gone through.
+  utils.addMethod(Assertion.prototype, "beAcceptedByCallback", function (this: Chai.AssertionStatic) {
+    const run = Promise.resolve(this._obj as Delivery | undefined | Promise<Delivery | undefined>).then((delivery) => {
+      if (delivery === undefined) {
+        throw new TypeError("beAcceptedByCallback expects a delivery, but no callback was sent");
+      }
+      const label = deliveryLabel(delivery);
+      this.assert(
+        !delivery.reverted,
+        `expected ${label} to be accepted, but it reverted with ${delivery.reason}`,
+        `expected ${label} not to be accepted, but it went through (${delivery.transactionHash})`,
+        false,
+        delivery.reverted,
+      );
+    });
+    return makeAsync(this, run);
+  });
+
+  // On anything awaitable, typically `injectFault`: once it settles, the value must still be hidden.
+  utils.addMethod(
+    Assertion.prototype,
+    "leaveUnrevealed",
+    function (this: Chai.AssertionStatic, framework: ethers.BaseContract, id: bigint | number) {
+      const run = Promise.resolve(this._obj).then(async () => {
+        const [, value, revealed] = await framework.getFunction("getClearValue").staticCall(id);
+        this.assert(
+          !revealed,
+          `expected value ${id} to stay unrevealed, but it was revealed as ${value}`,
+          `expected value ${id} to be revealed`,
+          false,
+          revealed,
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+
+  // On a check id, or a promise of one such as `checkInRange(...)`: waits for the reveal of its outcome.
+  utils.addMethod(
+    Assertion.prototype,
+    "passEncryptedCheck",
+    function (this: Chai.AssertionStatic, framework: FHETestFramework, options?: WaitForCheckOptions) {
+      const run = Promise.resolve(this._obj as bigint | number | Promise<bigint | number>).then(async (id) => {
+        const check = await waitForCheck(framework, id, options);
+        const label = `check ${id} (${describeCheck(check)})`;
+        this.assert(
+          check.passed,
+          `expected ${label} to pass, but it failed`,
+          `expected ${label} to fail, but it passed`,
+          true,
+          check.passed,
+        );
+      });
+      return makeAsync(this, run);
+    },
+  );
+}
+
+chai.use(fhevmChaiMatchers);
@@ -0,0 +1,205 @@
+import { decodeClearWord, encodeClearWord } from "./cleartexts";
+import { ClearValue, FheType, bitWidth, typeName } from "./fheTypes";
+
+// Plaintext semantics of the `IFHEVMExecutor` operations, as computed by the fhevm coprocessor:
+// arithmetic wraps modulo 2^bits, shift and rotate amounts are taken modulo the bit width,
+// division and remainder only take a non-zero plaintext divisor.
+
+export type BinaryOperation =
+  | "fheAdd"
+  | "fheSub"
+  | "fheMul"
+  | "fheDiv"
+  | "fheRem"
+  | "fheBitAnd"
+  | "fheBitOr"
+  | "fheBitXor"
+  | "fheShl"
+  | "fheShr"
+  | "fheRotl"
+  | "fheRotr"
+  | "fheEq"
+  | "fheNe"
+  | "fheGe"
+  | "fheGt"
+  | "fheLe"
+  | "fheLt"
+  | "fheMin"
+  | "fheMax";
+
+export type UnaryOperation = "fheNeg" | "fheNot";
+
+export type ExecutorOperation =
+  | BinaryOperation
+  | UnaryOperation
+  | "fheIfThenElse"
+  | "cast"
+  | "trivialEncrypt"
+  | "fheRand"
+  | "fheRandBounded";
+
+const ARITHMETIC = [FheType.Uint8, FheType.Uint16, FheType.Uint32, FheType.Uint64, FheType.Uint128];
+const BITWISE = [FheType.Bool, ...ARITHMETIC, FheType.Uint256];
+const SHIFTS = [...ARITHMETIC, FheType.Uint256];
+const EQUALITY = [...BITWISE, FheType.Uint160];
+
+// Operand types the executor accepts for each operation (its `supportedTypes` masks).
+export const SUPPORTED_TYPES: Record<ExecutorOperation, FheType[]> = {
+  fheAdd: ARITHMETIC,
+  fheSub: ARITHMETIC,
+  fheMul: ARITHMETIC,
+  fheDiv: ARITHMETIC,
+  fheRem: ARITHMETIC,
+  fheBitAnd: BITWISE,
+  fheBitOr: BITWISE,
+  fheBitXor: BITWISE,
+  fheShl: SHIFTS,
+  fheShr: SHIFTS,
+  fheRotl: SHIFTS,
+  fheRotr: SHIFTS,
+  fheEq: EQUALITY,
+  fheNe: EQUALITY,
+  fheGe: ARITHMETIC,
+  fheGt: ARITHMETIC,
+  fheLe: ARITHMETIC,
+  fheLt: ARITHMETIC,
+  fheMin: ARITHMETIC,
+  fheMax: ARITHMETIC,
+  fheNeg: SHIFTS,
+  fheNot: BITWISE,
+  fheIfThenElse: EQUALITY,
+  cast: BITWISE,
+  trivialEncrypt: EQUALITY,
+  fheRand: BITWISE,
+  fheRandBounded: SHIFTS,
+};
+
+// Types `cast` can produce.
+export const CAST_TARGETS: FheType[] = SHIFTS;
+
+/** The executor reverts with `UnsupportedType` on these operands. */
+export class UnsupportedOperationError extends Error {
+  constructor(operation: ExecutorOperation, type: FheType) {
+    super(`${operation} does not support ${typeName(type)}`);
+    this.name = "UnsupportedOperationError";
+  }
+}
+
+/** The executor reverts with `DivisionByZero` on a zero plaintext divisor. */
+export class DivisionByZeroError extends Error {
+  constructor(operation: ExecutorOperation) {
+    super(`${operation} by zero`);
+    this.name = "DivisionByZeroError";
+  }
+}
+
+export function supports(operation: ExecutorOperation, type: FheType): boolean {
+  return SUPPORTED_TYPES[operation].includes(type);
+}
+
+type Operand = ClearValue | number;
+
+const BINARY: Record<BinaryOperation, (a: bigint, b: bigint, bits: bigint, op: BinaryOperation) => bigint | boolean> = {
+  fheAdd: (a, b, bits) => wrap(a + b, bits),
+  fheSub: (a, b, bits) => wrap(a - b, bits),
+  fheMul: (a, b, bits) => wrap(a * b, bits),
+  fheDiv: (a, b, _bits, op) => a / nonZero(b, op),
+  fheRem: (a, b, _bits, op) => a % nonZero(b, op),
+  fheBitAnd: (a, b) => a & b,
+  fheBitOr: (a, b) => a | b,
+  fheBitXor: (a, b) => a ^ b,
+  fheShl: (a, b, bits) => wrap(a << b % bits, bits),
+  fheShr: (a, b, bits) => a >> b % bits,
+  fheRotl: (a, b, bits) => rotateLeft(a, b % bits, bits),
+  fheRotr: (a, b, bits) => rotateLeft(a, (bits - (b % bits)) % bits, bits),
+  fheEq: (a, b) => a === b,
+  fheNe: (a, b) => a !== b,
+  fheGe: (a, b) => a >= b,
+  fheGt: (a, b) => a > b,
+  fheLe: (a, b) => a <= b,
+  fheLt: (a, b) => a < b,
+  fheMin: (a, b) => (a < b ? a : b),
+  fheMax: (a, b) => (a > b ? a : b),
+};
+
+// Operations whose right operand is a bit count rather than a value of the operand type.
+const SHIFT_OPERATIONS: BinaryOperation[] = ["fheShl", "fheShr", "fheRotl", "fheRotr"];
+
+/** Plaintext result of a binary executor operation on operands of `type`; comparisons yield booleans. */
+export function binaryOperation(operation: BinaryOperation, type: FheType, lhs: Operand, rhs: Operand): ClearValue {
+  requireSupported(operation, type);
+  const bits = BigInt(bitWidth(type));
+  const a = encodeClearWord(type, lhs);
+  const b = SHIFT_OPERATIONS.includes(operation) ? BigInt(rhs as bigint | number) : encodeClearWord(type, rhs);
+  const result = BINARY[operation](a, b, bits, operation);
+  return typeof result === "boolean" ? result : decodeClearWord(type, result);
+}
+
+/** Plaintext result of `fheNeg` (two's complement) or `fheNot` (bitwise, logical on ebool). */
+export function unaryOperation(operation: UnaryOperation, type: FheType, operand: Operand): ClearValue {
+  requireSupported(operation, type);
+  const bits = BigInt(bitWidth(type));
+  const a = encodeClearWord(type, operand);
+  const mask = (1n << bits) - 1n;
+  return decodeClearWord(type, operation === "fheNot" ? a ^ mask : wrap(-a, bits));
+}
+
+export function fheIfThenElse(type: FheType, control: boolean, ifTrue: Operand, ifFalse: Operand): ClearValue {
+  requireSupported("fheIfThenElse", type);
+  return decodeClearWord(type, encodeClearWord(type, control ? ifTrue : ifFalse));
+}
+
+/** `cast` truncates to a narrower type and zero-extends to a wider one; it never targets the operand's own type. */
+export function cast(from: FheType, to: FheType, operand: Operand): ClearValue {
+  requireSupported("cast", from);
+  if (!CAST_TARGETS.includes(to)) {
+    throw new UnsupportedOperationError("cast", to);
+  }
+  if (from === to) {
+    throw new Error(`cast from ${typeName(from)} to itself is rejected by the executor`);
+  }
+  return decodeClearWord(to, wrap(encodeClearWord(from, operand), BigInt(bitWidth(to))));
+}
+
+export function trivialEncrypt(type: FheType, plaintext: bigint): ClearValue {
+  requireSupported("trivialEncrypt", type);
+  return decodeClearWord(type, wrap(plaintext, BigInt(bitWidth(type))));
+}
+
+/**
+ * Random results cannot be predicted, only checked: any value of the type for `fheRand`,
+ * below `upperBound` (a power of two) for `fheRandBounded`.
+ */
+export function isValidRandom(type: FheType, value: ClearValue, upperBound?: bigint): boolean {
+  requireSupported(upperBound === undefined ? "fheRand" : "fheRandBounded", type);
+  const word = encodeClearWord(type, value);
+  if (upperBound === undefined) {
+    return true;
+  }
+  if (upperBound <= 0n || (upperBound & (upperBound - 1n)) !== 0n) {
+    throw new Error(`fheRandBounded upper bound ${upperBound} is not a power of two`);
+  }
+  return word < upperBound;
+}
+
+function requireSupported(operation: ExecutorOperation, type: FheType): void {
+  if (!supports(operation, type)) {
+    throw new UnsupportedOperationError(operation, type);
+  }
+}
+
+function wrap(value: bigint, bits: bigint): bigint {
+  const modulus = 1n << bits;
+  return ((value % modulus) + modulus) % modulus;
+}
+
+function nonZero(divisor: bigint, operation: ExecutorOperation): bigint {
+  if (divisor === 0n) {
+    throw new DivisionByZeroError(operation);
+  }
+  return divisor;
+}
+
+function rotateLeft(value: bigint, shift: bigint, bits: bigint): bigint {
+  return wrap((value << shift) | (value >> (bits - shift)), bits);
+}
@@ -0,0 +1,220 @@
+// Mutation testing of Solidity sources: swap FHE library calls and comparison operators, then see if the tests notice.
+
+export interface Mutant {
+  // Position in the source file, 1-based.
+  file: string;
+  line: number;
+  column: number;
+  // Enclosing function or modifier.
+  function: string;
+  original: string;
+  replacement: string;
+  // Offset and length of `original` in the source.
+  offset: number;
+  length: number;
+}
+
+// killed: a test failed. timeout: the suite did not finish, counted as killed. invalid: the mutant did not compile.
+export type MutantStatus = "killed" | "survived" | "timeout" | "invalid";
+
+export interface MutantResult {
+  mutant: Mutant;
+  status: MutantStatus;
+}
+
+export interface FunctionMutationSummary {
+  file: string;
+  function: string;
+  killed: number;
+  survived: number;
+  invalid: number;
+  // Percentage of the valid mutants that were killed, or null when there were none.
+  score: number | null;
+  survivors: Mutant[];
+}
+
+export interface MutationReport {
+  score: number | null;
+  total: number;
+  killed: number;
+  survived: number;
+  invalid: number;
+  functions: FunctionMutationSummary[];
+}
+
+// Replacements for FHE.<op> and Impl.<op>: an arithmetic or logic slip, or the negated comparison.
+export const FHE_CALL_MUTATIONS: Record<string, string[]> = {
+  add: ["sub"],
+  sub: ["add"],
+  mul: ["add"],
+  div: ["mul"],
+  rem: ["div"],
+  min: ["max"],
+  max: ["min"],
+  and: ["or"],
+  or: ["and"],
+  xor: ["or"],
+  shl: ["shr"],
+  shr: ["shl"],
+  rotl: ["rotr"],
+  rotr: ["rotl"],
+  eq: ["ne"],
+  ne: ["eq"],
+  lt: ["ge", "le"],
+  le: ["gt", "lt"],
+  gt: ["le", "ge"],
+  ge: ["lt", "gt"],
+  neg: ["not"],
+  not: ["neg"],
+};
+
+// Negation, then the off-by-one boundary.
+export const COMPARISON_MUTATIONS: Record<string, string[]> = {
+  "==": ["!="],
+  "!=": ["=="],
+  "<": [">=", "<="],
+  "<=": [">", "<"],
+  ">": ["<=", ">="],
+  ">=": ["<", ">"],
+};
+
+const FHE_CALL = /\b(FHE|Impl)\.([a-zA-Z0-9]+)\s*\(/g;
+// Leaves out `=>`, shifts and assignments.
+const COMPARISON = /(?<![<>=!])(==|!=|<=|>=|<|>)(?![<>=])/g;
+const FUNCTION = /\b(function|modifier)\s+([a-zA-Z0-9_$]+)|\b(constructor|receive|fallback)\s*\(/g;
+
+/** Every mutant of `source`, in source order. Only code inside function and modifier bodies is mutated. */
+export function generateMutants(file: string, source: string): Mutant[] {
+  const code = maskCommentsAndStrings(source);
+  const bodies = functionBodies(code);
+  const mutants: Mutant[] = [];
+  const add = (offset: number, original: string, replacements: string[]) => {
+    const body = bodies.find((b) => offset > b.start && offset < b.end);
+    if (body === undefined) {
+      return;
+    }
+    const { line, column } = position(source, offset);
+    for (const replacement of replacements) {
+      mutants.push({ file, line, column, function: body.name, original, replacement, offset, length: original.length });
+    }
+  };
+
+  for (const match of code.matchAll(FHE_CALL)) {
+    const [, library, op] = match;
+    const replacements = FHE_CALL_MUTATIONS[op];
+    if (replacements !== undefined) {
+      add(
+        match.index!,
+        `${library}.${op}`,
+        replacements.map((r) => `${library}.${r}`),
+      );
+    }
+  }
+  for (const match of code.matchAll(COMPARISON)) {
+    add(match.index!, match[1], COMPARISON_MUTATIONS[match[1]]);
+  }
+  return mutants.sort((a, b) => a.offset - b.offset);
+}
+
+/** `source` with `mutant` applied. */
+export function applyMutant(source: string, mutant: Mutant): string {
+  return source.slice(0, mutant.offset) + mutant.replacement + source.slice(mutant.offset + mutant.length);
+}
+
+export function describeMutant(mutant: Mutant): string {
+  return `${mutant.file}:${mutant.line}:${mutant.column} ${mutant.function}: ${mutant.original} -> ${mutant.replacement}`;
+}
+
+export function summarizeMutations(results: MutantResult[]): MutationReport {
+  const functions = new Map<string, FunctionMutationSummary>();
+  for (const { mutant, status } of results) {
+    const key = `${mutant.file}:${mutant.function}`;
+    const summary = functions.get(key) ?? {
+      file: mutant.file,
+      function: mutant.function,
+      killed: 0,
+      survived: 0,
+      invalid: 0,
+      score: null,
+      survivors: [],
+    };
+    if (status === "survived") {
+      summary.survived++;
+      summary.survivors.push(mutant);
+    } else if (status === "invalid") {
+      summary.invalid++;
+    } else {
+      summary.killed++;
+    }
+    summary.score = score(summary.killed, summary.survived);
+    functions.set(key, summary);
+  }
+  const list = [...functions.values()];
+  const killed = list.reduce((sum, f) => sum + f.killed, 0);
+  const survived = list.reduce((sum, f) => sum + f.survived, 0);
+  const invalid = list.reduce((sum, f) => sum + f.invalid, 0);
+  return { score: score(killed, survived), total: results.length, killed, survived, invalid, functions: list };
+}
+
+/** Killed and surviving mutants per function, then each survivor, then the overall score. */
+export function formatMutationReport(report: MutationReport): string {
+  const width = Math.max(8, ...report.functions.map((f) => `${f.file}:${f.function}`.length)) + 2;
+  const row = (name: string, ...cells: string[]) => name.padEnd(width) + cells.map((c) => c.padStart(10)).join("");
+  const lines = [row("function", "killed", "survived", "invalid", "score")];
+  for (const f of report.functions) {
+    lines.push(row(`${f.file}:${f.function}`, `${f.killed}`, `${f.survived}`, `${f.invalid}`, percent(f.score)));
+  }
+  const survivors = report.functions.flatMap((f) => f.survivors);
+  if (survivors.length > 0) {
+    lines.push("", "Surviving mutants:", ...survivors.map((m) => `  ${describeMutant(m)}`));
+  }
+  lines.push(
+    "",
+    `Mutation score: ${percent(report.score)} (${report.killed} killed, ${report.survived} survived, ` +
+      `${report.invalid} invalid of ${report.total})`,
+  );
+  return lines.join("\n");
+}
+
+function score(killed: number, survived: number): number | null {
+  return killed + survived === 0 ? null : Math.round((killed / (killed + survived)) * 1000) / 10;
+}
+
+function percent(score: number | null): string {
+  return score === null ? "-" : `${score}%`;
+}
+
+// Comments and string literals blanked out, keeping offsets and newlines.
+function maskCommentsAndStrings(source: string): string {
+  return source.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/g, (text) =>
+    text.replace(/[^\n]/g, " "),
+  );
+}
+
+function functionBodies(code: string): { name: string; start: number; end: number }[] {
+  const bodies: { name: string; start: number; end: number }[] = [];
+  for (const match of code.matchAll(FUNCTION)) {
+    const name = match[2] ?? match[3];
+    // Declarations without a body (interfaces, abstract functions) end with `;` before any `{`.
+    const open = code.indexOf("{", match.index!);
+    const semicolon = code.indexOf(";", match.index!);
+    if (open === -1 || (semicolon !== -1 && semicolon < open)) {
+      continue;
+    }
+    let depth = 0;
+    for (let i = open; i < code.length; i++) {
+      if (code[i] === "{") {
+        depth++;
+      } else if (code[i] === "}" && --depth === 0) {
+        bodies.push({ name, start: open, end: i });
+        break;
+      }
+    }
+  }
+  return bodies;
+}
+
+function position(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
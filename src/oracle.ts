@@ -0,0 +1,385 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { decodeClearWord, encodeClearWord } from "./cleartexts";
+import { ClearValue, FheType, solidityType } from "./fheTypes";
+import { decryptHandle, handleType } from "./handles";
+
+// A `DecryptionRequest` emitted by the decryption oracle contract.
+export interface DecryptionRequest {
+  requestID: bigint;
+  handles: string[];
+  contractAddress: string;
+  callbackSelector: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Outcome of one callback transaction sent by the local oracle.
+export interface Delivery {
+  request: DecryptionRequest;
+  duplicate: boolean;
+  reverted: boolean;
+  reason?: string;
+  transactionHash?: string;
+  // Set when the callback was sent by `injectFault`.
+  fault?: DecryptionFault;
+}
+
+// Ways `injectFault` can corrupt the delivery of a request.
+export type DecryptionFault =
+  // One byte of the KMS signature flipped.
+  | "tamperSignature"
+  // Cleartexts other than the decrypted ones, under the genuine signatures.
+  | "swapCleartexts"
+  // Genuine payload under another request id.
+  | "wrongRequestId"
+  // The genuine callback sent again after it went through once.
+  | "replay"
+  // Genuine payload sent by an account other than the oracle's relayer.
+  | "nonOracleSender"
+  // No callback at all.
+  | "drop";
+
+export interface FaultOptions {
+  // Cleartexts for `swapCleartexts`; by default each value is changed to a different one of its type.
+  values?: ClearValue[];
+  // Request id for `wrongRequestId`; defaults to one no request uses.
+  requestID?: bigint;
+  // Account sending the faulty callback; defaults to the relayer, or to the first hardhat signer for `nonOracleSender`.
+  sender?: ethers.Signer;
+}
+
+// FHE.checkSignatures rejects a payload in the KMS verifier, or itself when no signature checks out.
+const SIGNATURES_REJECTED =
+  /KMSInvalidSigner|ECDSAInvalidSignature|KMSSignatureThresholdNotReached|InvalidKMSSignatures/;
+
+// Revert expected for each fault from a callback that checks its request id, its reveal state and FHE.checkSignatures.
+// `nonOracleSender` has none: any relayer may send a callback, so one with valid signatures goes through whoever
+// sends it. Combine `sender` with `tamperSignature` to see the signature check reject a forged one.
+export const EXPECTED_FAULT_REVERTS: Record<Exclude<DecryptionFault, "drop" | "nonOracleSender">, RegExp> = {
+  tamperSignature: SIGNATURES_REJECTED,
+  swapCleartexts: SIGNATURES_REJECTED,
+  // Unknown to the contract, or known but signed for another request.
+  wrongRequestId: new RegExp(`Invalid request mapping|NoHandleFoundForRequestID|${SIGNATURES_REJECTED.source}`),
+  replay: /Already revealed/,
+};
+
+// Either a fixed probability in [0, 1] or a per-request decision.
+export type RequestFilter = number | ((request: DecryptionRequest) => boolean);
+
+export interface LocalOracleOptions {
+  // Number of blocks a request must age before it is delivered.
+  delayBlocks?: number;
+  // Delivery order of the requests that are ready in one `fulfill()` round.
+  order?: "fifo" | "reverse" | "shuffle";
+  // Requests that are never delivered; they stay available in `dropped`.
+  drop?: RequestFilter;
+  // Requests whose callback is sent a second time right after the first.
+  duplicate?: RequestFilter;
+  // Account sending the callbacks; defaults to the last hardhat signer.
+  relayer?: ethers.Signer;
+  // Source of randomness for probabilistic filters and shuffling.
+  random?: () => number;
+}
+
+export interface DeliverOverrides {
+  // Request id passed to the callback instead of the one the oracle received.
+  requestID?: bigint;
+  // ABI-encoded cleartexts and proof passed instead of the genuine ones.
+  cleartexts?: string;
+  proof?: string;
+  // Account sending the callback instead of the relayer.
+  from?: ethers.Signer;
+  fault?: DecryptionFault;
+}
+
+/**
+ * Stand-in for the decryption oracle on the hardhat network: picks up `DecryptionRequest` events,
+ * decrypts the handles through the fhevm mock and calls the requesting contract back with signed cleartexts.
+ */
+export class LocalDecryptionOracle {
+  readonly pending: DecryptionRequest[] = [];
+  readonly dropped: DecryptionRequest[] = [];
+  readonly deliveries: Delivery[] = [];
+
+  private nextBlock: number | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<unknown> = Promise.resolve();
+  // Error that ended background fulfilling, until `stop()` or `fulfill()` rethrows it.
+  private failure: { error: unknown } | undefined;
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly options: LocalOracleOptions = {},
+  ) {
+    if (!hre.fhevm.isMock) {
+      throw new Error("LocalDecryptionOracle requires fhevm mock mode (hardhat network)");
+    }
+  }
+
+  /** Start from the current block, ignoring requests made before this call. */
+  async init(): Promise<this> {
+    this.nextBlock = (await this.hre.ethers.provider.getBlockNumber()) + 1;
+    return this;
+  }
+
+  /** Collect new decryption requests into `pending`. */
+  async poll(): Promise<DecryptionRequest[]> {
+    const provider = this.hre.ethers.provider;
+    const toBlock = await provider.getBlockNumber();
+    const fromBlock = this.nextBlock ?? 0;
+    if (fromBlock > toBlock) {
+      return [];
+    }
+    this.nextBlock = toBlock + 1;
+
+    const logs = await provider.getLogs({ fromBlock, toBlock });
+    const found = this.hre.fhevm.parseDecryptionRequestEvents(logs).map(
+      (e): DecryptionRequest => ({
+        requestID: e.requestID,
+        handles: e.handlesBytes32Hex,
+        contractAddress: e.contractCallerAddress,
+        callbackSelector: e.callbackSelectorBytes4Hex,
+        blockNumber: e.blockNumber,
+        transactionHash: e.transactionHash,
+      }),
+    );
+    this.pending.push(...found);
+    return found;
+  }
+
+  /**
+   * Poll, then deliver every request that is old enough, applying the configured faults.
+   * Rethrows the error that stopped a `start()` loop, if it was not surfaced yet.
+   */
+  async fulfill(): Promise<Delivery[]> {
+    this.throwFailure();
+    return this.fulfillReady();
+  }
+
+  /** Send the callback for one request; a revert is recorded instead of thrown. */
+  async deliver(request: DecryptionRequest, overrides: DeliverOverrides = {}): Promise<Delivery> {
+    const payload =
+      overrides.cleartexts !== undefined && overrides.proof !== undefined
+        ? overrides
+        : await this.buildPayload(request);
+    const cleartexts = overrides.cleartexts ?? payload.cleartexts;
+    const proof = overrides.proof ?? payload.proof;
+    const requestID = overrides.requestID ?? request.requestID;
+    const data = ethers.concat([
+      request.callbackSelector,
+      ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "bytes", "bytes"], [requestID, cleartexts, proof]),
+    ]);
+
+    const duplicate = this.deliveries.some((d) => d.request === request);
+    const { fault } = overrides;
+    const sender = overrides.from ?? (await this.relayer());
+    let delivery: Delivery;
+    try {
+      const tx = await sender.sendTransaction({ to: request.contractAddress, data });
+      await tx.wait();
+      delivery = { request, duplicate, reverted: false, transactionHash: tx.hash, fault };
+    } catch (e) {
+      delivery = { request, duplicate, reverted: true, reason: revertReason(e), fault };
+    }
+    this.deliveries.push(delivery);
+    return delivery;
+  }
+
+  /**
+   * Deliver a request with a fault, for negative-path tests; the request is taken out of `pending`.
+   * `drop` resolves without a delivery and leaves the request in `dropped`.
+   */
+  async injectFault(
+    request: DecryptionRequest,
+    fault: DecryptionFault,
+    options: FaultOptions = {},
+  ): Promise<Delivery | undefined> {
+    const index = this.pending.indexOf(request);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+    }
+
+    const from = options.sender;
+    switch (fault) {
+      case "drop":
+        this.dropped.push(request);
+        return undefined;
+      case "tamperSignature": {
+        const { cleartexts, proof } = await this.buildPayload(request);
+        return this.deliver(request, { cleartexts, proof: flipByte(proof, 1), from, fault });
+      }
+      case "swapCleartexts": {
+        const { values, proof } = await this.buildPayload(request);
+        const types = request.handles.map(handleType);
+        const swapped = options.values ?? values.map((value, i) => otherValue(types[i], value));
+        const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(types.map(solidityType), swapped);
+        return this.deliver(request, { cleartexts, proof, from, fault });
+      }
+      case "wrongRequestId":
+        return this.deliver(request, { requestID: options.requestID ?? ethers.MaxUint256, from, fault });
+      case "replay":
+        if (!this.deliveries.some((d) => d.request === request && !d.reverted)) {
+          await this.deliver(request);
+        }
+        return this.deliver(request, { from, fault });
+      case "nonOracleSender":
+        return this.deliver(request, { from: from ?? (await this.hre.ethers.getSigners())[0], fault });
+    }
+  }
+
+  /** Request with the given id, pending or already handled, polling for new requests first. */
+  async findRequest(requestID: bigint): Promise<DecryptionRequest> {
+    await this.poll();
+    const found = [...this.pending, ...this.dropped, ...this.deliveries.map((d) => d.request)].find(
+      (r) => r.requestID === requestID,
+    );
+    if (found === undefined) {
+      throw new Error(`No decryption request ${requestID} seen by the local oracle`);
+    }
+    return found;
+  }
+
+  /** ABI-encoded cleartexts and KMS proof, as the real oracle would pass them to the callback. */
+  async buildPayload(request: DecryptionRequest): Promise<{ values: ClearValue[]; cleartexts: string; proof: string }> {
+    const values: ClearValue[] = [];
+    for (const handle of request.handles) {
+      values.push(await decryptHandle(this.hre, handle));
+    }
+
+    const types = request.handles.map((h) => solidityType(handleType(h)));
+    const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(types, values);
+
+    // Typed as string[], but the mock relayer answers with `{ decryptedResult, signatures }`.
+    const signed = (await this.hre.fhevm.debugger.createDecryptionSignatures(request.handles, values)) as unknown as
+      | string[]
+      | { signatures: string[] };
+    const signatures = Array.isArray(signed) ? signed : signed.signatures;
+    const proof = ethers.concat([
+      ethers.solidityPacked(["uint8"], [signatures.length]),
+      ...signatures,
+      ethers.solidityPacked(["uint8"], [0]),
+    ]);
+    return { values, cleartexts, proof };
+  }
+
+  /**
+   * Fulfill requests in the background every `intervalMs` until `stop()`.
+   * A round that throws ends the loop; `stop()` or the next `fulfill()` rethrows its error.
+   */
+  start(intervalMs = 500): void {
+    this.clearTimer();
+    this.timer = setInterval(() => {
+      this.running = this.running
+        .then(() => (this.failure === undefined ? this.fulfillReady() : undefined))
+        .catch((error) => {
+          this.failure ??= { error };
+          this.clearTimer();
+        });
+    }, intervalMs);
+  }
+
+  /** Stop fulfilling in the background and wait for the current round; rethrows the error that ended the loop. */
+  async stop(): Promise<void> {
+    this.clearTimer();
+    await this.running;
+    this.throwFailure();
+  }
+
+  private async fulfillReady(): Promise<Delivery[]> {
+    await this.poll();
+
+    const head = await this.hre.ethers.provider.getBlockNumber();
+    const delay = this.options.delayBlocks ?? 0;
+    const ready = this.pending.filter((r) => head - r.blockNumber >= delay);
+    for (const request of ready) {
+      this.pending.splice(this.pending.indexOf(request), 1);
+    }
+
+    const results: Delivery[] = [];
+    for (const request of this.ordered(ready)) {
+      if (this.matches(this.options.drop, request)) {
+        this.dropped.push(request);
+        continue;
+      }
+      results.push(await this.deliver(request));
+      if (this.matches(this.options.duplicate, request)) {
+        results.push(await this.deliver(request));
+      }
+    }
+    return results;
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private throwFailure(): void {
+    if (this.failure !== undefined) {
+      const { error } = this.failure;
+      this.failure = undefined;
+      throw error;
+    }
+  }
+
+  private async relayer(): Promise<ethers.Signer> {
+    if (this.options.relayer) {
+      return this.options.relayer;
+    }
+    const signers = await this.hre.ethers.getSigners();
+    return signers[signers.length - 1];
+  }
+
+  private matches(filter: RequestFilter | undefined, request: DecryptionRequest): boolean {
+    if (filter === undefined) {
+      return false;
+    }
+    if (typeof filter === "function") {
+      return filter(request);
+    }
+    return this.random() < filter;
+  }
+
+  private ordered(requests: DecryptionRequest[]): DecryptionRequest[] {
+    switch (this.options.order ?? "fifo") {
+      case "reverse":
+        return [...requests].reverse();
+      case "shuffle": {
+        const shuffled = [...requests];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+          const j = Math.floor(this.random() * (i + 1));
+          [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+      }
+      default:
+        return requests;
+    }
+  }
+
+  private random(): number {
+    return (this.options.random ?? Math.random)();
+  }
+}
+
+function flipByte(hex: string, offset: number): string {
+  const bytes = ethers.getBytes(hex);
+  bytes[offset] ^= 0xff;
+  return ethers.hexlify(bytes);
+}
+
+// A value of the same type that differs from `value`.
+function otherValue(type: FheType, value: ClearValue): ClearValue {
+  if (typeof value === "boolean") {
+    return !value;
+  }
+  return decodeClearWord(type, encodeClearWord(type, value) ^ 1n);
+}
+
+function revertReason(error: unknown): string {
+  const e = error as { reason?: string; shortMessage?: string; message?: string };
+  return e.reason ?? e.shortMessage ?? e.message ?? String(error);
+}
@@ -0,0 +1,198 @@
+import { ExecutorCall } from "./executor";
+import { typeName } from "./fheTypes";
+import { operationHcu, transactionHcu } from "./hcu";
+
+// Limits for one transaction; either may be left out.
+export interface Budget {
+  gas?: number;
+  hcu?: number;
+}
+
+// Cost of one transaction sent during a test run.
+export interface TransactionProfile {
+  test: string;
+  // Contract function called, e.g. `submitEncryptedValue`; `(deploy)` for contract creations.
+  functionName: string;
+  hash: string;
+  gasUsed: number;
+  hcu: number;
+  depth: number;
+  // Keyed by executor operation and operand type, e.g. `fheAdd(euint8)`.
+  operations: Record<string, OperationCost>;
+}
+
+export interface OperationCost {
+  calls: number;
+  hcu: number;
+}
+
+export interface CostTotals {
+  calls: number;
+  gas: number;
+  hcu: number;
+  maxGas: number;
+  maxHcu: number;
+}
+
+export interface ProfileReport {
+  tests: Record<string, CostTotals>;
+  functions: Record<string, CostTotals>;
+  operations: Record<string, OperationCost>;
+}
+
+// A test or function whose cost moved since the baseline.
+export interface ProfileDelta {
+  scope: "test" | "function";
+  name: string;
+  gas: [number, number];
+  hcu: [number, number];
+}
+
+/** Thrown when a transaction exceeds its gas or HCU budget. */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly profile: TransactionProfile,
+    readonly measure: "gas" | "hcu",
+    readonly limit: number,
+  ) {
+    const used = measure === "gas" ? profile.gasUsed : profile.hcu;
+    super(
+      `${profile.functionName} used ${used} ${measure === "gas" ? "gas" : "HCU"}, over its budget of ${limit} ` +
+        `(transaction ${profile.hash})`,
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Build the profile of a mined transaction from its gas used and the executor calls in its logs. */
+export function profileTransaction(
+  test: string,
+  functionName: string,
+  hash: string,
+  gasUsed: number,
+  calls: ExecutorCall[],
+): TransactionProfile {
+  const operations: Record<string, OperationCost> = {};
+  for (const call of calls) {
+    const units = operationHcu(call);
+    if (units === 0) {
+      continue;
+    }
+    const key = `${call.operation}(${typeName(call.type)})`;
+    const cost = (operations[key] ??= { calls: 0, hcu: 0 });
+    cost.calls++;
+    cost.hcu += units;
+  }
+  return { test, functionName, hash, gasUsed, ...transactionHcu(calls), operations };
+}
+
+export function checkBudget(profile: TransactionProfile, budget: Budget): void {
+  if (budget.gas !== undefined && profile.gasUsed > budget.gas) {
+    throw new BudgetExceededError(profile, "gas", budget.gas);
+  }
+  if (budget.hcu !== undefined && profile.hcu > budget.hcu) {
+    throw new BudgetExceededError(profile, "hcu", budget.hcu);
+  }
+}
+
+/** Gas and HCU of a test run, attributed to each test, contract function and FHE operation. */
+export class GasProfiler {
+  readonly transactions: TransactionProfile[] = [];
+
+  record(profile: TransactionProfile): void {
+    this.transactions.push(profile);
+  }
+
+  report(): ProfileReport {
+    const report: ProfileReport = { tests: {}, functions: {}, operations: {} };
+    for (const tx of this.transactions) {
+      addTotals((report.tests[tx.test] ??= emptyTotals()), tx);
+      addTotals((report.functions[tx.functionName] ??= emptyTotals()), tx);
+      for (const [key, cost] of Object.entries(tx.operations)) {
+        const total = (report.operations[key] ??= { calls: 0, hcu: 0 });
+        total.calls += cost.calls;
+        total.hcu += cost.hcu;
+      }
+    }
+    return report;
+  }
+}
+
+export function formatProfile(report: ProfileReport): string {
+  const lines = [row("Function", "Calls", "Avg gas", "Max gas", "Avg HCU", "Max HCU")];
+  for (const [name, t] of sortedEntries(report.functions)) {
+    lines.push(row(name, t.calls, average(t.gas, t.calls), t.maxGas, average(t.hcu, t.calls), t.maxHcu));
+  }
+  lines.push("", row("FHE operation", "Calls", "HCU"));
+  for (const [name, cost] of sortedEntries(report.operations)) {
+    lines.push(row(name, cost.calls, cost.hcu));
+  }
+  lines.push("", row("Test", "Txs", "Gas", "HCU"));
+  for (const [name, t] of sortedEntries(report.tests)) {
+    lines.push(row(name, t.calls, t.gas, t.hcu));
+  }
+  return lines.join("\n");
+}
+
+/** Tests (by total) and functions (by average per call) whose gas or HCU differ from the baseline. */
+export function diffProfiles(baseline: ProfileReport, current: ProfileReport): ProfileDelta[] {
+  const deltas: ProfileDelta[] = [];
+  const compare = (scope: ProfileDelta["scope"], before: CostTotals | undefined, after: CostTotals, name: string) => {
+    const calls = (t: CostTotals) => (scope === "function" ? t.calls : 1);
+    const gas: [number, number] = [before ? average(before.gas, calls(before)) : 0, average(after.gas, calls(after))];
+    const hcu: [number, number] = [before ? average(before.hcu, calls(before)) : 0, average(after.hcu, calls(after))];
+    if (gas[0] !== gas[1] || hcu[0] !== hcu[1]) {
+      deltas.push({ scope, name, gas, hcu });
+    }
+  };
+  for (const [name, totals] of sortedEntries(current.functions)) {
+    compare("function", baseline.functions[name], totals, name);
+  }
+  for (const [name, totals] of sortedEntries(current.tests)) {
+    compare("test", baseline.tests[name], totals, name);
+  }
+  return deltas;
+}
+
+export function formatProfileDiff(deltas: ProfileDelta[]): string {
+  if (deltas.length === 0) {
+    return "No gas or HCU changes since the baseline";
+  }
+  const lines = [row("Changed since baseline", "Gas", "Δ gas", "HCU", "Δ HCU")];
+  for (const { scope, name, gas, hcu } of deltas) {
+    lines.push(row(`${scope} ${name}`, gas[1], change(gas), hcu[1], change(hcu)));
+  }
+  return lines.join("\n");
+}
+
+function emptyTotals(): CostTotals {
+  return { calls: 0, gas: 0, hcu: 0, maxGas: 0, maxHcu: 0 };
+}
+
+function addTotals(totals: CostTotals, tx: TransactionProfile): void {
+  totals.calls++;
+  totals.gas += tx.gasUsed;
+  totals.hcu += tx.hcu;
+  totals.maxGas = Math.max(totals.maxGas, tx.gasUsed);
+  totals.maxHcu = Math.max(totals.maxHcu, tx.hcu);
+}
+
+function average(total: number, count: number): number {
+  return count === 0 ? 0 : Math.round(total / count);
+}
+
+function change([before, after]: [number, number]): string {
+  if (before === 0) {
+    return after === 0 ? "0" : "new";
+  }
+  const percent = ((after - before) / before) * 100;
+  return `${after >= before ? "+" : ""}${after - before} (${percent.toFixed(1)}%)`;
+}
+
+function sortedEntries<T>(record: Record<string, T>): [string, T][] {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+}
+
+function row(name: string, ...columns: (string | number)[]): string {
+  return name.padEnd(48) + columns.map((c) => ` ${String(c).padStart(13)}`).join("");
+}
@@ -0,0 +1,183 @@
+import { ethers } from "ethers";
+import fs from "fs";
+import path from "path";
+import { TASK_TEST_RUN_MOCHA_TESTS } from "hardhat/builtin-tasks/task-names";
+import { extendConfig, extendProvider, subtask } from "hardhat/config";
+import { ProviderWrapper } from "hardhat/plugins";
+import type { EIP1193Provider, HardhatRuntimeEnvironment, RequestArguments } from "hardhat/types";
+import { RawLog, parseExecutorCalls } from "./executor";
+import {
+  Budget,
+  GasProfiler,
+  ProfileReport,
+  checkBudget,
+  diffProfiles,
+  formatProfile,
+  formatProfileDiff,
+  profileTransaction,
+} from "./profiler";
+
+// Profiles gas and HCU of `hardhat test` in mock mode; imported from hardhat.config.ts.
+
+export interface FheProfilerUserConfig {
+  // Defaults to true when FHE_PROFILE is set.
+  enabled?: boolean;
+  // Keyed by contract function name; `*` applies to every other transaction.
+  budgets?: Record<string, Budget>;
+  outputFile?: string;
+  // Profile to diff against; FHE_PROFILE_UPDATE_BASELINE=1 overwrites it with the current run.
+  baseline?: string;
+}
+
+export interface FheProfilerConfig {
+  enabled: boolean;
+  budgets: Record<string, Budget>;
+  outputFile: string;
+  baseline: string;
+}
+
+declare module "hardhat/types/config" {
+  interface HardhatUserConfig {
+    fheProfiler?: FheProfilerUserConfig;
+  }
+
+  interface HardhatConfig {
+    fheProfiler: FheProfilerConfig;
+  }
+}
+
+// What a transaction is attributed to and checked against, besides its receipt.
+export interface ProfilerContext {
+  budgets: Record<string, Budget>;
+  // Function names by selector.
+  functionNames: Map<string, string>;
+  // Full title of the running test.
+  currentTest(): string;
+}
+
+const profiler = new GasProfiler();
+// Full title of the running test, set by root hooks; transactions sent from `before` hooks belong to none.
+let currentTest = "(outside tests)";
+// Function names by selector, for every compiled contract; filled before the tests run.
+const functionNames = new Map<string, string>();
+
+/** Records the gas and HCU of every transaction sent through `provider`, and fails those over their budget. */
+export class TransactionProfiler extends ProviderWrapper {
+  constructor(
+    provider: EIP1193Provider,
+    private readonly profiler: GasProfiler,
+    private readonly context: ProfilerContext,
+  ) {
+    super(provider);
+  }
+
+  async request(args: RequestArguments): Promise<unknown> {
+    const result = await this._wrappedProvider.request(args);
+    if (args.method !== "eth_sendTransaction" && args.method !== "eth_sendRawTransaction") {
+      return result;
+    }
+    const receipt = (await this._wrappedProvider.request({
+      method: "eth_getTransactionReceipt",
+      params: [result],
+    })) as { logs: RawLog[]; gasUsed: string } | null;
+    if (receipt === null) {
+      return result;
+    }
+    const [param] = this._getParams(args);
+    const { to, data } =
+      args.method === "eth_sendTransaction"
+        ? (param as { to?: string; data?: string })
+        : ethers.Transaction.from(param);
+    const { budgets, functionNames } = this.context;
+    const functionName = to ? (functionNames.get((data ?? "0x").slice(0, 10)) ?? "(unknown)") : "(deploy)";
+    const profile = profileTransaction(
+      this.context.currentTest(),
+      functionName,
+      result as string,
+      Number(receipt.gasUsed),
+      parseExecutorCalls(receipt.logs),
+    );
+    this.profiler.record(profile);
+    checkBudget(profile, budgets[functionName] ?? budgets["*"] ?? {});
+    return result;
+  }
+}
+
+extendConfig((config, userConfig) => {
+  const user = userConfig.fheProfiler ?? {};
+  config.fheProfiler = {
+    enabled: user.enabled ?? !!process.env.FHE_PROFILE,
+    budgets: user.budgets ?? {},
+    outputFile: path.resolve(config.paths.root, user.outputFile ?? "reports/fhe-profile.json"),
+    baseline: path.resolve(config.paths.root, user.baseline ?? "reports/fhe-profile.baseline.json"),
+  };
+});
+
+extendProvider(async (provider: EIP1193Provider, config, network) => {
+  if (!config.fheProfiler.enabled || network !== "hardhat") {
+    return provider;
+  }
+  return new TransactionProfiler(provider, profiler, {
+    budgets: config.fheProfiler.budgets,
+    functionNames,
+    currentTest: () => currentTest,
+  });
+});
+
+subtask(TASK_TEST_RUN_MOCHA_TESTS).setAction(async (args, hre, runSuper) => {
+  const { enabled, outputFile, baseline } = hre.config.fheProfiler;
+  if (!enabled || hre.network.name !== "hardhat") {
+    return runSuper(args);
+  }
+
+  for (const [selector, name] of await loadFunctionNames(hre)) {
+    functionNames.set(selector, name);
+  }
+  // Runs alongside the root hooks the project configured, which keep running first.
+  const rootHooks = hre.config.mocha.rootHooks ?? {};
+  hre.config.mocha.rootHooks = {
+    ...rootHooks,
+    beforeEach: [
+      ...hookList(rootHooks.beforeEach),
+      function (this: Mocha.Context) {
+        currentTest = this.currentTest?.fullTitle() ?? currentTest;
+      },
+    ],
+    afterEach: [
+      ...hookList(rootHooks.afterEach),
+      () => {
+        currentTest = "(outside tests)";
+      },
+    ],
+  };
+  const failures: number = await runSuper(args);
+
+  const report = profiler.report();
+  console.log(`\n${formatProfile(report)}`);
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, JSON.stringify(report, null, 2));
+  console.log(`Written to ${path.relative(hre.config.paths.root, outputFile)}`);
+  if (process.env.FHE_PROFILE_UPDATE_BASELINE) {
+    fs.mkdirSync(path.dirname(baseline), { recursive: true });
+    fs.writeFileSync(baseline, JSON.stringify(report, null, 2));
+    console.log(`\nBaseline written to ${path.relative(hre.config.paths.root, baseline)}`);
+  } else if (fs.existsSync(baseline)) {
+    const previous: ProfileReport = JSON.parse(fs.readFileSync(baseline, "utf8"));
+    console.log(`\n${formatProfileDiff(diffProfiles(previous, report))}`);
+  }
+  return failures;
+});
+
+async function loadFunctionNames(hre: HardhatRuntimeEnvironment): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name);
+    new ethers.Interface(abi).forEachFunction((fn) => names.set(fn.selector, fn.name));
+  }
+  return names;
+}
+
+// A root hook option is one function or a list of them.
+function hookList(hook: Mocha.Func | Mocha.AsyncFunc | Mocha.Func[] | Mocha.AsyncFunc[] | undefined): Mocha.Func[] {
+  return (hook === undefined ? [] : Array.isArray(hook) ? hook : [hook]) as Mocha.Func[];
+}
@@ -0,0 +1,208 @@
+import { ethers } from "ethers";
+import type { FHETestFramework } from "../types/contracts/FHETestFramework";
+import { toRevealedValue } from "./cleartexts";
+import { timeDecryption } from "./decryptionLog";
+import { ClearValue } from "./fheTypes";
+import { formatClearValue } from "./handles";
+import type { LocalDecryptionOracle } from "./oracle";
+
+// Where a reveal got stuck when `awaitReveal` gave up.
+export type RevealStage = "not-requested" | "pending" | "callback-failed";
+
+export interface AwaitRevealOptions {
+  // How long to wait for `ValueRevealed`; defaults to 30s on the hardhat network and 5 minutes elsewhere.
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  // First block searched for the value's events when diagnosing a timeout; defaults to the head when the call starts.
+  fromBlock?: number;
+  // Local oracle to drive on every poll when running against the hardhat mock.
+  oracle?: LocalDecryptionOracle;
+}
+
+/** Rejection of `awaitReveal`, saying how far the reveal went. */
+export class RevealTimeoutError extends Error {
+  constructor(
+    readonly id: bigint,
+    readonly stage: RevealStage,
+    readonly requestIds: bigint[],
+    readonly reason?: string,
+  ) {
+    super(`Value ${id} was not revealed: ${describeStage(stage, requestIds, reason)}`);
+    this.name = "RevealTimeoutError";
+  }
+}
+
+// A value decryption the oracle did not answer before its deadline.
+export interface StuckReveal {
+  id: bigint;
+  requestId: bigint;
+  // Unix timestamp, in seconds.
+  deadline: bigint;
+  overdueSeconds: bigint;
+}
+
+/**
+ * Wait for the decryption of a stored value, following its `DecryptionRequested` and `ValueRevealed` events,
+ * and resolve with the typed cleartext. Works against the hardhat mock (with `oracle`) and against Sepolia.
+ */
+export async function awaitReveal(
+  framework: FHETestFramework,
+  id: bigint | number,
+  options: AwaitRevealOptions = {},
+): Promise<ClearValue> {
+  const valueId = BigInt(id);
+  return timeDecryption(`value ${valueId}`, () => pollReveal(framework, valueId, options), formatClearValue);
+}
+
+async function pollReveal(
+  framework: FHETestFramework,
+  valueId: bigint,
+  options: AwaitRevealOptions,
+): Promise<ClearValue> {
+  const provider = requireProvider(framework);
+  const local = (await provider.getNetwork()).chainId === 31337n;
+  const timeoutMs = options.timeoutMs ?? (local ? 30_000 : 300_000);
+  const pollIntervalMs = options.pollIntervalMs ?? (local ? 50 : 4_000);
+  const fromBlock = options.fromBlock ?? (await provider.getBlockNumber());
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    await options.oracle?.fulfill();
+
+    const clear = toRevealedValue(await framework.getClearValue(valueId));
+    if (clear.revealed) {
+      return clear.value;
+    }
+    if (Date.now() > deadline) {
+      throw await diagnose(framework, valueId, fromBlock, options.oracle);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+/**
+ * Value decryptions still pending past their deadline, most overdue first. They can be cancelled or retried.
+ * Requests are searched from `fromBlock`, normally the block the framework was deployed in.
+ */
+export async function findStuckReveals(
+  framework: FHETestFramework,
+  { fromBlock }: { fromBlock: number },
+): Promise<StuckReveal[]> {
+  const latest = await requireProvider(framework).getBlock("latest");
+  const now = BigInt(latest!.timestamp);
+  const requests = await framework.queryFilter(framework.filters.DecryptionRequested(), fromBlock);
+  const stuck: StuckReveal[] = [];
+  for (const id of new Set(requests.map((e) => e.args.id))) {
+    const { requestId, deadline } = await framework.pendingDecryptions(id);
+    if (deadline !== 0n && deadline < now) {
+      stuck.push({ id, requestId, deadline, overdueSeconds: now - deadline });
+    }
+  }
+  return stuck.sort((a, b) => (a.overdueSeconds > b.overdueSeconds ? -1 : 1));
+}
+
+export function formatStuckReveals(stuck: StuckReveal[]): string {
+  if (stuck.length === 0) {
+    return "No stuck reveals";
+  }
+  const lines = stuck.map(
+    ({ id, requestId, overdueSeconds }) =>
+      `  value ${id}: request ${requestId} is ${overdueSeconds}s past its deadline`,
+  );
+  return [
+    `${stuck.length} stuck reveal(s):`,
+    ...lines,
+    "Cancel with cancelValueDecryption or re-request with retryValueDecryption",
+  ].join("\n");
+}
+
+// Find out whether the value was never requested, is still waiting for the oracle, or had its callback revert.
+async function diagnose(
+  framework: FHETestFramework,
+  id: bigint,
+  fromBlock: number,
+  oracle: LocalDecryptionOracle | undefined,
+): Promise<RevealTimeoutError> {
+  const requests = await framework.queryFilter(framework.filters.DecryptionRequested(id), fromBlock);
+  const requestIds = requests.map((e) => e.args.requestId);
+  if (requestIds.length === 0) {
+    // Requested before `fromBlock`: the framework still knows the pending request.
+    const { requestId, deadline } = await framework.pendingDecryptions(id);
+    if (deadline === 0n) {
+      return new RevealTimeoutError(id, "not-requested", requestIds);
+    }
+    requestIds.push(requestId);
+  }
+
+  const failure = oracle
+    ? oracle.deliveries.find((d) => d.reverted && requestIds.includes(d.request.requestID))?.reason
+    : await failedCallback(framework, requestIds, requests[0]?.blockNumber ?? fromBlock);
+  if (failure !== undefined) {
+    return new RevealTimeoutError(id, "callback-failed", requestIds, failure);
+  }
+  return new RevealTimeoutError(id, "pending", requestIds);
+}
+
+// Look for a reverted `handleDecryption` transaction for one of the requests, from the first request on.
+async function failedCallback(
+  framework: FHETestFramework,
+  requestIds: bigint[],
+  fromBlock: number,
+): Promise<string | undefined> {
+  const provider = requireProvider(framework);
+  const address = (await framework.getAddress()).toLowerCase();
+  const callback = framework.interface.getFunction("handleDecryption");
+  const head = await provider.getBlockNumber();
+
+  for (let n = fromBlock; n <= head; n++) {
+    const block = await provider.getBlock(n, true);
+    for (const tx of block?.prefetchedTransactions ?? []) {
+      if (tx.to?.toLowerCase() !== address || !tx.data.startsWith(callback.selector)) {
+        continue;
+      }
+      const [requestId] = framework.interface.decodeFunctionData(callback, tx.data);
+      if (!requestIds.includes(requestId as bigint)) {
+        continue;
+      }
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (receipt?.status === 0) {
+        return `callback ${tx.hash} reverted${await replayReason(provider, tx, n)}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Revert reason of a mined transaction, recovered by replaying it on the state it ran against.
+async function replayReason(
+  provider: ethers.Provider,
+  tx: ethers.TransactionResponse,
+  blockNumber: number,
+): Promise<string> {
+  try {
+    await provider.call({ to: tx.to, from: tx.from, data: tx.data, blockTag: blockNumber - 1 });
+    return "";
+  } catch (e) {
+    const error = e as { reason?: string; shortMessage?: string };
+    return `: ${error.reason ?? error.shortMessage ?? String(e)}`;
+  }
+}
+
+function describeStage(stage: RevealStage, requestIds: bigint[], reason?: string): string {
+  switch (stage) {
+    case "not-requested":
+      return "decryption was never requested (no DecryptionRequested event)";
+    case "pending":
+      return `request ${requestIds.join(", ")} is still pending at the decryption oracle`;
+    case "callback-failed":
+      return `the oracle callback for request ${requestIds.join(", ")} failed: ${reason}`;
+  }
+}
+
+function requireProvider(framework: FHETestFramework): ethers.Provider {
+  const provider = framework.runner?.provider;
+  if (!provider) {
+    throw new Error("FHETestFramework must be connected to a provider");
+  }
+  return provider;
+}
@@ -0,0 +1,194 @@
+import fs from "fs";
+import Mocha from "mocha";
+import path from "path";
+import { DecryptionRecord, onDecryption } from "./decryptionLog";
+
+// Machine-readable reports of an `fhe:test` run.
+
+export type ReportFormat = "junit" | "json" | "tap";
+
+export const REPORT_FORMATS: ReportFormat[] = ["junit", "json", "tap"];
+
+export interface TestResult {
+  title: string;
+  fullTitle: string;
+  file: string;
+  state: "passed" | "failed" | "skipped";
+  durationMs: number;
+  error?: { message: string; stack?: string };
+  // Values are only kept for failed tests, to show what the encrypted assertions actually revealed.
+  decryptions: (Omit<DecryptionRecord, "value"> & { value?: string })[];
+}
+
+export interface TestRunReport {
+  mode: string;
+  stats: { tests: number; passed: number; failed: number; skipped: number; durationMs: number };
+  tests: TestResult[];
+}
+
+export interface FheReporterOptions {
+  formats: ReportFormat[];
+  outputDir: string;
+  mode: string;
+}
+
+const FILE_NAMES: Record<ReportFormat, string> = {
+  junit: "junit.xml",
+  json: "results.json",
+  tap: "results.tap",
+};
+
+/** Spec output on the console, plus the reports in `reporterOption.formats` written on completion. */
+export class FheTestReporter extends Mocha.reporters.Spec {
+  constructor(runner: Mocha.Runner, options: Mocha.MochaOptions & { reporterOption?: FheReporterOptions }) {
+    super(runner, options);
+    const { formats, outputDir, mode } = options.reporterOption ?? (options.reporterOptions as FheReporterOptions);
+    const { EVENT_TEST_BEGIN, EVENT_TEST_PASS, EVENT_TEST_FAIL, EVENT_TEST_PENDING, EVENT_RUN_END } =
+      Mocha.Runner.constants;
+    const started = Date.now();
+    const tests: TestResult[] = [];
+    let decryptions: DecryptionRecord[] = [];
+    const unsubscribe = onDecryption((record) => decryptions.push(record));
+
+    const record = (test: Mocha.Runnable, state: TestResult["state"], err?: Error) => {
+      tests.push({
+        title: test.title,
+        fullTitle: test.fullTitle(),
+        file: path.relative(process.cwd(), test.file ?? ""),
+        state,
+        durationMs: test.duration ?? 0,
+        error: err && { message: err.message, stack: err.stack },
+        decryptions: decryptions.map(({ value, ...rest }) => (state === "failed" ? { ...rest, value } : rest)),
+      });
+      decryptions = [];
+    };
+    runner.on(EVENT_TEST_BEGIN, () => {
+      decryptions = [];
+    });
+    runner.on(EVENT_TEST_PASS, (test) => record(test, "passed"));
+    runner.on(EVENT_TEST_FAIL, (test, err) => record(test, "failed", err));
+    runner.on(EVENT_TEST_PENDING, (test) => record(test, "skipped"));
+    runner.once(EVENT_RUN_END, () => {
+      unsubscribe();
+      const report = summarize(mode, tests, Date.now() - started);
+      writeReports(report, formats, outputDir);
+    });
+  }
+}
+
+export function summarize(mode: string, tests: TestResult[], durationMs: number): TestRunReport {
+  const count = (state: TestResult["state"]) => tests.filter((t) => t.state === state).length;
+  return {
+    mode,
+    stats: {
+      tests: tests.length,
+      passed: count("passed"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      durationMs,
+    },
+    tests,
+  };
+}
+
+export function writeReports(report: TestRunReport, formats: ReportFormat[], outputDir: string): void {
+  fs.mkdirSync(outputDir, { recursive: true });
+  for (const format of formats) {
+    const content = format === "junit" ? toJUnit(report) : format === "tap" ? toTap(report) : toJson(report);
+    fs.writeFileSync(path.join(outputDir, FILE_NAMES[format]), content);
+  }
+}
+
+export function toJson(report: TestRunReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/** One `<testsuite>` per test file; decryptions go to `<system-out>`. */
+export function toJUnit(report: TestRunReport): string {
+  const files = new Map<string, TestResult[]>();
+  for (const test of report.tests) {
+    files.set(test.file, [...(files.get(test.file) ?? []), test]);
+  }
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="fhe:test (${xml(report.mode)})" tests="${report.stats.tests}" ` +
+      `failures="${report.stats.failed}" skipped="${report.stats.skipped}" time="${seconds(report.stats.durationMs)}">`,
+  ];
+  for (const [file, tests] of files) {
+    const failures = tests.filter((t) => t.state === "failed").length;
+    const skipped = tests.filter((t) => t.state === "skipped").length;
+    const time = tests.reduce((sum, t) => sum + t.durationMs, 0);
+    lines.push(
+      `  <testsuite name="${xml(file)}" tests="${tests.length}" failures="${failures}" skipped="${skipped}" ` +
+        `time="${seconds(time)}">`,
+    );
+    for (const test of tests) {
+      const classname = test.fullTitle.slice(0, test.fullTitle.length - test.title.length).trim();
+      lines.push(
+        `    <testcase classname="${xml(classname)}" name="${xml(test.title)}" time="${seconds(test.durationMs)}">`,
+      );
+      if (test.state === "skipped") {
+        lines.push(`      <skipped/>`);
+      }
+      if (test.error) {
+        lines.push(
+          `      <failure message="${xml(test.error.message)}">${xml(test.error.stack ?? test.error.message)}</failure>`,
+        );
+      }
+      if (test.decryptions.length > 0) {
+        lines.push(`      <system-out>${xml(test.decryptions.map(describeDecryption).join("\n"))}</system-out>`);
+      }
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`, "");
+  return lines.join("\n");
+}
+
+/** TAP version 13, with failures and decryptions in YAML diagnostics. */
+export function toTap(report: TestRunReport): string {
+  const lines = ["TAP version 13", `1..${report.tests.length}`];
+  report.tests.forEach((test, i) => {
+    const status = test.state === "failed" ? "not ok" : "ok";
+    lines.push(
+      `${status} ${i + 1} - ${test.fullTitle.replace(/#/g, "\\#")}${test.state === "skipped" ? " # SKIP" : ""}`,
+    );
+    if (test.error === undefined && test.decryptions.length === 0) {
+      return;
+    }
+    lines.push("  ---", `  duration_ms: ${test.durationMs}`);
+    if (test.error) {
+      lines.push(`  message: ${JSON.stringify(test.error.message)}`);
+    }
+    if (test.decryptions.length > 0) {
+      lines.push("  decryptions:");
+      for (const d of test.decryptions) {
+        lines.push(`    - subject: ${JSON.stringify(d.subject)}`, `      duration_ms: ${d.durationMs}`);
+        if (d.value !== undefined) {
+          lines.push(`      value: ${JSON.stringify(d.value)}`);
+        }
+      }
+    }
+    lines.push("  ...");
+  });
+  lines.push("");
+  return lines.join("\n");
+}
+
+function describeDecryption(d: TestResult["decryptions"][number]): string {
+  return `decrypted ${d.subject}${d.value === undefined ? "" : ` = ${d.value}`} in ${d.durationMs}ms`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
@@ -0,0 +1,92 @@
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { encodeClearWord } from "./cleartexts";
+import { ClearValue, FheType, typeName } from "./fheTypes";
+import { decryptHandle } from "./handles";
+
+// Encrypted types FHETestFramework can store, with the entry point that submits each of them.
+const SUBMIT_FUNCTIONS: Partial<Record<FheType, string>> = {
+  [FheType.Bool]: "submitEncryptedBool",
+  [FheType.Uint8]: "submitEncryptedUint8",
+  [FheType.Uint16]: "submitEncryptedUint16",
+  [FheType.Uint32]: "submitEncryptedValue",
+  [FheType.Uint64]: "submitEncryptedUint64",
+  [FheType.Uint128]: "submitEncryptedUint128",
+  [FheType.Uint256]: "submitEncryptedUint256",
+  [FheType.Uint160]: "submitEncryptedAddress",
+};
+
+/** Types `submitValue` can store, in `FheType` order. */
+export const SUBMITTABLE_TYPES: FheType[] = Object.keys(SUBMIT_FUNCTIONS).map(Number);
+
+// A value stored in FHETestFramework.
+export interface SubmittedValue {
+  id: bigint;
+  type: FheType;
+  handle: string;
+}
+
+/**
+ * Send a transaction and return what the called function returns, read beforehand with a static call.
+ * Fine for FHE results: handles of trivial encryptions and operations do not depend on the block.
+ */
+export async function sendAndReturn<T>(contract: ethers.BaseContract, name: string, args: unknown[]): Promise<T> {
+  const fn = contract.getFunction(name);
+  const result = (await fn.staticCall(...args)) as T;
+  await (await fn.send(...args)).wait();
+  return result;
+}
+
+/** Trivially encrypt a plaintext of the given type through `mockEncrypted`; returns the handle. */
+export async function mockEncrypt(
+  framework: ethers.BaseContract,
+  type: FheType,
+  value: ClearValue | number,
+): Promise<string> {
+  return sendAndReturn<string>(framework, "mockEncrypted", [type, encodeClearWord(type, value)]);
+}
+
+/** Store a handle through the `submitEncrypted*` entry point of its type; returns the new value id. */
+export async function submitValue(framework: ethers.BaseContract, type: FheType, handle: string): Promise<bigint> {
+  const name = SUBMIT_FUNCTIONS[type];
+  if (name === undefined) {
+    throw new Error(`FHETestFramework cannot store ${typeName(type)} values`);
+  }
+  return submittedId(framework, await framework.getFunction(name).send(handle));
+}
+
+/** Id of the value stored by a submit transaction, read from its `ValueSubmitted` event. */
+export async function submittedId(
+  framework: ethers.BaseContract,
+  tx: ethers.ContractTransactionResponse,
+): Promise<bigint> {
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = framework.interface.parseLog(log);
+    if (parsed?.name === "ValueSubmitted") {
+      return parsed.args.id as bigint;
+    }
+  }
+  throw new Error(`No ValueSubmitted event in transaction ${tx.hash}`);
+}
+
+/** Encrypt and submit in one go. */
+export async function encryptAndSubmit(
+  framework: ethers.BaseContract,
+  type: FheType,
+  value: ClearValue | number,
+): Promise<SubmittedValue> {
+  const handle = await mockEncrypt(framework, type, value);
+  const id = await submitValue(framework, type, handle);
+  return { id, type, handle };
+}
+
+/** Decrypt a stored value in mock mode, without going through the decryption oracle. */
+export async function decryptValue(
+  hre: HardhatRuntimeEnvironment,
+  framework: ethers.BaseContract,
+  id: bigint | number,
+): Promise<ClearValue> {
+  const [, handle] = await framework.getFunction("encryptedValues").staticCall(id);
+  return decryptHandle(hre, handle as string);
+}
@@ -0,0 +1,37 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { decodeHandle } from "../src/handles";
+import { formatInspection, HandleInspection, inspectHandle } from "../src/inspector";
+
+task(
+  "fhe:inspect",
+  "Decodes a ciphertext handle; against the mock also shows its origin, plaintext and ACL entries. " +
+    "The in-process hardhat network starts empty from the command line: use --network localhost, or hre.run it from a test",
+)
+  .addPositionalParam("handle", "bytes32 handle, 0x-prefixed")
+  .addOptionalParam("fromBlock", "First block searched for the handle's producing call and ACL grants", 0, types.int)
+  .addFlag("json", "Print the inspection as JSON")
+  .setAction(async (args, hre) => {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(args.handle)) {
+      throw new HardhatPluginError("fhe:inspect", `Expected a 0x-prefixed bytes32 handle, got "${args.handle}"`);
+    }
+    // Run from the command line, the in-process network starts empty: only what the handle itself encodes is known.
+    // Through `hre.run` from a test or script, it is their chain, and the mock decrypts it like a node's.
+    const empty = hre.network.name === "hardhat" && (await hre.ethers.provider.getBlockNumber()) === 0;
+    if (!empty) {
+      await hre.fhevm.initializeCLIApi();
+    }
+    const inspection: HandleInspection = empty
+      ? decodeHandle(args.handle)
+      : await inspectHandle(hre, args.handle, { fromBlock: args.fromBlock });
+    if (args.json) {
+      console.log(JSON.stringify(inspection, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+      return;
+    }
+    console.log(formatInspection(inspection));
+    if (empty) {
+      console.log(
+        "\nRun against `npx hardhat node` with --network localhost for its origin, plaintext and ACL entries",
+      );
+    }
+  });
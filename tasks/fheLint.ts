@@ -0,0 +1,74 @@
+import path from "path";
+import { TASK_COMPILE } from "hardhat/builtin-tasks/task-names";
+import { extendConfig, task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { AstNode, LINT_RULES, LintRuleId, LintSeverity, LintSource, lintSources } from "../src/fheLint";
+
+export interface FheLintUserConfig {
+  // Severity by rule id, like the `rules` of a .solhint.json.
+  rules?: Partial<Record<LintRuleId, LintSeverity>>;
+}
+
+declare module "hardhat/types/config" {
+  interface HardhatUserConfig {
+    fheLint?: FheLintUserConfig;
+  }
+
+  interface HardhatConfig {
+    fheLint: Required<FheLintUserConfig>;
+  }
+}
+
+// Output formats shared with solhint, which does the formatting.
+const FORMATTERS = ["stylish", "unix", "compact", "json", "table", "tap", "sarif"];
+
+extendConfig((config, userConfig) => {
+  config.fheLint = { rules: { ...userConfig.fheLint?.rules } };
+});
+
+task("fhe:lint", "Checks the contracts for missing ACL grants and unprotected decryption callbacks")
+  .addOptionalParam("formatter", `Report format: ${FORMATTERS.join(", ")}`, "stylish")
+  .addOptionalParam("maxWarnings", "Fail when there are more warnings than this", undefined, types.int)
+  .setAction(async (args, hre) => {
+    if (!FORMATTERS.includes(args.formatter)) {
+      throw new HardhatPluginError("fhe:lint", `Unknown formatter "${args.formatter}"`);
+    }
+    for (const ruleId of Object.keys(hre.config.fheLint.rules)) {
+      if (!(ruleId in LINT_RULES)) {
+        throw new HardhatPluginError("fhe:lint", `Unknown rule "${ruleId}" in fheLint.rules`);
+      }
+    }
+    await hre.run(TASK_COMPILE, { quiet: true });
+
+    // Every source of the project's compilations, so helpers in imported files are understood too. A source is taken
+    // from the build of its own artifacts when there is one: older builds that imported it may hold stale contents.
+    const sources = new Map<string, LintSource>();
+    for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+      const buildInfo = await hre.artifacts.getBuildInfo(name);
+      const own = name.slice(0, name.lastIndexOf(":"));
+      for (const [sourceName, output] of Object.entries(buildInfo?.output.sources ?? {})) {
+        if (!sources.has(sourceName) || sourceName === own) {
+          sources.set(sourceName, {
+            filePath: sourceName,
+            content: buildInfo!.input.sources[sourceName].content,
+            ast: output.ast as AstNode,
+          });
+        }
+      }
+    }
+    const results = lintSources([...sources.values()], hre.config.fheLint.rules).filter((result) =>
+      path.resolve(hre.config.paths.root, result.filePath).startsWith(hre.config.paths.sources + path.sep),
+    );
+
+    const format = require(`solhint/lib/formatters/${args.formatter}`) as (results: unknown[]) => string;
+    const output = format(results);
+    if (output) {
+      console.log(output);
+    }
+
+    const errors = results.reduce((sum, r) => sum + r.errorCount, 0);
+    const warnings = results.reduce((sum, r) => sum + r.warningCount, 0);
+    if (errors > 0 || (args.maxWarnings !== undefined && warnings > args.maxWarnings)) {
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,129 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import {
+  applyMutant,
+  describeMutant,
+  formatMutationReport,
+  generateMutants,
+  MutantResult,
+  MutantStatus,
+  summarizeMutations,
+} from "../src/mutation";
+
+task("fhe:mutate", "Mutates FHE calls and comparisons in the contracts and reports the mutants the tests let survive")
+  .addOptionalParam("contracts", "Comma-separated source files to mutate; defaults to the top-level contracts")
+  .addOptionalParam("functions", "Only mutate these comma-separated functions")
+  .addOptionalParam("output", "JSON report path", "reports/fhe-mutation.json")
+  .addOptionalParam("timeout", "Seconds a test run may take before its mutant counts as killed", 600, types.int)
+  .addOptionalParam("threshold", "Fail when the mutation score is below this percentage", undefined, types.float)
+  .addOptionalVariadicPositionalParam("testFiles", "Test files to run; defaults to the whole suite", [], types.string)
+  .setAction(async (args, hre) => {
+    const root = hre.config.paths.root;
+    const files: string[] = args.contracts
+      ? (args.contracts as string).split(",").map((file) => path.resolve(root, file.trim()))
+      : fs
+          .readdirSync(hre.config.paths.sources)
+          .filter((file) => file.endsWith(".sol"))
+          .map((file) => path.join(hre.config.paths.sources, file));
+    const functions = args.functions ? (args.functions as string).split(",").map((f) => f.trim()) : undefined;
+
+    const originals = new Map(files.map((file) => [file, fs.readFileSync(file, "utf8")]));
+    const mutants = files.flatMap((file) =>
+      generateMutants(path.relative(root, file), originals.get(file)!).filter(
+        (mutant) => functions === undefined || functions.includes(mutant.function),
+      ),
+    );
+    if (mutants.length === 0) {
+      console.log("No mutants to run");
+      return;
+    }
+    const tests: string[] =
+      args.testFiles.length > 0
+        ? args.testFiles
+        : fs.existsSync(hre.config.paths.tests)
+          ? (fs.readdirSync(hre.config.paths.tests, { recursive: true }) as string[]).filter((file) =>
+              /\.(c|m)?[jt]s$/.test(file),
+            )
+          : [];
+    if (tests.length === 0) {
+      // Every mutant would survive an empty suite.
+      throw new HardhatPluginError("fhe:mutate", "There are no tests to run against the mutants");
+    }
+
+    // Each run is a fresh hardhat process, so that both the compiler and the fhevm mock start from the mutated source.
+    const cli = require.resolve("hardhat/internal/cli/cli");
+    const hardhat = (command: string[]) =>
+      spawnSync(process.execPath, [cli, "--config", hre.config.paths.configFile, "--network", "hardhat", ...command], {
+        cwd: root,
+        stdio: "ignore",
+        timeout: args.timeout * 1000,
+      });
+    const run = (): MutantStatus => {
+      if (hardhat(["compile", "--quiet"]).status !== 0) {
+        return "invalid";
+      }
+      const result = hardhat(["test", "--no-compile", "--bail", ...args.testFiles]);
+      if (result.error !== undefined) {
+        return "timeout";
+      }
+      return result.status === 0 ? "survived" : "killed";
+    };
+    // The compiles rewrite build outputs the repository tracks: keep a copy to put back once the mutants have run.
+    const backup = fs.mkdtempSync(path.join(os.tmpdir(), "fhe-mutate-"));
+    const outputs = [
+      hre.config.paths.artifacts,
+      hre.config.paths.cache,
+      path.resolve(root, hre.config.typechain.outDir),
+      path.join(root, "fhevmTemp"),
+    ].map((dir, i) => ({ dir, copy: fs.existsSync(dir) ? path.join(backup, String(i)) : undefined }));
+    outputs.forEach(({ dir, copy }) => copy && fs.cpSync(dir, copy, { recursive: true }));
+    const restore = () => {
+      originals.forEach((source, file) => fs.writeFileSync(file, source));
+      for (const { dir, copy } of outputs) {
+        fs.rmSync(dir, { recursive: true, force: true });
+        if (copy !== undefined) {
+          fs.cpSync(copy, dir, { recursive: true });
+        }
+      }
+    };
+    const interrupted = () => {
+      restore();
+      process.exit(130);
+    };
+
+    process.once("SIGINT", interrupted);
+    const results: MutantResult[] = [];
+    try {
+      console.log(`Running the tests on the unmutated contracts`);
+      if (run() !== "survived") {
+        throw new HardhatPluginError("fhe:mutate", "The tests must pass on the unmutated contracts");
+      }
+      for (const [i, mutant] of mutants.entries()) {
+        const file = path.resolve(root, mutant.file);
+        fs.writeFileSync(file, applyMutant(originals.get(file)!, mutant));
+        const status = run();
+        fs.writeFileSync(file, originals.get(file)!);
+        results.push({ mutant, status });
+        console.log(`[${i + 1}/${mutants.length}] ${status.padEnd(8)} ${describeMutant(mutant)}`);
+      }
+    } finally {
+      restore();
+      process.removeListener("SIGINT", interrupted);
+      fs.rmSync(backup, { recursive: true, force: true });
+    }
+
+    const report = summarizeMutations(results);
+    console.log(`\n${formatMutationReport(report)}`);
+    const output = path.resolve(root, args.output);
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    fs.writeFileSync(output, JSON.stringify(report, null, 2));
+
+    if (args.threshold !== undefined && (report.score ?? 0) < args.threshold) {
+      console.log(`Mutation score ${report.score}% is below the ${args.threshold}% threshold`);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,26 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import { findStuckReveals, formatStuckReveals } from "../src/reveal";
+
+task("fhe:stuck-reveals", "Lists value decryptions the oracle did not answer before their deadline")
+  .addParam("address", "Address of the FHETestFramework")
+  .addParam("fromBlock", "Block the framework was deployed in; requests are searched from there", undefined, types.int)
+  .addFlag("json", "Print the report as JSON")
+  .setAction(async (args, hre) => {
+    if (!hre.ethers.isAddress(args.address)) {
+      throw new HardhatPluginError("fhe:stuck-reveals", `Invalid address "${args.address}"`);
+    }
+    if (args.fromBlock < 0) {
+      throw new HardhatPluginError("fhe:stuck-reveals", `Invalid block ${args.fromBlock}`);
+    }
+    const framework = await hre.ethers.getContractAt("FHETestFramework", args.address);
+    const stuck = await findStuckReveals(framework, { fromBlock: args.fromBlock });
+    console.log(
+      args.json
+        ? JSON.stringify(stuck, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2)
+        : formatStuckReveals(stuck),
+    );
+    if (stuck.length > 0) {
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,88 @@
+import { spawnSync } from "child_process";
+import path from "path";
+import { TASK_TEST } from "hardhat/builtin-tasks/task-names";
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { TaskArguments } from "hardhat/types";
+import { FheTestReporter, REPORT_FORMATS, ReportFormat } from "../src/testReports";
+
+// Network each mode runs against.
+const MODE_NETWORKS: Record<string, string> = {
+  mock: "hardhat",
+  sepolia: "sepolia",
+};
+
+task("fhe:test", "Runs the tests against the fhevm mock or Sepolia and writes JUnit, JSON and TAP reports")
+  .addOptionalParam("grep", "Only run tests whose full title matches this regular expression")
+  .addOptionalParam("tag", "Only run tests tagged (e.g. `@slow` in a title) with one of these comma-separated tags")
+  .addOptionalParam("mode", "mock or sepolia", "mock")
+  .addOptionalParam("reporters", "Comma-separated report formats: junit, json, tap", REPORT_FORMATS.join(","))
+  .addOptionalParam("outputDir", "Directory the reports are written to", "reports/fhe-test")
+  .addFlag("bail", "Stop running tests after the first failure")
+  .addOptionalVariadicPositionalParam(
+    "testFiles",
+    "Test files to run; defaults to the whole test directory",
+    [],
+    types.string,
+  )
+  .setAction(async (args, hre) => {
+    const network = MODE_NETWORKS[args.mode];
+    if (network === undefined) {
+      throw new HardhatPluginError("fhe:test", `Unknown mode "${args.mode}", expected mock or sepolia`);
+    }
+    const formats = (args.reporters as string).split(",").map((f) => f.trim()) as ReportFormat[];
+    const unknown = formats.filter((f) => !REPORT_FORMATS.includes(f));
+    if (unknown.length > 0) {
+      throw new HardhatPluginError("fhe:test", `Unknown reporters ${unknown.join(", ")}, expected junit, json or tap`);
+    }
+
+    // The network is fixed once hardhat has started, so run the task again on the mode's network.
+    if (hre.network.name !== network) {
+      const cli = require.resolve("hardhat/internal/cli/cli");
+      const argv = ["--config", hre.config.paths.configFile, "--network", network, "fhe:test", ...taskArguments(args)];
+      const { status } = spawnSync(process.execPath, [cli, ...argv], { cwd: hre.config.paths.root, stdio: "inherit" });
+      process.exitCode = status ?? 1;
+      return;
+    }
+
+    hre.config.mocha.grep = testFilter(args.grep, args.tag);
+    hre.config.mocha.reporter = FheTestReporter;
+    hre.config.mocha.reporterOptions = {
+      formats,
+      outputDir: path.resolve(hre.config.paths.root, args.outputDir),
+      mode: args.mode,
+    };
+    await hre.run(TASK_TEST, { testFiles: args.testFiles, bail: args.bail });
+  });
+
+// Mocha matches one regular expression against full titles: require both the pattern and one of the tags.
+function testFilter(grep: string | undefined, tags: string | undefined): RegExp | undefined {
+  const conditions: string[] = [];
+  if (grep) {
+    conditions.push(`(?=.*(?:${grep}))`);
+  }
+  if (tags) {
+    const names = tags.split(",").map((tag) => escapeRegExp(tag.trim().replace(/^@/, "")));
+    conditions.push(`(?=.*@(?:${names.join("|")})(?![\\w-]))`);
+  }
+  return conditions.length > 0 ? new RegExp(`^${conditions.join("")}`) : undefined;
+}
+
+// The command line for the task's own arguments, whether it was started from the command line or through `hre.run`.
+function taskArguments(args: TaskArguments): string[] {
+  const argv = ["--mode", args.mode, "--reporters", args.reporters, "--output-dir", args.outputDir];
+  if (args.grep !== undefined) {
+    argv.push("--grep", args.grep);
+  }
+  if (args.tag !== undefined) {
+    argv.push("--tag", args.tag);
+  }
+  if (args.bail) {
+    argv.push("--bail");
+  }
+  return [...argv, ...args.testFiles];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { approveDelegate, canReveal, isDelegate, revokeDelegate } from "../src/access";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { LocalDecryptionOracle } from "../src/oracle";
+
+describe("onlyOwnerOrDelegate", function () {
+  let owner: HardhatEthersSigner;
+  let delegate: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let client: FHETestFrameworkClient;
+  let id: bigint;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    [owner, delegate, stranger] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    ({ id } = await client.submit(7, FheType.Uint32));
+  });
+
+  it("rejects a reveal by a stranger", async function () {
+    expect(await canReveal(client.contract, id, stranger.address)).to.equal(false);
+    await expect(client.connect(stranger).requestReveal(id)).to.be.revertedWith("Not authorized");
+  });
+
+  it("lets a delegate of the owner reveal", async function () {
+    const oracle = await new LocalDecryptionOracle(hre).init();
+    await approveDelegate(client.contract, owner, delegate.address);
+    expect(await isDelegate(client.contract, owner.address, delegate.address)).to.equal(true);
+
+    await client.connect(delegate).requestReveal(id);
+    expect(await client.awaitReveal(id, { oracle })).to.equal(7n);
+  });
+
+  it("rejects a reveal by a revoked delegate", async function () {
+    await approveDelegate(client.contract, owner, delegate.address);
+    await revokeDelegate(client.contract, owner, delegate.address);
+
+    expect(await canReveal(client.contract, id, delegate.address)).to.equal(false);
+    await expect(client.connect(delegate).requestReveal(id)).to.be.revertedWith("Not authorized");
+  });
+});
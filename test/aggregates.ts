@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import {
+  aggregatesOf,
+  expectedAggregate,
+  readAggregate,
+  requestAggregateReveal,
+  waitForAggregate,
+} from "../src/aggregates";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { LocalDecryptionOracle } from "../src/oracle";
+
+describe("EncryptedAggregates", function () {
+  let client: FHETestFrameworkClient;
+  let oracle: LocalDecryptionOracle;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    oracle = await new LocalDecryptionOracle(hre).init();
+  });
+
+  async function submitAll(values: number[]) {
+    for (const value of values) {
+      await client.submit(value, FheType.Uint8);
+    }
+  }
+
+  it("reveals nothing before a whole epoch of values", async function () {
+    await submitAll([10, 200]);
+    await expect(requestAggregateReveal(client.contract, FheType.Uint8)).to.be.revertedWith("Not enough values");
+  });
+
+  it("reveals the sum of the last snapshot, without min and max", async function () {
+    const values = [10, 200, 3, 4, 5, 6, 7, 8, 9];
+    await submitAll(values);
+    await requestAggregateReveal(client.contract, FheType.Uint8);
+    const stats = await waitForAggregate(client.contract, FheType.Uint8, { oracle, intervalMs: 50 });
+
+    expect(stats).to.deep.equal(expectedAggregate(FheType.Uint8, values));
+    expect(stats).to.include({ count: 8n, sum: 243n, min: 0n, max: 0n, extremes: false });
+  });
+
+  it("reveals each snapshot once, so a single new value is never isolated", async function () {
+    await submitAll([1, 2, 3, 4, 5, 6, 7, 8]);
+    await requestAggregateReveal(client.contract, FheType.Uint8);
+    await waitForAggregate(client.contract, FheType.Uint8, { oracle, intervalMs: 50 });
+
+    await submitAll([9]);
+    await expect(requestAggregateReveal(client.contract, FheType.Uint8)).to.be.revertedWith(
+      "Snapshot already revealed",
+    );
+    expect((await readAggregate(client.contract, FheType.Uint8)).count).to.equal(8n);
+  });
+
+  it("reveals min and max once a snapshot covers MIN_EXTREMES_COUNT values", async function () {
+    const values = Array.from({ length: 32 }, (_, i) => (i * 37) % 251);
+    await submitAll(values);
+    await requestAggregateReveal(client.contract, FheType.Uint8);
+    const stats = await waitForAggregate(client.contract, FheType.Uint8, { oracle, intervalMs: 50 });
+
+    expect(stats).to.deep.equal(expectedAggregate(FheType.Uint8, values));
+    expect(stats.extremes).to.equal(true);
+  });
+
+  it("only accepts values folded in by its framework", async function () {
+    const aggregates = await aggregatesOf(client.contract);
+    await expect(aggregates.fold(ethers.ZeroHash, FheType.Uint8)).to.be.revertedWith("Not authorized");
+  });
+});
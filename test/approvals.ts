@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { findPendingApprovals, readRevealApprovals } from "../src/approvals";
+import { Operator } from "../src/assertions";
+import { checkCompare, encodeBound } from "../src/checks";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { LocalDecryptionOracle } from "../src/oracle";
+
+describe("RevealApprovals", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let client: FHETestFrameworkClient;
+  let oracle: LocalDecryptionOracle;
+  let id: bigint;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    [owner, alice, bob] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    oracle = await new LocalDecryptionOracle(hre).init();
+    ({ id } = await client.submit(7, FheType.Uint32));
+  });
+
+  it("needs k of n approvals before the value can be revealed", async function () {
+    await client.setRevealPolicy(id, [alice.address, bob.address], 2);
+    await expect(client.requestReveal(id)).to.be.revertedWith("Approvals missing");
+
+    expect(await client.connect(alice).approveReveal(id)).to.equal(1n);
+    const { blockNumber: fromBlock } = (await client.contract.deploymentTransaction()!.wait())!;
+    expect((await findPendingApprovals(client.contract, { fromBlock }))[0].missing).to.deep.equal([bob.address]);
+    expect(await client.connect(bob).approveReveal(id)).to.equal(2n);
+
+    await client.requestReveal(id);
+    expect(await client.awaitReveal(id, { oracle })).to.equal(7n);
+  });
+
+  it("counts a withdrawn approval out again", async function () {
+    await client.setRevealPolicy(id, [alice.address, bob.address], 2);
+    await client.connect(alice).approveReveal(id);
+    await client.connect(bob).approveReveal(id);
+    expect(await client.connect(bob).revokeRevealApproval(id)).to.equal(1n);
+
+    await expect(client.requestReveal(id)).to.be.revertedWith("Approvals missing");
+    expect((await readRevealApprovals(client.contract, id))?.missing).to.deep.equal([bob.address]);
+  });
+
+  it("gates checks and assertions on the value like its reveal", async function () {
+    await client.setRevealPolicy(id, [alice.address], 1);
+    const framework = client.contract;
+
+    await expect(checkCompare(framework, id, Operator.Eq, 7, FheType.Uint32, { reveal: true })).to.be.revertedWith(
+      "Approvals missing",
+    );
+    await expect(checkCompare(framework, id, Operator.Eq, 7, FheType.Uint32)).to.be.revertedWith("Approvals missing");
+    const [lo, hi] = [encodeBound(FheType.Uint32, 0), encodeBound(FheType.Uint32, 9)];
+    await expect(framework.checkInRange(id, lo, hi, true)).to.be.revertedWith("Approvals missing");
+    await expect(framework.checkOneOf(id, [encodeBound(FheType.Uint32, 7)], true)).to.be.revertedWith(
+      "Approvals missing",
+    );
+    await expect(framework.runAssertion(id, Operator.Eq, 7)).to.be.revertedWith("Approvals missing");
+  });
+
+  it("gates checks that use the value as a bound", async function () {
+    const { id: other } = await client.submit(7, FheType.Uint32);
+    await client.setRevealPolicy(id, [alice.address], 1);
+
+    await expect(checkCompare(client.contract, other, Operator.Eq, { valueId: id }, FheType.Uint32)).to.be.revertedWith(
+      "Approvals missing",
+    );
+  });
+
+  it("does not reveal a check computed before the policy was set", async function () {
+    const checkId = await checkCompare(client.contract, id, Operator.Eq, 7, FheType.Uint32);
+    await client.setRevealPolicy(id, [alice.address], 1);
+
+    await expect(client.contract.requestCheckDecryption(checkId)).to.be.revertedWith("Approvals missing");
+    await client.connect(alice).approveReveal(id);
+    await client.contract.requestCheckDecryption(checkId);
+  });
+});
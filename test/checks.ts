@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { Operator } from "../src/assertions";
+import { checkCompare, checkInRange, encodeBound } from "../src/checks";
+import { FHETestFrameworkClient } from "../src/client";
+import { ClearValue, FheType, typeName } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { UnsupportedOperationError } from "../src/model";
+import { LocalDecryptionOracle } from "../src/oracle";
+
+describe("encrypted checks", function () {
+  let client: FHETestFrameworkClient;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+  });
+
+  it("compares an integer with an ordered operator", async function () {
+    const oracle = await new LocalDecryptionOracle(hre).init();
+    const { id } = await client.submit(7, FheType.Uint32);
+    await expect(
+      checkCompare(client.contract, id, Operator.Lt, 8, FheType.Uint32, { reveal: true }),
+    ).to.passEncryptedCheck(client.contract, { oracle });
+  });
+
+  const unordered: [FheType, ClearValue][] = [
+    [FheType.Bool, true],
+    [FheType.Uint160, "0x000000000000000000000000000000000000dEaD"],
+    [FheType.Uint256, 7n],
+  ];
+  for (const [type, value] of unordered) {
+    it(`only compares ${typeName(type)} values for equality`, async function () {
+      const { id } = await client.submit(value, type);
+      const bound = encodeBound(type, value);
+
+      await expect(client.contract.checkCompare(id, Operator.Lt, bound, false)).to.be.revertedWith(
+        "Operator not supported for type",
+      );
+      await expect(client.contract.checkInRange(id, bound, bound, false)).to.be.revertedWith(
+        "Operator not supported for type",
+      );
+      await expect(client.contract.checkCompare(id, Operator.Eq, bound, false)).not.to.be.reverted;
+
+      await expect(checkCompare(client.contract, id, Operator.Ge, value, type)).to.be.rejectedWith(
+        UnsupportedOperationError,
+        `fheGe does not support ${typeName(type)}`,
+      );
+      await expect(checkInRange(client.contract, id, value, value, type)).to.be.rejectedWith(UnsupportedOperationError);
+    });
+  }
+});
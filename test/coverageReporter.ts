@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { HardhatPluginError } from "hardhat/plugins";
+import { CoverageReport, OperatorCoverage, formatCoverageTable } from "../src/coverage";
+import { ExecutorCallRecorder, parseCoverageThreshold, writeCoverageReport } from "../src/coverageReporter";
+import { ExecutorCall } from "../src/executor";
+import { FheType } from "../src/fheTypes";
+import { FHEAssertHarness__factory } from "../types/factories/contracts/test/FHEAssertHarness__factory";
+
+// An fheAdd on euint8, on two ciphertexts or with a plaintext operand.
+function add(scalar: boolean): ExecutorCall {
+  return {
+    operation: "fheAdd",
+    type: FheType.Uint8,
+    scalar,
+    operands: [],
+    caller: ethers.ZeroAddress,
+    result: ethers.ZeroHash,
+    address: ethers.ZeroAddress,
+    transactionHash: ethers.ZeroHash,
+  };
+}
+
+// Calls of `operation` on `type` in the report.
+function calls(report: CoverageReport, operation: string, type: string): number {
+  const cell = report.operations.find((row) => row.operation === operation)!.cells[type]!;
+  return cell.encrypted + cell.scalar;
+}
+
+describe("FHE operator coverage", function () {
+  describe("parseCoverageThreshold", function () {
+    it("reads a percentage and leaves an empty one unset", function () {
+      expect(parseCoverageThreshold("40")).to.equal(40);
+      expect(parseCoverageThreshold(" 12.5 ")).to.equal(12.5);
+      expect(parseCoverageThreshold(75)).to.equal(75);
+      expect(parseCoverageThreshold("")).to.equal(undefined);
+      expect(parseCoverageThreshold(undefined)).to.equal(undefined);
+    });
+
+    it("rejects a value that is not a number", function () {
+      for (const threshold of ["forty", "40%", "Infinity", NaN]) {
+        expect(() => parseCoverageThreshold(threshold)).to.throw(
+          HardhatPluginError,
+          `FHE coverage threshold must be a percentage, got "${threshold}"`,
+        );
+      }
+    });
+  });
+
+  describe("ExecutorCallRecorder", function () {
+    beforeEach(function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+    });
+
+    it("records the executor calls of sent transactions only", async function () {
+      const coverage = new OperatorCoverage();
+      const provider = new ethers.BrowserProvider(new ExecutorCallRecorder(hre.network.provider, coverage));
+      const harness = await new FHEAssertHarness__factory(await provider.getSigner(0)).deploy();
+      await harness.waitForDeployment();
+
+      await harness.assertAll.staticCall(13, 5);
+      expect(coverage.report().covered).to.equal(0);
+
+      await (await harness.assertAll(13, 5)).wait();
+      const report = coverage.report();
+      expect(calls(report, "trivialEncrypt", "euint32")).to.be.greaterThanOrEqual(2);
+      expect(calls(report, "fheEq", "euint32")).to.be.greaterThan(0);
+      expect(calls(report, "fheNe", "euint32")).to.be.greaterThan(0);
+      expect(calls(report, "fheAdd", "euint32")).to.equal(0);
+      expect(report.covered).to.be.greaterThan(0);
+    });
+  });
+
+  describe("writeCoverageReport", function () {
+    let outputDir: string;
+
+    beforeEach(function () {
+      outputDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fhe-coverage-")), "nested");
+    });
+
+    afterEach(function () {
+      fs.rmSync(path.dirname(outputDir), { recursive: true, force: true });
+    });
+
+    it("writes the matrix as JSON and HTML", function () {
+      const coverage = new OperatorCoverage();
+      coverage.record([add(false), add(true)]);
+      const report = coverage.report();
+      writeCoverageReport(report, outputDir);
+
+      const json: CoverageReport = JSON.parse(fs.readFileSync(path.join(outputDir, "fhe-operators.json"), "utf8"));
+      expect(json).to.deep.equal(report);
+      expect(json.covered).to.equal(1);
+      expect(json.operations.find((row) => row.operation === "fheAdd")!.cells).to.include({ ebool: null });
+
+      const html = fs.readFileSync(path.join(outputDir, "fhe-operators.html"), "utf8");
+      expect(html).to.include(`<h1>FHE operator coverage: 1/${report.total} (${report.percent}%)</h1>`);
+      expect(html).to.include(`<td class="hit" title="1 encrypted, 1 scalar">2</td>`);
+      expect(formatCoverageTable(report)).to.match(/^fheAdd {10}.{10}2 {9}\. /m);
+    });
+  });
+});
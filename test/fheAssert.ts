@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { readAssertionResults } from "../src/fheAssert";
+import { LocalDecryptionOracle } from "../src/oracle";
+import type { FHEAssertHarness } from "../types/contracts/test/FHEAssertHarness";
+
+describe("FHEAssert", function () {
+  let harness: FHEAssertHarness;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    harness = await ethers.deployContract("FHEAssertHarness");
+  });
+
+  it("records one assertion of each kind and decrypts them in mock mode", async function () {
+    const results = await readAssertionResults(hre, await harness.assertAll(13, 5));
+    expect(results.map(({ id, label, passed }) => [id, label, passed])).to.deep.equal([
+      [1n, "a == b", false],
+      [2n, "a != b", true],
+      [3n, "a in [b, b + 10]", true],
+      [4n, "a has the bits of b", true],
+      [5n, "b < a", true],
+    ]);
+
+    const equal = await readAssertionResults(hre, await harness.assertAll(4, 4), { mode: "mock" });
+    expect(equal.map((result) => result.passed)).to.deep.equal([true, false, true, true, false]);
+  });
+
+  it("reads the outcomes revealed through the decryption oracle", async function () {
+    const oracle = await new LocalDecryptionOracle(hre).init();
+    const tx = await harness.assertAll(2, 5);
+    await harness.requestReveal([1, 2, 3, 4, 5]);
+
+    const results = await readAssertionResults(hre, tx, { oracle });
+    expect(results.map((result) => result.passed)).to.deep.equal([false, true, false, false, false]);
+    expect(await harness.getAssertion(2)).to.deep.equal([true, true]);
+    expect(await harness.getAssertion(3)).to.deep.equal([true, false]);
+  });
+
+  it("skips ids an earlier request already revealed", async function () {
+    const oracle = await new LocalDecryptionOracle(hre).init();
+    await harness.assertAll(13, 5);
+    await harness.requestReveal([1, 2]);
+    await harness.requestReveal([2, 3]);
+
+    const deliveries = await oracle.fulfill();
+    expect(deliveries.map((delivery) => delivery.reverted)).to.deep.equal([false, false]);
+    const second = await ethers.provider.getTransactionReceipt(deliveries[1].transactionHash!);
+    const revealed = second!.logs
+      .map((log) => harness.interface.parseLog(log))
+      .filter((event) => event?.name === "FHEAssertRevealed");
+    expect(revealed.map((event) => event!.args.id)).to.deep.equal([3n]);
+    expect(await harness.getAssertion(2)).to.deep.equal([true, true]);
+  });
+
+  it("rejects a reveal of an unknown id", async function () {
+    await harness.assertAll(1, 1);
+    await expect(harness.requestReveal([6])).to.be.revertedWith("Unknown assertion");
+  });
+});
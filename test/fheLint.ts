@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD,
+  TASK_COMPILE_SOLIDITY_RUN_SOLC,
+  TASK_COMPILE_SOLIDITY_RUN_SOLCJS,
+} from "hardhat/builtin-tasks/task-names";
+import { AstNode, LintResult, LintRuleId, LintSeverity, lintSources } from "../src/fheLint";
+
+// The parts of the FHE library the rules know by name.
+const FHE_STUB = `
+pragma solidity ^0.8.24;
+type euint32 is bytes32;
+library FHE {
+    function asEuint32(uint32 v) internal pure returns (euint32) { return euint32.wrap(bytes32(uint256(v))); }
+    function allowThis(euint32 v) internal returns (euint32) { return v; }
+    function allow(euint32 v, address account) internal returns (euint32) { return v; }
+    function toBytes32(euint32 v) internal pure returns (bytes32) { return euint32.unwrap(v); }
+    function requestDecryption(bytes32[] memory cts, bytes4 selector) internal returns (uint256) { return 0; }
+    function checkSignatures(uint256 requestId, bytes memory cleartexts, bytes memory proof) internal {}
+}
+`;
+
+interface Finding {
+  ruleId: LintRuleId;
+  line: number;
+}
+
+// Compile `body` as the contract `Fixture` against the stub and lint it.
+async function lintFixture(body: string, severities: Partial<Record<LintRuleId, LintSeverity>>): Promise<LintResult> {
+  const content = `pragma solidity ^0.8.24;\nimport { FHE, euint32 } from "FHE.sol";\ncontract Fixture {\n${body}\n}\n`;
+  const input = {
+    language: "Solidity",
+    sources: { "FHE.sol": { content: FHE_STUB }, "Fixture.sol": { content } },
+    settings: { outputSelection: { "*": { "": ["ast"] } } },
+  };
+  const solcVersion = hre.config.solidity.compilers[0].version;
+  const build = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion });
+  const output = build.isSolcJs
+    ? await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLCJS, { input, solcJsPath: build.compilerPath })
+    : await hre.run(TASK_COMPILE_SOLIDITY_RUN_SOLC, { input, solcPath: build.compilerPath, solcVersion });
+  const errors = (output.errors ?? []).filter((e: { severity: string }) => e.severity === "error");
+  expect(errors, errors.map((e: { formattedMessage: string }) => e.formattedMessage).join("\n")).to.deep.equal([]);
+
+  const sources = Object.entries(input.sources).map(([filePath, { content }]) => ({
+    filePath,
+    content,
+    ast: output.sources[filePath].ast as AstNode,
+  }));
+  return lintSources(sources, severities).find((result) => result.filePath === "Fixture.sol")!;
+}
+
+// Findings by line of `body`.
+async function lint(body: string, severities: Partial<Record<LintRuleId, LintSeverity>> = {}): Promise<Finding[]> {
+  const { messages } = await lintFixture(body, severities);
+  return messages.map(({ ruleId, line }) => ({ ruleId, line: line - 3 }));
+}
+
+// 1-based line of `marker` in a fixture body.
+function lineOf(body: string, marker: string): number {
+  return body.split("\n").findIndex((line) => line.includes(marker)) + 1;
+}
+
+const STORAGE = `
+    euint32 private total;
+    euint32[] private history;
+`;
+
+const CALLBACKS = `
+    address private oracle;
+    modifier onlyOracle() { require(msg.sender == oracle); _; }
+
+    function request(euint32 value) external {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(value);
+        FHE.requestDecryption(cts, this.onReveal.selector);
+    }
+`;
+
+describe("fhe:lint rules", function () {
+  this.timeout(60_000);
+
+  describe("fhe-store-without-allow-this", function () {
+    it("reports a handle stored without allowThis, also through push", async function () {
+      const body = `${STORAGE}
+    function set(uint32 v) external { total = FHE.asEuint32(v); } // set
+    function append(uint32 v) external { history.push(FHE.asEuint32(v)); } // append`;
+      expect(await lint(body)).to.deep.equal([
+        { ruleId: "fhe-store-without-allow-this", line: lineOf(body, "// set") },
+        { ruleId: "fhe-store-without-allow-this", line: lineOf(body, "// append") },
+      ]);
+    });
+
+    it("accepts a handle granted to the contract before it is stored", async function () {
+      const body = `${STORAGE}
+    function set(uint32 v) external {
+        euint32 value = FHE.asEuint32(v);
+        FHE.allowThis(value);
+        total = value;
+        history.push(value);
+    }`;
+      expect(await lint(body)).to.deep.equal([]);
+    });
+
+    it("follows grants made through an internal helper", async function () {
+      const body = `${STORAGE}
+    function _keep(euint32 value) internal { FHE.allowThis(value); }
+    function _ignore(euint32 value) internal {}
+    function kept(uint32 v) external { euint32 value = FHE.asEuint32(v); _keep(value); total = value; }
+    function ignored(uint32 v) external { euint32 value = FHE.asEuint32(v); _ignore(value); total = value; } // ignored`;
+      expect(await lint(body)).to.deep.equal([
+        { ruleId: "fhe-store-without-allow-this", line: lineOf(body, "// ignored") },
+      ]);
+    });
+  });
+
+  describe("fhe-return-without-allow", function () {
+    it("reports a computed handle returned without allow", async function () {
+      const body = `
+    function compute(uint32 v) external returns (euint32) {
+        euint32 value = FHE.asEuint32(v);
+        return value; // returned
+    }`;
+      expect(await lint(body)).to.deep.equal([
+        { ruleId: "fhe-return-without-allow", line: lineOf(body, "// returned") },
+      ]);
+    });
+
+    it("accepts a handle granted to the caller, here or in a helper", async function () {
+      const body = `
+    function _share(euint32 value) internal returns (euint32) { FHE.allow(value, msg.sender); return value; }
+    function compute(uint32 v) external returns (euint32) {
+        euint32 value = FHE.asEuint32(v);
+        FHE.allow(value, msg.sender);
+        return value;
+    }
+    function shared(uint32 v) external returns (euint32) { return _share(FHE.asEuint32(v)); }`;
+      expect(await lint(body)).to.deep.equal([]);
+    });
+  });
+
+  describe("decryption callbacks", function () {
+    it("reports a callback without checkSignatures that anyone can call", async function () {
+      const body = `${CALLBACKS}
+    function onReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) external {} // callback`;
+      const line = lineOf(body, "// callback");
+      expect(await lint(body)).to.deep.equal([
+        { ruleId: "fhe-callback-missing-check-signatures", line },
+        { ruleId: "fhe-callback-access", line },
+      ]);
+    });
+
+    it("accepts a restricted callback that checks the signatures", async function () {
+      const body = `${CALLBACKS}
+    function onReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) external onlyOracle {
+        FHE.checkSignatures(requestId, cleartexts, proof);
+    }`;
+      expect(await lint(body)).to.deep.equal([]);
+    });
+
+    it("credits checkSignatures and the sender check made in internal helpers and the body", async function () {
+      const body = `${CALLBACKS}
+    function _verify(uint256 requestId, bytes memory cleartexts, bytes memory proof) internal {
+        FHE.checkSignatures(requestId, cleartexts, proof);
+    }
+    function onReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) external {
+        require(msg.sender == oracle);
+        _verify(requestId, cleartexts, proof);
+    }`;
+      expect(await lint(body)).to.deep.equal([]);
+    });
+  });
+
+  describe("configuration", function () {
+    const body = `${STORAGE}
+    // solhint-disable-next-line fhe-store-without-allow-this
+    function a(uint32 v) external { total = FHE.asEuint32(v); }
+    function b(uint32 v) external { total = FHE.asEuint32(v); } // solhint-disable-line
+    // solhint-disable-next-line fhe-callback-access
+    function c(uint32 v) external { total = FHE.asEuint32(v); } // c`;
+
+    it("honours solhint-disable-next-line and solhint-disable-line, for all rules or the listed ones", async function () {
+      expect(await lint(body)).to.deep.equal([{ ruleId: "fhe-store-without-allow-this", line: lineOf(body, "// c") }]);
+    });
+
+    it("skips a rule set to off", async function () {
+      expect(await lint(body, { "fhe-store-without-allow-this": "off" })).to.deep.equal([]);
+    });
+
+    it("reports a rule with the severity it is set to", async function () {
+      const unrestricted = `${CALLBACKS}
+    function onReveal(uint256 requestId, bytes memory cleartexts, bytes memory proof) external {
+        FHE.checkSignatures(requestId, cleartexts, proof);
+    }`;
+      expect(await lintFixture(unrestricted, {})).to.include({ errorCount: 0, warningCount: 1 });
+      expect(await lintFixture(unrestricted, { "fhe-callback-access": "error" })).to.include({
+        errorCount: 1,
+        warningCount: 0,
+      });
+    });
+  });
+});
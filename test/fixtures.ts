@@ -0,0 +1,34 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { FheType } from "../src/fheTypes";
+import { frameworkFixture, loadFrameworkFixture } from "../src/fixtures";
+import { decryptHandle } from "../src/handles";
+
+const seeded = frameworkFixture(hre, {
+  values: {
+    balance: { type: FheType.Uint64, value: 500 },
+    adult: { type: FheType.Bool, value: true, reveal: true },
+  },
+});
+
+describe("frameworkFixture", function () {
+  beforeEach(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  // Each test reverts to the fixture snapshot, past blocks the mock coprocessor has already read.
+  for (const value of [41n, 42n]) {
+    it(`reveals a new value after restoring the snapshot (${value})`, async function () {
+      const { client, values, oracle } = await loadFrameworkFixture(hre, seeded);
+      expect(await decryptHandle(hre, values.balance.handle)).to.equal(500n);
+      expect((await client.getClearValue(values.adult.id)).value).to.equal(true);
+
+      const { id, handle } = await client.submit(value, FheType.Uint32);
+      expect(await decryptHandle(hre, handle)).to.equal(value);
+      await client.requestReveal(id);
+      expect(await client.awaitReveal(id, { oracle, timeoutMs: 5000 })).to.equal(value);
+    });
+  }
+});
@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import {
+  PropertyFailedError,
+  defaultSeed,
+  encryptedAdd,
+  forAll,
+  fuzzEncryptedOperation,
+  uintArbitrary,
+} from "../src/fuzz";
+import { hardhatInputFactory } from "../src/inputs";
+
+describe("fuzz seeds", function () {
+  const saved = process.env.FUZZ_SEED;
+
+  afterEach(function () {
+    if (saved === undefined) {
+      delete process.env.FUZZ_SEED;
+    } else {
+      process.env.FUZZ_SEED = saved;
+    }
+  });
+
+  it("replays FUZZ_SEED", function () {
+    process.env.FUZZ_SEED = "1234";
+    expect(defaultSeed()).to.equal(1234);
+  });
+
+  it("draws a fresh seed without FUZZ_SEED", function () {
+    delete process.env.FUZZ_SEED;
+    const seed = defaultSeed();
+    expect(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32).to.equal(true);
+  });
+
+  for (const env of ["abc", "12abc", "-1", "1.5", "0x10", "4294967296"]) {
+    it(`rejects FUZZ_SEED=${env}`, function () {
+      process.env.FUZZ_SEED = env;
+      expect(() => defaultSeed()).to.throw(`FUZZ_SEED must be an integer from 0 to 4294967295, got "${env}"`);
+    });
+  }
+
+  it("reproduces a failing run from its seed", async function () {
+    const uint32 = uintArbitrary(FheType.Uint32);
+    const failing = (seed?: number) => forAll([uint32], (x) => x < 1000n, { seed }).catch((e) => e);
+
+    const first = await failing(1234);
+    expect(first).to.be.instanceOf(PropertyFailedError);
+    expect(first.message).to.include("seed 1234, replay with FUZZ_SEED=1234");
+
+    process.env.FUZZ_SEED = "1234";
+    const replayed = await failing();
+    expect(replayed).to.include({ seed: 1234, run: first.run });
+    expect(replayed.original).to.deep.equal(first.original);
+  });
+});
+
+describe("forAll", function () {
+  it("passes when the property holds on every run", async function () {
+    let runs = 0;
+    await forAll(
+      [uintArbitrary(FheType.Uint8)],
+      (x) => {
+        runs++;
+        return x <= 255n;
+      },
+      { runs: 30, seed: 1 },
+    );
+    expect(runs).to.equal(30);
+  });
+
+  it("shrinks a failure to the smallest counterexample", async function () {
+    const uint32 = uintArbitrary(FheType.Uint32);
+    const single = await forAll([uint32], (x) => x < 1000n, { seed: 7 }).catch((e) => e);
+    expect(single.counterexample).to.deep.equal([1000n]);
+    expect(single.shrinks).to.be.greaterThan(0);
+
+    const pair = await forAll([uint32, uint32], (a, b) => a <= b, { seed: 7 }).catch((e) => e);
+    expect(pair.counterexample).to.deep.equal([1n, 0n]);
+    expect(pair.failure).to.equal("property returned false");
+  });
+
+  it("reports what a throwing property threw", async function () {
+    const error = await forAll(
+      [uintArbitrary(FheType.Uint8)],
+      (x) => {
+        if (x > 9n) throw new Error(`too large: ${x}`);
+      },
+      { seed: 3 },
+    ).catch((e) => e);
+    expect(error.counterexample).to.deep.equal([10n]);
+    expect(error.failure).to.equal("too large: 10");
+  });
+});
+
+describe("fuzzEncryptedOperation", function () {
+  let client: FHETestFrameworkClient;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+  });
+
+  it("agrees with the model on random operands", async function () {
+    await fuzzEncryptedOperation(hre, client.contract, encryptedAdd(FheType.Uint8), { runs: 10, seed: 5 });
+  });
+
+  it("shrinks a disagreement with the model to the first overflow", async function () {
+    // A model that forgets the wraparound.
+    const unwrapped = {
+      ...encryptedAdd(FheType.Uint8),
+      model: (a: unknown, b: unknown) => (a as bigint) + (b as bigint),
+    };
+    const error = await fuzzEncryptedOperation(hre, client.contract, unwrapped, { runs: 10, seed: 5 }).catch((e) => e);
+    expect(error).to.be.instanceOf(PropertyFailedError);
+    const [a, b] = error.counterexample;
+    expect(a + b).to.equal(256n);
+    expect(error.failure).to.match(/^addEncryptedCountersUint8 decrypted to \d+, model expects 256$/);
+  });
+});
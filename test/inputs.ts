@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { decryptHandle } from "../src/handles";
+import { EncryptedInput, corruptProof, encryptInput, hardhatInputFactory, submitInput } from "../src/inputs";
+
+describe("encrypted inputs", function () {
+  let owner: HardhatEthersSigner;
+  let client: FHETestFrameworkClient;
+  let input: EncryptedInput;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    const address = await client.contract.getAddress();
+    input = await encryptInput(hardhatInputFactory(hre), address, owner.address, 300, FheType.Uint16);
+  });
+
+  it("stores a value submitted with a valid proof", async function () {
+    const id = await submitInput(client.contract, owner, input);
+    const [, handle] = await client.contract.encryptedValues(id);
+    expect(await decryptHandle(hre, handle)).to.equal(300n);
+  });
+
+  it("rejects a corrupted proof in the input verifier", async function () {
+    const corrupted = { ...input, inputProof: corruptProof(input.inputProof) };
+    await expect(submitInput(client.contract, owner, corrupted)).to.be.revertedWithCustomError(
+      ...hre.fhevm.revertedWithCustomErrorArgs("InputVerifier", "InvalidSigner"),
+    );
+  });
+});
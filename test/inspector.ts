@@ -0,0 +1,50 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { inspectHandle } from "../src/inspector";
+
+describe("handle inspector", function () {
+  let client: FHETestFrameworkClient;
+  let handle: string;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    ({ handle } = await client.submit(7, FheType.Uint32));
+  });
+
+  it("decrypts a handle of the in-process chain and lists who may use it", async function () {
+    const inspection = await inspectHandle(hre, handle);
+    expect(inspection.typeName).to.equal("euint32");
+    expect(inspection.plaintext).to.equal(7n);
+    const accounts = inspection.acl!.map((entry) => entry.account);
+    expect(accounts).to.include(await client.contract.getAddress());
+  });
+
+  it("only looks for the producing call and the grants from the given block", async function () {
+    const before = await inspectHandle(hre, handle);
+    expect(before.producedBy).to.include({ operation: "verifyCiphertext" });
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    const inspection = await inspectHandle(hre, handle, { fromBlock });
+    expect(inspection.producedBy).to.equal(undefined);
+    expect(inspection.acl).to.deep.equal([]);
+    expect(inspection.plaintext).to.equal(7n);
+  });
+
+  it("runs fhe:inspect against the chain of the test", async function () {
+    const printed: string[] = [];
+    const log = console.log;
+    console.log = (line: string) => printed.push(line);
+    try {
+      await hre.run("fhe:inspect", { handle, json: true });
+    } finally {
+      console.log = log;
+    }
+    expect(JSON.parse(printed[0])).to.include({ typeName: "euint32", plaintext: "7" });
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { Invariant, InvariantViolationError, checkLifecycleInvariants, replayLifecycle } from "../src/invariants";
+
+// Breaks as soon as any value but the first is revealed, so a failing script needs two submits and a reveal.
+const ONLY_FIRST_REVEALED: Invariant = {
+  name: "only value 1 is ever revealed",
+  async check(state) {
+    for (const [id, model] of state.values) {
+      if (id > 1n && model.revealed !== undefined) {
+        throw new Error(`value ${id} was revealed`);
+      }
+    }
+  },
+};
+
+describe("lifecycle invariants", function () {
+  this.timeout(120_000);
+
+  beforeEach(function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+  });
+
+  it("hold over short seeded runs", async function () {
+    await checkLifecycleInvariants(hre, { runs: 3, steps: 10, seed: 7 });
+  });
+
+  it("shrink a failing run to a script that replays the failure", async function () {
+    const error = await checkLifecycleInvariants(hre, {
+      runs: 5,
+      steps: 20,
+      seed: 11,
+      invariants: [ONLY_FIRST_REVEALED],
+    }).catch((e) => e);
+    expect(error).to.be.instanceOf(InvariantViolationError);
+    expect(error.seed).to.equal(11);
+    expect(error.failure).to.include(`invariant "${ONLY_FIRST_REVEALED.name}" violated`);
+
+    const { script } = error as InvariantViolationError;
+    expect(script.length).to.be.lessThan(error.originalLength);
+    // Dropping the first submit renumbers the second one to id 1, which may be revealed: both must stay.
+    const essential = script.filter((step) => step.action !== "setDelegate");
+    expect(essential.map((step) => step.action)).to.deep.equal(["submit", "submit", "requestReveal", "fulfill"]);
+    expect(essential[2]).to.include({ id: 2 });
+
+    const replayed = await replayLifecycle(hre, script, { invariants: [ONLY_FIRST_REVEALED] }).catch((e) => e);
+    expect(replayed).to.be.instanceOf(InvariantViolationError);
+    expect(replayed.failure).to.include(`invariant "${ONLY_FIRST_REVEALED.name}" violated`);
+    await replayLifecycle(hre, script);
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+
+describe("encrypted handle matchers", function () {
+  let client: FHETestFrameworkClient;
+  let small: string;
+  let large: string;
+  let flag: string;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    ({ handle: small } = await client.submit(42, FheType.Uint32));
+    ({ handle: large } = await client.submit(1000, FheType.Uint32));
+    ({ handle: flag } = await client.submit(true, FheType.Bool));
+  });
+
+  describe("decryptTo", function () {
+    it("passes on the plaintext of the handle", async function () {
+      await expect(small).to.decryptTo(42);
+      await expect(flag).to.decryptTo(true);
+      await expect(large).not.to.decryptTo(42);
+    });
+
+    it("fails on another plaintext", async function () {
+      await expect(expect(small).to.decryptTo(43)).to.be.rejectedWith(/to decrypt to 43, but it decrypted to 42/);
+      await expect(expect(small).not.to.decryptTo(42)).to.be.rejectedWith(/not to decrypt to 42/);
+    });
+  });
+
+  describe("encryptedEqual", function () {
+    it("passes on handles with the same plaintext", async function () {
+      const { handle: again } = await client.submit(42, FheType.Uint32);
+      await expect(small).to.encryptedEqual(again);
+      await expect(small).not.to.encryptedEqual(large);
+    });
+
+    it("fails on handles with different plaintexts", async function () {
+      await expect(expect(small).to.encryptedEqual(large)).to.be.rejectedWith(/\(42\) to equal .* \(1000\)/);
+    });
+  });
+
+  describe("encryptedInRange", function () {
+    it("passes within the bounds, inclusive", async function () {
+      await expect(small).to.be.encryptedInRange(42, 100);
+      await expect(large).to.be.encryptedInRange(0n, 1000n);
+      await expect(large).not.to.be.encryptedInRange(0, 999);
+    });
+
+    it("fails outside the bounds", async function () {
+      await expect(expect(small).to.be.encryptedInRange(43, 100)).to.be.rejectedWith(
+        /to be in range \[43, 100\], but it decrypted to 42/,
+      );
+    });
+
+    it("rejects a non-integer handle", async function () {
+      await expect(expect(flag).to.be.encryptedInRange(0, 1)).to.be.rejectedWith(TypeError, /expects an euint handle/);
+    });
+  });
+});
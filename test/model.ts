@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { FheType, bitWidth, typeName } from "../src/fheTypes";
+import {
+  DivisionByZeroError,
+  UnsupportedOperationError,
+  binaryOperation,
+  cast,
+  isValidRandom,
+  unaryOperation,
+} from "../src/model";
+
+const UINTS = [FheType.Uint8, FheType.Uint16, FheType.Uint32, FheType.Uint64, FheType.Uint128];
+
+describe("plaintext model", function () {
+  for (const type of UINTS) {
+    const bits = bitWidth(type);
+    const max = (1n << BigInt(bits)) - 1n;
+
+    describe(typeName(type), function () {
+      it("wraps add, sub and mul modulo 2^bits", function () {
+        expect(binaryOperation("fheAdd", type, max, 1)).to.equal(0n);
+        expect(binaryOperation("fheAdd", type, max, max)).to.equal(max - 1n);
+        expect(binaryOperation("fheSub", type, 0, 1)).to.equal(max);
+        expect(binaryOperation("fheSub", type, 3, 5)).to.equal(max - 1n);
+        expect(binaryOperation("fheMul", type, max, max)).to.equal(1n);
+        expect(binaryOperation("fheMul", type, 1n << BigInt(bits - 1), 2)).to.equal(0n);
+      });
+
+      it("takes shift and rotate amounts modulo the bit width", function () {
+        expect(binaryOperation("fheShl", type, 1, bits)).to.equal(1n);
+        expect(binaryOperation("fheShl", type, 1, bits + 1)).to.equal(2n);
+        expect(binaryOperation("fheShl", type, max, 1)).to.equal(max - 1n);
+        expect(binaryOperation("fheShr", type, 4, bits + 2)).to.equal(1n);
+        expect(binaryOperation("fheRotl", type, 0b101, 0)).to.equal(0b101n);
+        expect(binaryOperation("fheRotl", type, 0b101, bits)).to.equal(0b101n);
+        expect(binaryOperation("fheRotr", type, 0b101, 0)).to.equal(0b101n);
+        expect(binaryOperation("fheRotr", type, 0b101, bits)).to.equal(0b101n);
+        expect(binaryOperation("fheRotl", type, 1n << BigInt(bits - 1), 1)).to.equal(1n);
+        expect(binaryOperation("fheRotr", type, 1, 1)).to.equal(1n << BigInt(bits - 1));
+        expect(binaryOperation("fheRotr", type, 1, bits + 1)).to.equal(1n << BigInt(bits - 1));
+      });
+
+      it("negates in two's complement and inverts every bit", function () {
+        expect(unaryOperation("fheNeg", type, 1)).to.equal(max);
+        expect(unaryOperation("fheNeg", type, 0)).to.equal(0n);
+        expect(unaryOperation("fheNot", type, 0)).to.equal(max);
+        expect(unaryOperation("fheNot", type, 1)).to.equal(max - 1n);
+      });
+    });
+  }
+
+  it("shifts, rotates and negates euint256 values", function () {
+    const max = (1n << 256n) - 1n;
+    expect(binaryOperation("fheShl", FheType.Uint256, max, 256)).to.equal(max);
+    expect(binaryOperation("fheRotl", FheType.Uint256, 1n << 255n, 1)).to.equal(1n);
+    expect(binaryOperation("fheRotr", FheType.Uint256, 3, 256)).to.equal(3n);
+    expect(unaryOperation("fheNeg", FheType.Uint256, 1)).to.equal(max);
+    expect(unaryOperation("fheNot", FheType.Uint256, max)).to.equal(0n);
+  });
+
+  it("rejects a zero divisor for div and rem", function () {
+    expect(binaryOperation("fheDiv", FheType.Uint8, 7, 2)).to.equal(3n);
+    expect(binaryOperation("fheRem", FheType.Uint8, 7, 2)).to.equal(1n);
+    expect(() => binaryOperation("fheDiv", FheType.Uint32, 7, 0)).to.throw(DivisionByZeroError, "fheDiv by zero");
+    expect(() => binaryOperation("fheRem", FheType.Uint32, 7, 0)).to.throw(DivisionByZeroError, "fheRem by zero");
+  });
+
+  it("inverts an ebool logically and does not negate it", function () {
+    expect(unaryOperation("fheNot", FheType.Bool, true)).to.equal(false);
+    expect(unaryOperation("fheNot", FheType.Bool, false)).to.equal(true);
+    expect(() => unaryOperation("fheNeg", FheType.Bool, true)).to.throw(
+      UnsupportedOperationError,
+      "fheNeg does not support ebool",
+    );
+  });
+
+  it("truncates narrowing casts and zero-extends widening ones", function () {
+    expect(cast(FheType.Uint16, FheType.Uint8, 0x1234)).to.equal(0x34n);
+    expect(cast(FheType.Uint64, FheType.Uint32, (1n << 64n) - 1n)).to.equal((1n << 32n) - 1n);
+    expect(cast(FheType.Uint8, FheType.Uint128, 0xff)).to.equal(0xffn);
+    expect(cast(FheType.Bool, FheType.Uint8, true)).to.equal(1n);
+    expect(() => cast(FheType.Uint32, FheType.Uint32, 1)).to.throw("cast from euint32 to itself is rejected");
+    expect(() => cast(FheType.Uint8, FheType.Bool, 1)).to.throw(UnsupportedOperationError);
+  });
+
+  it("rejects operations the executor does not support on a type", function () {
+    expect(() => binaryOperation("fheAdd", FheType.Uint256, 1, 1)).to.throw(
+      UnsupportedOperationError,
+      "fheAdd does not support euint256",
+    );
+    const address = "0x000000000000000000000000000000000000dEaD";
+    expect(() => binaryOperation("fheGe", FheType.Uint160, address, address)).to.throw(
+      UnsupportedOperationError,
+      "fheGe does not support eaddress",
+    );
+    expect(binaryOperation("fheEq", FheType.Uint160, address, address)).to.equal(true);
+  });
+
+  it("only bounds random values by a power of two", function () {
+    expect(isValidRandom(FheType.Uint8, 255n)).to.equal(true);
+    expect(isValidRandom(FheType.Uint8, 15n, 16n)).to.equal(true);
+    expect(isValidRandom(FheType.Uint8, 16n, 16n)).to.equal(false);
+    expect(isValidRandom(FheType.Uint8, 0n, 1n)).to.equal(true);
+    for (const bound of [0n, 3n, 12n, -4n]) {
+      expect(() => isValidRandom(FheType.Uint8, 0n, bound)).to.throw(`upper bound ${bound} is not a power of two`);
+    }
+    expect(() => isValidRandom(FheType.Bool, true, 2n)).to.throw(UnsupportedOperationError);
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { Mutant, MutantResult, applyMutant, generateMutants, summarizeMutations } from "../src/mutation";
+
+const SOURCE = `contract Counter {
+    uint256 private limit = 1 > 0 ? 2 : 3;
+    mapping(uint256 => bool) private seen;
+
+    // FHE.add(a, b) and a < b in a comment
+    function step(euint32 a, euint32 b, uint256 n) internal returns (ebool) {
+        mapping(uint256 => bool) storage marks = seen;
+        string memory label = "FHE.sub(a, b) == 1";
+        n >>= 1;
+        n = (n << 2) >> 1; /* n < 4 */
+        euint32 sum = FHE.add(a, b);
+        if (n >= 3) {
+            marks[n] = true;
+        }
+        return FHE.lt(sum, b);
+    }
+
+    modifier nonZero(uint256 n) {
+        require(n != 0, "n == 0");
+        _;
+    }
+
+    function check(uint256 n) external pure returns (bool);
+}
+`;
+
+describe("mutation testing", function () {
+  describe("generateMutants", function () {
+    const mutants = generateMutants("contracts/Counter.sol", SOURCE);
+
+    it("mutates FHE calls and comparisons inside function and modifier bodies only", function () {
+      const found = mutants.map((m) => [m.line, m.column, m.function, m.original, m.replacement]);
+      expect(found).to.deep.equal([
+        [11, 23, "step", "FHE.add", "FHE.sub"],
+        [12, 15, "step", ">=", "<"],
+        [12, 15, "step", ">=", ">"],
+        [15, 16, "step", "FHE.lt", "FHE.ge"],
+        [15, 16, "step", "FHE.lt", "FHE.le"],
+        [19, 19, "nonZero", "!=", "=="],
+      ]);
+    });
+
+    it("records where each mutant applies", function () {
+      for (const mutant of mutants) {
+        expect(SOURCE.slice(mutant.offset, mutant.offset + mutant.length)).to.equal(mutant.original);
+      }
+      const [add] = mutants;
+      expect(applyMutant(SOURCE, add).split("\n")[10]).to.equal("        euint32 sum = FHE.sub(a, b);");
+    });
+  });
+
+  describe("summarizeMutations", function () {
+    const mutant = (fn: string): Mutant => ({
+      file: "contracts/Counter.sol",
+      line: 1,
+      column: 1,
+      function: fn,
+      original: "<",
+      replacement: ">=",
+      offset: 0,
+      length: 1,
+    });
+
+    it("scores the killed share of the valid mutants, per function and overall", function () {
+      const survivor = mutant("step");
+      const results: MutantResult[] = [
+        { mutant: mutant("step"), status: "killed" },
+        { mutant: mutant("step"), status: "timeout" },
+        { mutant: survivor, status: "survived" },
+        { mutant: mutant("step"), status: "invalid" },
+        { mutant: mutant("nonZero"), status: "killed" },
+        { mutant: mutant("nonZero"), status: "survived" },
+      ];
+      const report = summarizeMutations(results);
+      expect(report).to.include({ score: 60, total: 6, killed: 3, survived: 2, invalid: 1 });
+      const [step, nonZero] = report.functions;
+      expect(step).to.include({ function: "step", killed: 2, survived: 1, invalid: 1, score: 66.7 });
+      expect(step.survivors).to.deep.equal([survivor]);
+      expect(nonZero).to.include({ function: "nonZero", score: 50 });
+    });
+
+    it("has no score without valid mutants", function () {
+      const report = summarizeMutations([{ mutant: mutant("step"), status: "invalid" }]);
+      expect(report.score).to.equal(null);
+      expect(report.functions[0].score).to.equal(null);
+      expect(summarizeMutations([])).to.deep.equal({
+        score: null,
+        total: 0,
+        killed: 0,
+        survived: 0,
+        invalid: 0,
+        functions: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { DecryptionRequest, LocalDecryptionOracle } from "../src/oracle";
+
+describe("LocalDecryptionOracle faults", function () {
+  let client: FHETestFrameworkClient;
+  let oracle: LocalDecryptionOracle;
+  let request: DecryptionRequest;
+  let id: bigint;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    oracle = await new LocalDecryptionOracle(hre).init();
+    ({ id } = await client.submit(7, FheType.Uint32));
+    request = await oracle.findRequest(await client.requestReveal(id));
+  });
+
+  for (const fault of ["tamperSignature", "swapCleartexts", "wrongRequestId"] as const) {
+    it(`rejects ${fault} and keeps the value hidden`, async function () {
+      await expect(oracle.injectFault(request, fault)).to.beRejectedByCallback();
+      expect((await client.getClearValue(id)).revealed).to.equal(false);
+    });
+  }
+
+  it("rejects a replay of a delivered callback", async function () {
+    await expect(oracle.injectFault(request, "replay")).to.beRejectedByCallback("Already revealed");
+    expect((await client.getClearValue(id)).value).to.equal(7n);
+  });
+
+  it("leaves a dropped request unrevealed", async function () {
+    await expect(oracle.injectFault(request, "drop")).to.leaveUnrevealed(client.contract, id);
+    expect(oracle.dropped).to.deep.equal([request]);
+  });
+
+  it("accepts a genuine callback from an account other than the relayer", async function () {
+    const [, stranger] = await ethers.getSigners();
+    const delivery = await oracle.injectFault(request, "nonOracleSender", { sender: stranger });
+    await expect(delivery).to.beAcceptedByCallback();
+    const tx = await ethers.provider.getTransaction(delivery!.transactionHash!);
+    expect(tx!.from).to.equal(stranger.address);
+    expect((await client.getClearValue(id)).value).to.equal(7n);
+  });
+
+  it("rejects a tampered callback from an account other than the relayer", async function () {
+    const [, stranger] = await ethers.getSigners();
+    await expect(oracle.injectFault(request, "tamperSignature", { sender: stranger })).to.beRejectedByCallback();
+    expect((await client.getClearValue(id)).revealed).to.equal(false);
+  });
+
+  it("fails beAcceptedByCallback on a rejected delivery", async function () {
+    await expect(expect(oracle.injectFault(request, "swapCleartexts")).to.beAcceptedByCallback()).to.be.rejectedWith(
+      /to be accepted, but it reverted with/,
+    );
+  });
+
+  it("fails beRejectedByCallback on a genuine delivery", async function () {
+    await expect(expect(oracle.deliver(request)).to.beRejectedByCallback()).to.be.rejectedWith(/but it went through/);
+  });
+
+  it("fails beRejectedByCallback on a revert other than the expected one", async function () {
+    await expect(
+      expect(oracle.injectFault(request, "tamperSignature")).to.beRejectedByCallback("Already revealed"),
+    ).to.be.rejectedWith(/to be rejected with Already revealed, but it reverted with/);
+  });
+
+  it("fails leaveUnrevealed once the value is revealed", async function () {
+    await expect(expect(oracle.fulfill()).to.leaveUnrevealed(client.contract, id)).to.be.rejectedWith(
+      /expected value \d+ to stay unrevealed, but it was revealed as 7/,
+    );
+  });
+
+  describe("in the background", function () {
+    afterEach(async function () {
+      await oracle?.stop().catch(() => undefined);
+    });
+
+    it("delivers requests until stopped", async function () {
+      oracle.start(10);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await oracle.stop();
+      expect((await client.getClearValue(id)).value).to.equal(7n);
+    });
+
+    it("ends the loop on an error and rethrows it from stop()", async function () {
+      oracle.poll = async () => {
+        throw new Error("node unreachable");
+      };
+      oracle.start(10);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await expect(oracle.stop()).to.be.rejectedWith("node unreachable");
+      await oracle.stop();
+    });
+
+    it("rethrows the error from the next fulfill() once", async function () {
+      const poll = oracle.poll.bind(oracle);
+      let calls = 0;
+      oracle.poll = async () => {
+        if (calls++ === 0) {
+          throw new Error("node unreachable");
+        }
+        return poll();
+      };
+      oracle.start(10);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(calls).to.equal(1);
+      await expect(oracle.fulfill()).to.be.rejectedWith("node unreachable");
+      expect(await oracle.fulfill()).to.have.length(1);
+      await oracle.stop();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { Budget, CostTotals, GasProfiler, ProfileReport, diffProfiles, formatProfileDiff } from "../src/profiler";
+import { TransactionProfiler } from "../src/profilerReporter";
+import { FHEAssertHarness__factory } from "../types/factories/contracts/test/FHEAssertHarness__factory";
+
+function totals(calls: number, gas: number, hcu: number): CostTotals {
+  return { calls, gas, hcu, maxGas: gas, maxHcu: hcu };
+}
+
+describe("gas and HCU profiling", function () {
+  describe("TransactionProfiler", function () {
+    let profiler: GasProfiler;
+
+    beforeEach(function () {
+      if (!hre.fhevm.isMock) {
+        this.skip();
+      }
+      profiler = new GasProfiler();
+    });
+
+    // FHEAssertHarness behind a profiling provider, with its functions named and the given budgets.
+    async function deployProfiled(budgets: Record<string, Budget>) {
+      const functionNames = new Map<string, string>();
+      FHEAssertHarness__factory.createInterface().forEachFunction((fn) => functionNames.set(fn.selector, fn.name));
+      const recorder = new TransactionProfiler(hre.network.provider, profiler, {
+        budgets,
+        functionNames,
+        currentTest: () => "profiled test",
+      });
+      const signer = await new ethers.BrowserProvider(recorder).getSigner(0);
+      const harness = await new FHEAssertHarness__factory(signer).deploy();
+      await harness.waitForDeployment();
+      return harness;
+    }
+
+    it("attributes the HCU of each FHE operation to the transaction, its function and its test", async function () {
+      const harness = await deployProfiled({});
+      await (await harness.assertAll(13, 5)).wait();
+
+      const [deploy, tx] = profiler.transactions;
+      expect(deploy).to.include({ functionName: "(deploy)", hcu: 0 });
+      expect(tx).to.include({ test: "profiled test", functionName: "assertAll", hcu: 599_064, depth: 118_032 });
+      expect(tx.operations).to.deep.equal({
+        "trivialEncrypt(euint32)": { calls: 2, hcu: 64 },
+        "fheEq(euint32)": { calls: 2, hcu: 172_000 },
+        "fheNe(euint32)": { calls: 1, hcu: 85_000 },
+        "fheGe(euint32)": { calls: 1, hcu: 84_000 },
+        "fheLe(euint32)": { calls: 1, hcu: 84_000 },
+        "fheBitAnd(ebool)": { calls: 1, hcu: 25_000 },
+        "fheBitAnd(euint32)": { calls: 1, hcu: 32_000 },
+        "fheLt(euint32)": { calls: 1, hcu: 117_000 },
+      });
+
+      const report = profiler.report();
+      expect(report.functions.assertAll).to.deep.equal(totals(1, tx.gasUsed, 599_064));
+      expect(report.tests["profiled test"]).to.include({ calls: 2, hcu: 599_064 });
+      expect(report.operations).to.deep.equal(tx.operations);
+    });
+
+    it("fails a transaction over its function's budget, or over the default one", async function () {
+      const harness = await deployProfiled({ assertAll: { hcu: 599_063 }, "(deploy)": {}, "*": { gas: 1_000 } });
+      const overHcu = await harness.assertAll(13, 5).catch((e) => e);
+      expect(overHcu.message).to.include("assertAll used 599064 HCU, over its budget of 599063");
+      const overGas = await harness.requestReveal([1]).catch((e) => e);
+      expect(overGas.message).to.match(/requestReveal used \d+ gas, over its budget of 1000/);
+      // The transactions were mined, and are profiled, before their budget was checked.
+      expect(profiler.transactions.map((tx) => tx.functionName)).to.deep.equal([
+        "(deploy)",
+        "assertAll",
+        "requestReveal",
+      ]);
+    });
+
+    it("passes a transaction within its function's budget whatever the default one", async function () {
+      const harness = await deployProfiled({ assertAll: { hcu: 599_064 }, "*": { hcu: 1 } });
+      await (await harness.assertAll(13, 5)).wait();
+    });
+  });
+
+  describe("diffProfiles", function () {
+    const baseline: ProfileReport = {
+      tests: { "a test": totals(2, 300_000, 100_000), "unchanged test": totals(1, 50_000, 0) },
+      functions: { submit: totals(2, 300_000, 100_000), check: totals(1, 50_000, 0) },
+      operations: {},
+    };
+
+    it("lists the tests by total and the functions by average cost that moved", function () {
+      const current: ProfileReport = {
+        tests: {
+          "a test": totals(3, 360_000, 150_000),
+          "new test": totals(1, 10_000, 5_000),
+          "unchanged test": totals(1, 50_000, 0),
+        },
+        // Three calls averaging what the two baseline calls did: no change.
+        functions: { submit: totals(3, 450_000, 150_000), check: totals(1, 55_000, 0) },
+        operations: {},
+      };
+      const deltas = diffProfiles(baseline, current);
+      expect(deltas).to.deep.equal([
+        { scope: "function", name: "check", gas: [50_000, 55_000], hcu: [0, 0] },
+        { scope: "test", name: "a test", gas: [300_000, 360_000], hcu: [100_000, 150_000] },
+        { scope: "test", name: "new test", gas: [0, 10_000], hcu: [0, 5_000] },
+      ]);
+
+      const lines = formatProfileDiff(deltas).split("\n");
+      expect(lines[0]).to.match(/^Changed since baseline\s+Gas\s+Δ gas\s+HCU\s+Δ HCU$/);
+      expect(lines[1]).to.match(/^function check +55000 +\+5000 \(10\.0%\) +0 +0$/);
+      expect(lines[2]).to.match(/^test a test +360000 +\+60000 \(20\.0%\) +150000 +\+50000 \(50\.0%\)$/);
+      expect(lines[3]).to.match(/^test new test +10000 +new +5000 +new$/);
+    });
+
+    it("reports no change against itself", function () {
+      expect(diffProfiles(baseline, baseline)).to.deep.equal([]);
+      expect(formatProfileDiff([])).to.equal("No gas or HCU changes since the baseline");
+    });
+  });
+
+  it("writes the profile and its baseline under reports/ by default", function () {
+    const { outputFile, baseline } = hre.config.fheProfiler;
+    expect(path.relative(hre.config.paths.root, outputFile)).to.equal(path.join("reports", "fhe-profile.json"));
+    expect(path.relative(hre.config.paths.root, baseline)).to.equal(path.join("reports", "fhe-profile.baseline.json"));
+  });
+});
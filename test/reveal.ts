@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FHETestFrameworkClient } from "../src/client";
+import { FheType } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { DecryptionRequest, EXPECTED_FAULT_REVERTS, LocalDecryptionOracle } from "../src/oracle";
+import { findStuckReveals, RevealTimeoutError } from "../src/reveal";
+
+describe("decryption deadlines", function () {
+  let client: FHETestFrameworkClient;
+  let oracle: LocalDecryptionOracle;
+  let stale: DecryptionRequest;
+  let id: bigint;
+  let fromBlock: number;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    fromBlock = await ethers.provider.getBlockNumber();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    oracle = await new LocalDecryptionOracle(hre).init();
+    ({ id } = await client.submit(7, FheType.Uint32));
+    stale = await oracle.findRequest(await client.requestReveal(id));
+    oracle.pending.splice(0);
+  });
+
+  it("lists the request once it is past its deadline", async function () {
+    expect(await findStuckReveals(client.contract, { fromBlock })).to.deep.equal([]);
+    await time.increase((await client.contract.DECRYPTION_TIMEOUT()) + 1n);
+    const [stuck] = await findStuckReveals(client.contract, { fromBlock });
+    expect(stuck.id).to.equal(id);
+    expect(stuck.requestId).to.equal(stale.requestID);
+    expect(await findStuckReveals(client.contract, { fromBlock: stale.blockNumber + 1 })).to.deep.equal([]);
+  });
+
+  it("times out on a request made before it started waiting as pending", async function () {
+    await mine(2);
+    const error = await client.awaitReveal(id, { oracle, timeoutMs: 0 }).catch((e) => e);
+    expect(error).to.be.instanceOf(RevealTimeoutError);
+    expect(error).to.include({ stage: "pending" });
+    expect(error.requestIds).to.deep.equal([stale.requestID]);
+  });
+
+  it("cannot cancel before the deadline", async function () {
+    await expect(client.cancelReveal(id)).to.be.revertedWith("Decryption not stale");
+  });
+
+  it("ignores a genuine callback for a replaced request and reveals through the new one", async function () {
+    await time.increase(await client.contract.DECRYPTION_TIMEOUT());
+    await client.retryReveal(id);
+
+    const late = await oracle.deliver(stale);
+    expect(late.reverted).to.equal(false);
+    const receipt = await ethers.provider.getTransactionReceipt(late.transactionHash!);
+    const events = receipt!.logs.map((log) => client.contract.interface.parseLog(log)?.name);
+    expect(events).to.include("LateDecryptionIgnored");
+    expect((await client.getClearValue(id)).revealed).to.equal(false);
+
+    expect(await client.awaitReveal(id, { oracle })).to.equal(7n);
+  });
+
+  it("checks the signatures of a callback for a cancelled request before ignoring it", async function () {
+    await time.increase(await client.contract.DECRYPTION_TIMEOUT());
+    await client.cancelReveal(id);
+
+    await expect(oracle.injectFault(stale, "tamperSignature")).to.beRejectedByCallback(
+      EXPECTED_FAULT_REVERTS.tamperSignature,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { EventEmitter } from "events";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import Mocha from "mocha";
+import { timeDecryption } from "../src/decryptionLog";
+import { FheTestReporter, TestRunReport } from "../src/testReports";
+
+const { EVENT_RUN_BEGIN, EVENT_RUN_END, EVENT_TEST_BEGIN, EVENT_TEST_FAIL, EVENT_TEST_PASS, EVENT_TEST_PENDING } =
+  Mocha.Runner.constants;
+
+// Just enough of a mocha runner for the reporter: its events, and the stats the Spec summary prints.
+function fakeRunner(): Mocha.Runner {
+  const stats = { suites: 0, tests: 0, passes: 0, pending: 0, failures: 0, duration: 0 };
+  return Object.assign(new EventEmitter(), { stats }) as unknown as Mocha.Runner;
+}
+
+// A test of the suite `describe` in `file`, as the runner would hand it to the reporter.
+function fakeTest(describe: string, title: string, file: string): Mocha.Test {
+  const suite = new Mocha.Suite(describe);
+  const test = new Mocha.Test(title, () => undefined);
+  suite.addTest(test);
+  test.file = path.join(process.cwd(), file);
+  test.duration = 1500;
+  return test;
+}
+
+describe("fhe:test reports", function () {
+  let outputDir: string;
+  let consoleLog: (...args: unknown[]) => void;
+
+  beforeEach(function () {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "fhe-test-"));
+    // Keep the Spec output of the fake run out of this run's.
+    consoleLog = Mocha.reporters.Base.consoleLog;
+    Mocha.reporters.Base.consoleLog = () => undefined;
+  });
+
+  afterEach(function () {
+    Mocha.reporters.Base.consoleLog = consoleLog;
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  // Run a passing, a failing and a skipped test, each decrypting a value, through the reporter.
+  async function runFakeSuite(): Promise<void> {
+    const runner = fakeRunner();
+    new FheTestReporter(runner, { reporterOption: { formats: ["junit", "json", "tap"], outputDir, mode: "mock" } });
+
+    const passing = fakeTest("values", "reveals 7", "test/values.ts");
+    const failing = fakeTest("values", "reveals <8> & #9", "test/values.ts");
+    const skipped = fakeTest("checks", "is skipped", "test/checks.ts");
+    runner.emit(EVENT_RUN_BEGIN);
+    runner.emit(EVENT_TEST_BEGIN, passing);
+    await timeDecryption("value 1", async () => 7n);
+    runner.emit(EVENT_TEST_PASS, passing);
+    runner.emit(EVENT_TEST_BEGIN, failing);
+    await timeDecryption("value 2", async () => 8n);
+    runner.emit(EVENT_TEST_FAIL, failing, new Error('expected 8 to equal 9 "exactly"'));
+    runner.emit(EVENT_TEST_PENDING, skipped);
+    runner.emit(EVENT_RUN_END);
+  }
+
+  function read(file: string): string {
+    return fs.readFileSync(path.join(outputDir, file), "utf8");
+  }
+
+  it("writes every test with its outcome as JSON, keeping decrypted values only for failures", async function () {
+    await runFakeSuite();
+    const report: TestRunReport = JSON.parse(read("results.json"));
+    expect(report.mode).to.equal("mock");
+    expect(report.stats).to.include({ tests: 3, passed: 1, failed: 1, skipped: 1 });
+
+    const [passed, failed, skipped] = report.tests;
+    expect(passed).to.include({ title: "reveals 7", fullTitle: "values reveals 7", file: "test/values.ts" });
+    expect(passed).to.include({ state: "passed", durationMs: 1500 });
+    expect(passed.error).to.equal(undefined);
+    expect(passed.decryptions.map((d) => Object.keys(d).sort())).to.deep.equal([["durationMs", "subject"]]);
+
+    expect(failed).to.include({ state: "failed" });
+    expect(failed.error!.message).to.equal('expected 8 to equal 9 "exactly"');
+    expect(failed.decryptions).to.have.length(1);
+    expect(failed.decryptions[0]).to.include({ subject: "value 2", value: "8" });
+
+    expect(skipped).to.include({ state: "skipped", file: "test/checks.ts" });
+    expect(skipped.decryptions).to.deep.equal([]);
+  });
+
+  it("writes one JUnit suite per test file with failures, skips and decryptions", async function () {
+    await runFakeSuite();
+    const junit = read("junit.xml");
+    expect(junit).to.match(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="fhe:test \(mock\)" tests="3"/);
+    expect(junit).to.include(`failures="1" skipped="1"`);
+
+    const suites = junit.match(/<testsuite [^>]*>/g);
+    expect(suites).to.deep.equal([
+      `<testsuite name="test/values.ts" tests="2" failures="1" skipped="0" time="3.000">`,
+      `<testsuite name="test/checks.ts" tests="1" failures="0" skipped="1" time="1.500">`,
+    ]);
+    expect(junit).to.match(
+      /<testcase classname="values" name="reveals 7" time="1.500">\n {6}<system-out>decrypted value 1 in \d+ms<\/system-out>\n {4}<\/testcase>/,
+    );
+    expect(junit).to.include(`<testcase classname="values" name="reveals &lt;8&gt; &amp; #9" time="1.500">`);
+    expect(junit).to.include(`<failure message="expected 8 to equal 9 &quot;exactly&quot;">Error: expected 8`);
+    expect(junit).to.match(/<system-out>decrypted value 2 = 8 in \d+ms<\/system-out>/);
+    expect(junit).to.match(/<testcase classname="checks" name="is skipped" time="1.500">\n {6}<skipped\/>/);
+    expect(junit.trimEnd().endsWith("</testsuites>")).to.equal(true);
+  });
+
+  it("writes TAP 13 with YAML diagnostics for failures and decryptions", async function () {
+    await runFakeSuite();
+    const lines = read("results.tap").split("\n");
+    expect(lines.slice(0, 2)).to.deep.equal(["TAP version 13", "1..3"]);
+    expect(lines.filter((line) => /^(not )?ok /.test(line))).to.deep.equal([
+      "ok 1 - values reveals 7",
+      "not ok 2 - values reveals <8> & \\#9",
+      "ok 3 - checks is skipped # SKIP",
+    ]);
+
+    const diagnostics = (from: string) => {
+      const start = lines.indexOf(from) + 1;
+      return lines.slice(start, lines.indexOf("  ...", start) + 1);
+    };
+    const passed = diagnostics("ok 1 - values reveals 7");
+    expect(passed[0]).to.equal("  ---");
+    expect(passed).to.include('    - subject: "value 1"');
+    expect(passed.some((line) => line.includes("value:"))).to.equal(false);
+
+    const failed = diagnostics("not ok 2 - values reveals <8> & \\#9");
+    expect(failed).to.include(`  message: "expected 8 to equal 9 \\"exactly\\""`);
+    expect(failed).to.include('    - subject: "value 2"');
+    expect(failed).to.include('      value: "8"');
+    expect(lines[lines.indexOf("ok 3 - checks is skipped # SKIP") + 1]).to.equal("");
+  });
+
+  it("writes only the requested formats", async function () {
+    const runner = fakeRunner();
+    new FheTestReporter(runner, { reporterOption: { formats: ["tap"], outputDir, mode: "sepolia" } });
+    runner.emit(EVENT_RUN_BEGIN);
+    runner.emit(EVENT_RUN_END);
+    expect(fs.readdirSync(outputDir)).to.deep.equal(["results.tap"]);
+    expect(read("results.tap")).to.equal("TAP version 13\n1..0\n");
+  });
+
+  it("rejects an unknown mode or report format before running anything", async function () {
+    await expect(hre.run("fhe:test", { mode: "mainnet" })).to.be.rejectedWith(/Unknown mode "mainnet"/);
+    await expect(hre.run("fhe:test", { reporters: "junit,xml" })).to.be.rejectedWith(/Unknown reporters xml/);
+  });
+});
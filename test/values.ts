@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { FHETestFrameworkClient } from "../src/client";
+import { ClearValue, FheType, bitWidth, typeName } from "../src/fheTypes";
+import { hardhatInputFactory } from "../src/inputs";
+import { LocalDecryptionOracle } from "../src/oracle";
+import { SUBMITTABLE_TYPES, decryptValue, encryptAndSubmit, submitValue } from "../src/values";
+
+// A value that uses the top bit of the type without being all ones.
+function sample(type: FheType): ClearValue {
+  if (type === FheType.Bool) {
+    return true;
+  }
+  if (type === FheType.Uint160) {
+    return ethers.getAddress("0x800000000000000000000000000000000000dead");
+  }
+  return (1n << BigInt(bitWidth(type))) - 2n;
+}
+
+describe("encrypted values", function () {
+  let client: FHETestFrameworkClient;
+  let oracle: LocalDecryptionOracle;
+
+  beforeEach(async function () {
+    if (!hre.fhevm.isMock) {
+      this.skip();
+    }
+    const [owner] = await ethers.getSigners();
+    client = await FHETestFrameworkClient.deploy(owner, hardhatInputFactory(hre));
+    oracle = await new LocalDecryptionOracle(hre).init();
+  });
+
+  it("can submit every type but euint4", function () {
+    expect(SUBMITTABLE_TYPES).to.deep.equal([
+      FheType.Bool,
+      FheType.Uint8,
+      FheType.Uint16,
+      FheType.Uint32,
+      FheType.Uint64,
+      FheType.Uint128,
+      FheType.Uint160,
+      FheType.Uint256,
+    ]);
+  });
+
+  for (const type of SUBMITTABLE_TYPES) {
+    it(`submits and reveals an ${typeName(type)}`, async function () {
+      const value = sample(type);
+      const { id, handle } = await encryptAndSubmit(client.contract, type, value);
+      const stored = await client.contract.encryptedValues(id);
+      expect([stored.handle, stored.valueType]).to.deep.equal([handle, BigInt(type)]);
+      expect(await decryptValue(hre, client.contract, id)).to.equal(value);
+
+      await client.requestReveal(id);
+      expect(await client.awaitReveal(id, { oracle })).to.equal(value);
+      expect((await client.getClearValue(id)).type).to.equal(type);
+    });
+  }
+
+  it("refuses a type the framework cannot store", async function () {
+    await expect(submitValue(client.contract, FheType.Uint4, ethers.ZeroHash)).to.be.rejectedWith(
+      "FHETestFramework cannot store euint4 values",
+    );
+  });
+});
@@ -0,0 +1,421 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface EncryptedAggregatesInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AGGREGATE_EPOCH"
+      | "MIN_EXTREMES_COUNT"
+      | "aggregates"
+      | "fold"
+      | "framework"
+      | "handleAggregateDecryption"
+      | "isAggregated"
+      | "protocolId"
+      | "requestAggregateDecryption"
+      | "revealedAggregates"
+      | "snapshots"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AggregateDecryptionRequested"
+      | "AggregateRevealed"
+      | "DecryptionFulfilled"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AGGREGATE_EPOCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_EXTREMES_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "aggregates",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fold",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "framework", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "handleAggregateDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAggregated",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAggregateDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealedAggregates",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "snapshots",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AGGREGATE_EPOCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_EXTREMES_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "aggregates", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "fold", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "framework", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "handleAggregateDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAggregated",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAggregateDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealedAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "snapshots", data: BytesLike): Result;
+}
+
+export namespace AggregateDecryptionRequestedEvent {
+  export type InputTuple = [
+    valueType: BigNumberish,
+    count: BigNumberish,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    valueType: bigint,
+    count: bigint,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    valueType: bigint;
+    count: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AggregateRevealedEvent {
+  export type InputTuple = [valueType: BigNumberish, count: BigNumberish];
+  export type OutputTuple = [valueType: bigint, count: bigint];
+  export interface OutputObject {
+    valueType: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface EncryptedAggregates extends BaseContract {
+  connect(runner?: ContractRunner | null): EncryptedAggregates;
+  waitForDeployment(): Promise<this>;
+
+  interface: EncryptedAggregatesInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AGGREGATE_EPOCH: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_EXTREMES_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  aggregates: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string] & {
+        count: bigint;
+        sum: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+
+  fold: TypedContractMethod<
+    [handle: BytesLike, valueType: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  framework: TypedContractMethod<[], [string], "view">;
+
+  handleAggregateDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isAggregated: TypedContractMethod<
+    [valueType: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestAggregateDecryption: TypedContractMethod<
+    [valueType: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  revealedAggregates: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, boolean, boolean] & {
+        count: bigint;
+        sum: bigint;
+        min: bigint;
+        max: bigint;
+        extremes: boolean;
+        revealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  snapshots: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string] & {
+        count: bigint;
+        sum: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AGGREGATE_EPOCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_EXTREMES_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "aggregates"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string] & {
+        count: bigint;
+        sum: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "fold"
+  ): TypedContractMethod<
+    [handle: BytesLike, valueType: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "framework"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "handleAggregateDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isAggregated"
+  ): TypedContractMethod<[valueType: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestAggregateDecryption"
+  ): TypedContractMethod<[valueType: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealedAggregates"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, boolean, boolean] & {
+        count: bigint;
+        sum: bigint;
+        min: bigint;
+        max: bigint;
+        extremes: boolean;
+        revealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "snapshots"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, string] & {
+        count: bigint;
+        sum: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "AggregateDecryptionRequested"
+  ): TypedContractEvent<
+    AggregateDecryptionRequestedEvent.InputTuple,
+    AggregateDecryptionRequestedEvent.OutputTuple,
+    AggregateDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AggregateRevealed"
+  ): TypedContractEvent<
+    AggregateRevealedEvent.InputTuple,
+    AggregateRevealedEvent.OutputTuple,
+    AggregateRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+
+  filters: {
+    "AggregateDecryptionRequested(uint8,uint256,uint256)": TypedContractEvent<
+      AggregateDecryptionRequestedEvent.InputTuple,
+      AggregateDecryptionRequestedEvent.OutputTuple,
+      AggregateDecryptionRequestedEvent.OutputObject
+    >;
+    AggregateDecryptionRequested: TypedContractEvent<
+      AggregateDecryptionRequestedEvent.InputTuple,
+      AggregateDecryptionRequestedEvent.OutputTuple,
+      AggregateDecryptionRequestedEvent.OutputObject
+    >;
+
+    "AggregateRevealed(uint8,uint256)": TypedContractEvent<
+      AggregateRevealedEvent.InputTuple,
+      AggregateRevealedEvent.OutputTuple,
+      AggregateRevealedEvent.OutputObject
+    >;
+    AggregateRevealed: TypedContractEvent<
+      AggregateRevealedEvent.InputTuple,
+      AggregateRevealedEvent.OutputTuple,
+      AggregateRevealedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+  };
+}
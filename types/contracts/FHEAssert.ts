@@ -0,0 +1,186 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface FHEAssertInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssertionDecryptionRequested"
+      | "AssertionRecorded"
+      | "FHEAssertRevealed"
+  ): EventFragment;
+}
+
+export namespace AssertionDecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, ids: BigNumberish[]];
+  export type OutputTuple = [requestId: bigint, ids: bigint[]];
+  export interface OutputObject {
+    requestId: bigint;
+    ids: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssertionRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    kind: BigNumberish,
+    label: string,
+    result: BytesLike
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    kind: bigint,
+    label: string,
+    result: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    kind: bigint;
+    label: string;
+    result: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FHEAssertRevealedEvent {
+  export type InputTuple = [id: BigNumberish, passed: boolean];
+  export type OutputTuple = [id: bigint, passed: boolean];
+  export interface OutputObject {
+    id: bigint;
+    passed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHEAssert extends BaseContract {
+  connect(runner?: ContractRunner | null): FHEAssert;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHEAssertInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "AssertionDecryptionRequested"
+  ): TypedContractEvent<
+    AssertionDecryptionRequestedEvent.InputTuple,
+    AssertionDecryptionRequestedEvent.OutputTuple,
+    AssertionDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssertionRecorded"
+  ): TypedContractEvent<
+    AssertionRecordedEvent.InputTuple,
+    AssertionRecordedEvent.OutputTuple,
+    AssertionRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FHEAssertRevealed"
+  ): TypedContractEvent<
+    FHEAssertRevealedEvent.InputTuple,
+    FHEAssertRevealedEvent.OutputTuple,
+    FHEAssertRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssertionDecryptionRequested(uint256,uint256[])": TypedContractEvent<
+      AssertionDecryptionRequestedEvent.InputTuple,
+      AssertionDecryptionRequestedEvent.OutputTuple,
+      AssertionDecryptionRequestedEvent.OutputObject
+    >;
+    AssertionDecryptionRequested: TypedContractEvent<
+      AssertionDecryptionRequestedEvent.InputTuple,
+      AssertionDecryptionRequestedEvent.OutputTuple,
+      AssertionDecryptionRequestedEvent.OutputObject
+    >;
+
+    "AssertionRecorded(uint256,uint8,string,bytes32)": TypedContractEvent<
+      AssertionRecordedEvent.InputTuple,
+      AssertionRecordedEvent.OutputTuple,
+      AssertionRecordedEvent.OutputObject
+    >;
+    AssertionRecorded: TypedContractEvent<
+      AssertionRecordedEvent.InputTuple,
+      AssertionRecordedEvent.OutputTuple,
+      AssertionRecordedEvent.OutputObject
+    >;
+
+    "FHEAssertRevealed(uint256,bool)": TypedContractEvent<
+      FHEAssertRevealedEvent.InputTuple,
+      FHEAssertRevealedEvent.OutputTuple,
+      FHEAssertRevealedEvent.OutputObject
+    >;
+    FHEAssertRevealed: TypedContractEvent<
+      FHEAssertRevealedEvent.InputTuple,
+      FHEAssertRevealedEvent.OutputTuple,
+      FHEAssertRevealedEvent.OutputObject
+    >;
+  };
+}
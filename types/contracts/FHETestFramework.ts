@@ -0,0 +1,1586 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace FHETestFramework {
+  export type BoundStruct = { encrypted: boolean; value: BigNumberish };
+
+  export type BoundStructOutput = [encrypted: boolean, value: bigint] & {
+    encrypted: boolean;
+    value: bigint;
+  };
+}
+
+export interface FHETestFrameworkInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DECRYPTION_TIMEOUT"
+      | "MAX_ONE_OF"
+      | "addEncryptedCounters"
+      | "addEncryptedCountersUint128"
+      | "addEncryptedCountersUint16"
+      | "addEncryptedCountersUint64"
+      | "addEncryptedCountersUint8"
+      | "assertionCount"
+      | "assertions"
+      | "cancelValueDecryption"
+      | "checkCompare"
+      | "checkCount"
+      | "checkInRange"
+      | "checkOneOf"
+      | "checks"
+      | "clearValues"
+      | "delegates"
+      | "encryptedAggregates"
+      | "encryptedValues"
+      | "getCheckBounds"
+      | "getClearAddress"
+      | "getClearBool"
+      | "getClearUint"
+      | "getClearValue"
+      | "handleAssertionDecryption"
+      | "handleCheckDecryption"
+      | "handleDecryption"
+      | "isAuthorized"
+      | "mockEncrypted"
+      | "mockEncryptedZero"
+      | "mockEncryptedZeroAddress"
+      | "mockEncryptedZeroBool"
+      | "mockEncryptedZeroUint128"
+      | "mockEncryptedZeroUint16"
+      | "mockEncryptedZeroUint256"
+      | "mockEncryptedZeroUint64"
+      | "mockEncryptedZeroUint8"
+      | "pendingDecryptions"
+      | "protocolId"
+      | "requestCheckDecryption"
+      | "requestValueDecryption"
+      | "retryValueDecryption"
+      | "revealApprovals"
+      | "runAssertion"
+      | "setDelegate"
+      | "submitEncryptedAddress"
+      | "submitEncryptedBool"
+      | "submitEncryptedInput"
+      | "submitEncryptedUint128"
+      | "submitEncryptedUint16"
+      | "submitEncryptedUint256"
+      | "submitEncryptedUint64"
+      | "submitEncryptedUint8"
+      | "submitEncryptedValue"
+      | "toBytes32FromEuint32"
+      | "valueCount"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssertionComputed"
+      | "AssertionRevealed"
+      | "CheckComputed"
+      | "CheckDecryptionRequested"
+      | "CheckRevealed"
+      | "DecryptionCancelled"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DelegateUpdated"
+      | "LateDecryptionIgnored"
+      | "ValueRevealed"
+      | "ValueSubmitted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ONE_OF",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedCounters",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedCountersUint128",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedCountersUint16",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedCountersUint64",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addEncryptedCountersUint8",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assertionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assertions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelValueDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkCompare",
+    values: [BigNumberish, BigNumberish, FHETestFramework.BoundStruct, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkInRange",
+    values: [
+      BigNumberish,
+      FHETestFramework.BoundStruct,
+      FHETestFramework.BoundStruct,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkOneOf",
+    values: [BigNumberish, FHETestFramework.BoundStruct[], boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "delegates",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedAggregates",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCheckBounds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClearAddress",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClearBool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClearUint",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClearValue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "handleAssertionDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "handleCheckDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "handleDecryption",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAuthorized",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncrypted",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZero",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroBool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroUint128",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroUint16",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroUint256",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroUint64",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mockEncryptedZeroUint8",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingDecryptions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCheckDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestValueDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryValueDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealApprovals",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "runAssertion",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDelegate",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedAddress",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedBool",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedInput",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedUint128",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedUint16",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedUint256",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedUint64",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedUint8",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedValue",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "toBytes32FromEuint32",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "valueCount",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_ONE_OF", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedCounters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedCountersUint128",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedCountersUint16",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedCountersUint64",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addEncryptedCountersUint8",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assertionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "assertions", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelValueDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkCompare",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "checkCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "checkInRange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "checkOneOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "checks", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "clearValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "delegates", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCheckBounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClearAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClearBool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClearUint",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClearValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "handleAssertionDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "handleCheckDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "handleDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAuthorized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZero",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroBool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroUint128",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroUint16",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroUint256",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroUint64",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "mockEncryptedZeroUint8",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingDecryptions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCheckDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestValueDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retryValueDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealApprovals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "runAssertion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDelegate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedBool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedInput",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedUint128",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedUint16",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedUint256",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedUint64",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedUint8",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "toBytes32FromEuint32",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "valueCount", data: BytesLike): Result;
+}
+
+export namespace AssertionComputedEvent {
+  export type InputTuple = [
+    assertionId: BigNumberish,
+    valueId: BigNumberish,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    assertionId: bigint,
+    valueId: bigint,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    assertionId: bigint;
+    valueId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssertionRevealedEvent {
+  export type InputTuple = [assertionId: BigNumberish, passed: boolean];
+  export type OutputTuple = [assertionId: bigint, passed: boolean];
+  export interface OutputObject {
+    assertionId: bigint;
+    passed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CheckComputedEvent {
+  export type InputTuple = [
+    checkId: BigNumberish,
+    valueId: BigNumberish,
+    kind: BigNumberish
+  ];
+  export type OutputTuple = [checkId: bigint, valueId: bigint, kind: bigint];
+  export interface OutputObject {
+    checkId: bigint;
+    valueId: bigint;
+    kind: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CheckDecryptionRequestedEvent {
+  export type InputTuple = [checkId: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [checkId: bigint, requestId: bigint];
+  export interface OutputObject {
+    checkId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CheckRevealedEvent {
+  export type InputTuple = [checkId: BigNumberish, passed: boolean];
+  export type OutputTuple = [checkId: bigint, passed: boolean];
+  export interface OutputObject {
+    checkId: bigint;
+    passed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCancelledEvent {
+  export type InputTuple = [id: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [id: bigint, requestId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [id: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [id: bigint, requestId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DelegateUpdatedEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    delegate: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    delegate: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    delegate: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LateDecryptionIgnoredEvent {
+  export type InputTuple = [id: BigNumberish, requestId: BigNumberish];
+  export type OutputTuple = [id: bigint, requestId: bigint];
+  export interface OutputObject {
+    id: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValueRevealedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValueSubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    valueType: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, valueType: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    valueType: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHETestFramework extends BaseContract {
+  connect(runner?: ContractRunner | null): FHETestFramework;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHETestFrameworkInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DECRYPTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ONE_OF: TypedContractMethod<[], [bigint], "view">;
+
+  addEncryptedCounters: TypedContractMethod<
+    [a: BytesLike, b: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  addEncryptedCountersUint128: TypedContractMethod<
+    [a: BytesLike, b: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  addEncryptedCountersUint16: TypedContractMethod<
+    [a: BytesLike, b: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  addEncryptedCountersUint64: TypedContractMethod<
+    [a: BytesLike, b: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  addEncryptedCountersUint8: TypedContractMethod<
+    [a: BytesLike, b: BytesLike],
+    [string],
+    "nonpayable"
+  >;
+
+  assertionCount: TypedContractMethod<[], [bigint], "view">;
+
+  assertions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean, boolean] & {
+        valueId: bigint;
+        op: bigint;
+        expected: bigint;
+        result: string;
+        revealed: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  cancelValueDecryption: TypedContractMethod<
+    [id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  checkCompare: TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      op: BigNumberish,
+      rhs: FHETestFramework.BoundStruct,
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  checkCount: TypedContractMethod<[], [bigint], "view">;
+
+  checkInRange: TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      lo: FHETestFramework.BoundStruct,
+      hi: FHETestFramework.BoundStruct,
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  checkOneOf: TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      set: FHETestFramework.BoundStruct[],
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  checks: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, string, boolean, boolean] & {
+        valueId: bigint;
+        kind: bigint;
+        op: bigint;
+        requester: string;
+        result: string;
+        revealed: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  clearValues: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { value: bigint; revealed: boolean }],
+    "view"
+  >;
+
+  delegates: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  encryptedAggregates: TypedContractMethod<[], [string], "view">;
+
+  encryptedValues: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, string] & {
+        id: bigint;
+        handle: string;
+        valueType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+
+  getCheckBounds: TypedContractMethod<
+    [checkId: BigNumberish],
+    [FHETestFramework.BoundStructOutput[]],
+    "view"
+  >;
+
+  getClearAddress: TypedContractMethod<[id: BigNumberish], [string], "view">;
+
+  getClearBool: TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+
+  getClearUint: TypedContractMethod<[id: BigNumberish], [bigint], "view">;
+
+  getClearValue: TypedContractMethod<
+    [id: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        valueType: bigint;
+        value: bigint;
+        revealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  handleAssertionDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  handleCheckDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  handleDecryption: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  isAuthorized: TypedContractMethod<
+    [id: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  mockEncrypted: TypedContractMethod<
+    [valueType: BigNumberish, value: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  mockEncryptedZero: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroAddress: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroBool: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroUint128: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroUint16: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroUint256: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroUint64: TypedContractMethod<[], [string], "nonpayable">;
+
+  mockEncryptedZeroUint8: TypedContractMethod<[], [string], "nonpayable">;
+
+  pendingDecryptions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { requestId: bigint; deadline: bigint }],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestCheckDecryption: TypedContractMethod<
+    [checkId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestValueDecryption: TypedContractMethod<
+    [id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retryValueDecryption: TypedContractMethod<
+    [id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealApprovals: TypedContractMethod<[], [string], "view">;
+
+  runAssertion: TypedContractMethod<
+    [valueId: BigNumberish, op: BigNumberish, expected: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setDelegate: TypedContractMethod<
+    [delegate: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedAddress: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedBool: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedInput: TypedContractMethod<
+    [valueType: BigNumberish, inputHandle: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedUint128: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedUint16: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedUint256: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedUint64: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedUint8: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedValue: TypedContractMethod<
+    [encrypted: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  toBytes32FromEuint32: TypedContractMethod<[v: BytesLike], [string], "view">;
+
+  valueCount: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DECRYPTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ONE_OF"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addEncryptedCounters"
+  ): TypedContractMethod<[a: BytesLike, b: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addEncryptedCountersUint128"
+  ): TypedContractMethod<[a: BytesLike, b: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addEncryptedCountersUint16"
+  ): TypedContractMethod<[a: BytesLike, b: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addEncryptedCountersUint64"
+  ): TypedContractMethod<[a: BytesLike, b: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addEncryptedCountersUint8"
+  ): TypedContractMethod<[a: BytesLike, b: BytesLike], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assertionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "assertions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean, boolean] & {
+        valueId: bigint;
+        op: bigint;
+        expected: bigint;
+        result: string;
+        revealed: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelValueDecryption"
+  ): TypedContractMethod<[id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "checkCompare"
+  ): TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      op: BigNumberish,
+      rhs: FHETestFramework.BoundStruct,
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "checkInRange"
+  ): TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      lo: FHETestFramework.BoundStruct,
+      hi: FHETestFramework.BoundStruct,
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkOneOf"
+  ): TypedContractMethod<
+    [
+      valueId: BigNumberish,
+      set: FHETestFramework.BoundStruct[],
+      reveal: boolean
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, string, boolean, boolean] & {
+        valueId: bigint;
+        kind: bigint;
+        op: bigint;
+        requester: string;
+        result: string;
+        revealed: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "clearValues"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { value: bigint; revealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "delegates"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedAggregates"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedValues"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, string] & {
+        id: bigint;
+        handle: string;
+        valueType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCheckBounds"
+  ): TypedContractMethod<
+    [checkId: BigNumberish],
+    [FHETestFramework.BoundStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getClearAddress"
+  ): TypedContractMethod<[id: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getClearBool"
+  ): TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "getClearUint"
+  ): TypedContractMethod<[id: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getClearValue"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        valueType: bigint;
+        value: bigint;
+        revealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "handleAssertionDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "handleCheckDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "handleDecryption"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isAuthorized"
+  ): TypedContractMethod<
+    [id: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "mockEncrypted"
+  ): TypedContractMethod<
+    [valueType: BigNumberish, value: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "mockEncryptedZero"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroAddress"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroBool"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroUint128"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroUint16"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroUint256"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroUint64"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "mockEncryptedZeroUint8"
+  ): TypedContractMethod<[], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "pendingDecryptions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { requestId: bigint; deadline: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestCheckDecryption"
+  ): TypedContractMethod<[checkId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestValueDecryption"
+  ): TypedContractMethod<[id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retryValueDecryption"
+  ): TypedContractMethod<[id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealApprovals"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "runAssertion"
+  ): TypedContractMethod<
+    [valueId: BigNumberish, op: BigNumberish, expected: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDelegate"
+  ): TypedContractMethod<
+    [delegate: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedAddress"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedBool"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedInput"
+  ): TypedContractMethod<
+    [valueType: BigNumberish, inputHandle: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedUint128"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedUint16"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedUint256"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedUint64"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedUint8"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitEncryptedValue"
+  ): TypedContractMethod<[encrypted: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "toBytes32FromEuint32"
+  ): TypedContractMethod<[v: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "valueCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "AssertionComputed"
+  ): TypedContractEvent<
+    AssertionComputedEvent.InputTuple,
+    AssertionComputedEvent.OutputTuple,
+    AssertionComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssertionRevealed"
+  ): TypedContractEvent<
+    AssertionRevealedEvent.InputTuple,
+    AssertionRevealedEvent.OutputTuple,
+    AssertionRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CheckComputed"
+  ): TypedContractEvent<
+    CheckComputedEvent.InputTuple,
+    CheckComputedEvent.OutputTuple,
+    CheckComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CheckDecryptionRequested"
+  ): TypedContractEvent<
+    CheckDecryptionRequestedEvent.InputTuple,
+    CheckDecryptionRequestedEvent.OutputTuple,
+    CheckDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CheckRevealed"
+  ): TypedContractEvent<
+    CheckRevealedEvent.InputTuple,
+    CheckRevealedEvent.OutputTuple,
+    CheckRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCancelled"
+  ): TypedContractEvent<
+    DecryptionCancelledEvent.InputTuple,
+    DecryptionCancelledEvent.OutputTuple,
+    DecryptionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DelegateUpdated"
+  ): TypedContractEvent<
+    DelegateUpdatedEvent.InputTuple,
+    DelegateUpdatedEvent.OutputTuple,
+    DelegateUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LateDecryptionIgnored"
+  ): TypedContractEvent<
+    LateDecryptionIgnoredEvent.InputTuple,
+    LateDecryptionIgnoredEvent.OutputTuple,
+    LateDecryptionIgnoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValueRevealed"
+  ): TypedContractEvent<
+    ValueRevealedEvent.InputTuple,
+    ValueRevealedEvent.OutputTuple,
+    ValueRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValueSubmitted"
+  ): TypedContractEvent<
+    ValueSubmittedEvent.InputTuple,
+    ValueSubmittedEvent.OutputTuple,
+    ValueSubmittedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssertionComputed(uint256,uint256,uint256)": TypedContractEvent<
+      AssertionComputedEvent.InputTuple,
+      AssertionComputedEvent.OutputTuple,
+      AssertionComputedEvent.OutputObject
+    >;
+    AssertionComputed: TypedContractEvent<
+      AssertionComputedEvent.InputTuple,
+      AssertionComputedEvent.OutputTuple,
+      AssertionComputedEvent.OutputObject
+    >;
+
+    "AssertionRevealed(uint256,bool)": TypedContractEvent<
+      AssertionRevealedEvent.InputTuple,
+      AssertionRevealedEvent.OutputTuple,
+      AssertionRevealedEvent.OutputObject
+    >;
+    AssertionRevealed: TypedContractEvent<
+      AssertionRevealedEvent.InputTuple,
+      AssertionRevealedEvent.OutputTuple,
+      AssertionRevealedEvent.OutputObject
+    >;
+
+    "CheckComputed(uint256,uint256,uint8)": TypedContractEvent<
+      CheckComputedEvent.InputTuple,
+      CheckComputedEvent.OutputTuple,
+      CheckComputedEvent.OutputObject
+    >;
+    CheckComputed: TypedContractEvent<
+      CheckComputedEvent.InputTuple,
+      CheckComputedEvent.OutputTuple,
+      CheckComputedEvent.OutputObject
+    >;
+
+    "CheckDecryptionRequested(uint256,uint256)": TypedContractEvent<
+      CheckDecryptionRequestedEvent.InputTuple,
+      CheckDecryptionRequestedEvent.OutputTuple,
+      CheckDecryptionRequestedEvent.OutputObject
+    >;
+    CheckDecryptionRequested: TypedContractEvent<
+      CheckDecryptionRequestedEvent.InputTuple,
+      CheckDecryptionRequestedEvent.OutputTuple,
+      CheckDecryptionRequestedEvent.OutputObject
+    >;
+
+    "CheckRevealed(uint256,bool)": TypedContractEvent<
+      CheckRevealedEvent.InputTuple,
+      CheckRevealedEvent.OutputTuple,
+      CheckRevealedEvent.OutputObject
+    >;
+    CheckRevealed: TypedContractEvent<
+      CheckRevealedEvent.InputTuple,
+      CheckRevealedEvent.OutputTuple,
+      CheckRevealedEvent.OutputObject
+    >;
+
+    "DecryptionCancelled(uint256,uint256)": TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+    DecryptionCancelled: TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DelegateUpdated(address,address,bool)": TypedContractEvent<
+      DelegateUpdatedEvent.InputTuple,
+      DelegateUpdatedEvent.OutputTuple,
+      DelegateUpdatedEvent.OutputObject
+    >;
+    DelegateUpdated: TypedContractEvent<
+      DelegateUpdatedEvent.InputTuple,
+      DelegateUpdatedEvent.OutputTuple,
+      DelegateUpdatedEvent.OutputObject
+    >;
+
+    "LateDecryptionIgnored(uint256,uint256)": TypedContractEvent<
+      LateDecryptionIgnoredEvent.InputTuple,
+      LateDecryptionIgnoredEvent.OutputTuple,
+      LateDecryptionIgnoredEvent.OutputObject
+    >;
+    LateDecryptionIgnored: TypedContractEvent<
+      LateDecryptionIgnoredEvent.InputTuple,
+      LateDecryptionIgnoredEvent.OutputTuple,
+      LateDecryptionIgnoredEvent.OutputObject
+    >;
+
+    "ValueRevealed(uint256)": TypedContractEvent<
+      ValueRevealedEvent.InputTuple,
+      ValueRevealedEvent.OutputTuple,
+      ValueRevealedEvent.OutputObject
+    >;
+    ValueRevealed: TypedContractEvent<
+      ValueRevealedEvent.InputTuple,
+      ValueRevealedEvent.OutputTuple,
+      ValueRevealedEvent.OutputObject
+    >;
+
+    "ValueSubmitted(uint256,uint8,uint256)": TypedContractEvent<
+      ValueSubmittedEvent.InputTuple,
+      ValueSubmittedEvent.OutputTuple,
+      ValueSubmittedEvent.OutputObject
+    >;
+    ValueSubmitted: TypedContractEvent<
+      ValueSubmittedEvent.InputTuple,
+      ValueSubmittedEvent.OutputTuple,
+      ValueSubmittedEvent.OutputObject
+    >;
+  };
+}
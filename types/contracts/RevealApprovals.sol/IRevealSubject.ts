@@ -0,0 +1,157 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IRevealSubjectInterface extends Interface {
+  getFunction(
+    nameOrSignature: "clearValues" | "encryptedValues" | "pendingDecryptions"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "clearValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingDecryptions",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "clearValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingDecryptions",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IRevealSubject extends BaseContract {
+  connect(runner?: ContractRunner | null): IRevealSubject;
+  waitForDeployment(): Promise<this>;
+
+  interface: IRevealSubjectInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  clearValues: TypedContractMethod<
+    [id: BigNumberish],
+    [[bigint, boolean] & { value: bigint; revealed: boolean }],
+    "view"
+  >;
+
+  encryptedValues: TypedContractMethod<
+    [id: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, string] & {
+        handle: string;
+        valueType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+
+  pendingDecryptions: TypedContractMethod<
+    [id: BigNumberish],
+    [[bigint, bigint] & { requestId: bigint; deadline: bigint }],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "clearValues"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [[bigint, boolean] & { value: bigint; revealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedValues"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [
+      [bigint, string, bigint, bigint, string] & {
+        handle: string;
+        valueType: bigint;
+        timestamp: bigint;
+        owner: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingDecryptions"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [[bigint, bigint] & { requestId: bigint; deadline: bigint }],
+    "view"
+  >;
+
+  filters: {};
+}
@@ -0,0 +1,302 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface RevealApprovalsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "approvals"
+      | "framework"
+      | "getApprovers"
+      | "isApproved"
+      | "isApprover"
+      | "policies"
+      | "setApproval"
+      | "setPolicy"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "ApprovalUpdated" | "PolicySet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "approvals",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "framework", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getApprovers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprover",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "policies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApproval",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPolicy",
+    values: [BigNumberish, AddressLike[], BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "approvals", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "framework", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getApprovers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isApproved", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isApprover", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "policies", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setApproval",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPolicy", data: BytesLike): Result;
+}
+
+export namespace ApprovalUpdatedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    approver: AddressLike,
+    approved: boolean,
+    approvals: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    approver: string,
+    approved: boolean,
+    approvals: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    approver: string;
+    approved: boolean;
+    approvals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PolicySetEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    approvers: AddressLike[],
+    threshold: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    approvers: string[],
+    threshold: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    approvers: string[];
+    threshold: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RevealApprovals extends BaseContract {
+  connect(runner?: ContractRunner | null): RevealApprovals;
+  waitForDeployment(): Promise<this>;
+
+  interface: RevealApprovalsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  approvals: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  framework: TypedContractMethod<[], [string], "view">;
+
+  getApprovers: TypedContractMethod<[id: BigNumberish], [string[]], "view">;
+
+  isApproved: TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+
+  isApprover: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  policies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { threshold: bigint; approvals: bigint }],
+    "view"
+  >;
+
+  setApproval: TypedContractMethod<
+    [id: BigNumberish, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPolicy: TypedContractMethod<
+    [id: BigNumberish, approvers: AddressLike[], threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "approvals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "framework"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getApprovers"
+  ): TypedContractMethod<[id: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "isApproved"
+  ): TypedContractMethod<[id: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isApprover"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "policies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { threshold: bigint; approvals: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setApproval"
+  ): TypedContractMethod<
+    [id: BigNumberish, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPolicy"
+  ): TypedContractMethod<
+    [id: BigNumberish, approvers: AddressLike[], threshold: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ApprovalUpdated"
+  ): TypedContractEvent<
+    ApprovalUpdatedEvent.InputTuple,
+    ApprovalUpdatedEvent.OutputTuple,
+    ApprovalUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PolicySet"
+  ): TypedContractEvent<
+    PolicySetEvent.InputTuple,
+    PolicySetEvent.OutputTuple,
+    PolicySetEvent.OutputObject
+  >;
+
+  filters: {
+    "ApprovalUpdated(uint256,address,bool,uint256)": TypedContractEvent<
+      ApprovalUpdatedEvent.InputTuple,
+      ApprovalUpdatedEvent.OutputTuple,
+      ApprovalUpdatedEvent.OutputObject
+    >;
+    ApprovalUpdated: TypedContractEvent<
+      ApprovalUpdatedEvent.InputTuple,
+      ApprovalUpdatedEvent.OutputTuple,
+      ApprovalUpdatedEvent.OutputObject
+    >;
+
+    "PolicySet(uint256,address[],uint256)": TypedContractEvent<
+      PolicySetEvent.InputTuple,
+      PolicySetEvent.OutputTuple,
+      PolicySetEvent.OutputObject
+    >;
+    PolicySet: TypedContractEvent<
+      PolicySetEvent.InputTuple,
+      PolicySetEvent.OutputTuple,
+      PolicySetEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IRevealSubject } from "./IRevealSubject";
+export type { RevealApprovals } from "./RevealApprovals";
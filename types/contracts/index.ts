@@ -1,5 +1,10 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
-export type { VeterinaryFHERecordNetwork } from "./VeterinaryFHERecordNetwork";
+import type * as revealApprovalsSol from "./RevealApprovals.sol";
+export type { revealApprovalsSol };
+import type * as test from "./test";
+export type { test };
+export type { EncryptedAggregates } from "./EncryptedAggregates";
+export type { FHEAssert } from "./FHEAssert";
+export type { FHETestFramework } from "./FHETestFramework";
@@ -0,0 +1,318 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface FHEAssertHarnessInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "assertAll"
+      | "getAssertion"
+      | "handleAssertionReveal"
+      | "protocolId"
+      | "requestReveal"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssertionDecryptionRequested"
+      | "AssertionRecorded"
+      | "DecryptionFulfilled"
+      | "FHEAssertRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "assertAll",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssertion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "handleAssertionReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestReveal",
+    values: [BigNumberish[]]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "assertAll", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssertion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "handleAssertionReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestReveal",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssertionDecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, ids: BigNumberish[]];
+  export type OutputTuple = [requestId: bigint, ids: bigint[]];
+  export interface OutputObject {
+    requestId: bigint;
+    ids: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssertionRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    kind: BigNumberish,
+    label: string,
+    result: BytesLike
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    kind: bigint,
+    label: string,
+    result: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    kind: bigint;
+    label: string;
+    result: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FHEAssertRevealedEvent {
+  export type InputTuple = [id: BigNumberish, passed: boolean];
+  export type OutputTuple = [id: bigint, passed: boolean];
+  export interface OutputObject {
+    id: bigint;
+    passed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FHEAssertHarness extends BaseContract {
+  connect(runner?: ContractRunner | null): FHEAssertHarness;
+  waitForDeployment(): Promise<this>;
+
+  interface: FHEAssertHarnessInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  assertAll: TypedContractMethod<
+    [a: BigNumberish, b: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getAssertion: TypedContractMethod<
+    [id: BigNumberish],
+    [[boolean, boolean] & { revealed: boolean; passed: boolean }],
+    "view"
+  >;
+
+  handleAssertionReveal: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestReveal: TypedContractMethod<
+    [ids: BigNumberish[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "assertAll"
+  ): TypedContractMethod<
+    [a: BigNumberish, b: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAssertion"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [[boolean, boolean] & { revealed: boolean; passed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "handleAssertionReveal"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestReveal"
+  ): TypedContractMethod<[ids: BigNumberish[]], [bigint], "nonpayable">;
+
+  getEvent(
+    key: "AssertionDecryptionRequested"
+  ): TypedContractEvent<
+    AssertionDecryptionRequestedEvent.InputTuple,
+    AssertionDecryptionRequestedEvent.OutputTuple,
+    AssertionDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssertionRecorded"
+  ): TypedContractEvent<
+    AssertionRecordedEvent.InputTuple,
+    AssertionRecordedEvent.OutputTuple,
+    AssertionRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "FHEAssertRevealed"
+  ): TypedContractEvent<
+    FHEAssertRevealedEvent.InputTuple,
+    FHEAssertRevealedEvent.OutputTuple,
+    FHEAssertRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssertionDecryptionRequested(uint256,uint256[])": TypedContractEvent<
+      AssertionDecryptionRequestedEvent.InputTuple,
+      AssertionDecryptionRequestedEvent.OutputTuple,
+      AssertionDecryptionRequestedEvent.OutputObject
+    >;
+    AssertionDecryptionRequested: TypedContractEvent<
+      AssertionDecryptionRequestedEvent.InputTuple,
+      AssertionDecryptionRequestedEvent.OutputTuple,
+      AssertionDecryptionRequestedEvent.OutputObject
+    >;
+
+    "AssertionRecorded(uint256,uint8,string,bytes32)": TypedContractEvent<
+      AssertionRecordedEvent.InputTuple,
+      AssertionRecordedEvent.OutputTuple,
+      AssertionRecordedEvent.OutputObject
+    >;
+    AssertionRecorded: TypedContractEvent<
+      AssertionRecordedEvent.InputTuple,
+      AssertionRecordedEvent.OutputTuple,
+      AssertionRecordedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "FHEAssertRevealed(uint256,bool)": TypedContractEvent<
+      FHEAssertRevealedEvent.InputTuple,
+      FHEAssertRevealedEvent.OutputTuple,
+      FHEAssertRevealedEvent.OutputObject
+    >;
+    FHEAssertRevealed: TypedContractEvent<
+      FHEAssertRevealedEvent.InputTuple,
+      FHEAssertRevealedEvent.OutputTuple,
+      FHEAssertRevealedEvent.OutputObject
+    >;
+  };
+}
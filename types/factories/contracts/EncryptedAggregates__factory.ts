@@ -0,0 +1,393 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  EncryptedAggregates,
+  EncryptedAggregatesInterface,
+} from "../../contracts/EncryptedAggregates";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AggregateDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "AggregateRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AGGREGATE_EPOCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_EXTREMES_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "aggregates",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "euint128",
+        name: "sum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "min",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "max",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+    ],
+    name: "fold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "framework",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "handleAggregateDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+    ],
+    name: "isAggregated",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+    ],
+    name: "requestAggregateDecryption",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "revealedAggregates",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "uint128",
+        name: "sum",
+        type: "uint128",
+      },
+      {
+        internalType: "uint128",
+        name: "min",
+        type: "uint128",
+      },
+      {
+        internalType: "uint128",
+        name: "max",
+        type: "uint128",
+      },
+      {
+        internalType: "bool",
+        name: "extremes",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "snapshots",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "euint128",
+        name: "sum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "min",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "max",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234610167575f606061001461016b565b828152826020820152826040820152015261002d61016b565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905533608052604051611223908161019f823960805181818160ae01526107730152f35b5f80fd5b60405190608082016001600160401b0381118382101761018a57604052565b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610015575f80fd5b5f925f3560e01c9182634b68291f14610748575081635346b46b146106f357816358c5e7d31461026a5781638c0d0d1a14610241578163a5fa3f94146101e7578163a99dfe51146101cb578163ce262fbe146101b0578163d58403e314610137578163d7ee287d146100fd57508063da1f12ab146100e15763e9de55531461009b575f80fd5b346100dd57816003193601126100dd57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5080fd5b50346100dd57816003193601126100dd57602090516127118152f35b9050346101335760203660031901126101335735916054831015610130575061012760209261106c565b90519015158152f35b80fd5b8280fd5b9050346101335760203660031901126101335735916054831015610130575060ff61016360c093610c4c565b9182549260018101549160026001600160801b03920154928151958652828116602087015260801c9085015281166060840152818160801c161515608084015260881c16151560a0820152f35b5050346100dd57816003193601126100dd5760209051818152f35b5050346100dd57816003193601126100dd576020905160088152f35b839150346100dd5760203660031901126100dd5735906054821015610130575061021090610c35565b8054600182015460028301546003909301549351918252602082015260408101919091526060810191909152608090f35b839150346100dd5760203660031901126100dd5735906054821015610130575061021090610c0b565b9190503461062e576020928360031936011261062e57823590605482101561062e5761029582610c35565b90815480156106bc576102a784610c4c565b54811115610679578611801591906106705760ff60035b166102e06102cb82611054565b916102d888519384610b93565b808352611054565b8882019190601f19013683376001908186015481511561065d57835284610632575b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970054909a6001600160a01b0391821693909291843b1561062e578b51637d6e912360e11b81528481018f90526024955f9082908183816103878c82018a611129565b03925af1801561062457610611575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561060d57878d8d51928391633263b83b60e01b8352878301526060888301528183816103ec6064820189611129565b635346b46b60e01b604483015203925af18015610603579088916105eb575b508c90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808e528b8820546105db578c88528d528a872090519067ffffffffffffffff968783116105c9576801000000000000000083116105c9578e838354918185558282106105a0575b5050509088528d86818a20918a905b85821061058d5750505050505080545f19811461057b5784019055865491895194608086019086821090821117610568578a528885528b850192835289850196875260608501958087528b815260038d528a8120955192605484101561055857505050927f5c8fdeafb53623d73978fdb914df7bad452f9f3b4aa0ad93e500ca9e75f754ec9694926002928a979560ff80198554169116178355519082015501915115159060ff61ff0084549251151560081b1692169061ffff1916171790555481519081528587820152a251908152f35b634e487b7160e01b825260219052fd5b50634e487b7160e01b5f90815260418352fd5b634e487b7160e01b8752601183528387fd5b845194019381840155018f908891610486565b848c528b20918201918991015b8281106105be5750508f8490610477565b8b81550188906105ad565b634e487b7160e01b8952604185528589fd5b8b51633f06d22b60e01b81528490fd5b6105f490610b6b565b6105ff57865f61040b565b8680fd5b8c513d8a823e3d90fd5b8780fd5b61061c919850610b6b565b5f965f610396565b8d513d5f823e3d90fd5b5f80fd5b6002860154815183101561065d5788820152600386015481516002101561065d576060820152610302565b60328a634e487b7160e01b5f525260245ffd5b60ff60016102be565b845162461bcd60e51b8152808701889052601960248201527f536e617073686f7420616c72656164792072657665616c6564000000000000006044820152606490fd5b845162461bcd60e51b815280870188905260116024820152704e6f7420656e6f7567682076616c75657360781b6044820152606490fd5b3461062e57606036600319011261062e5767ffffffffffffffff9060243582811161062e576107259036908301610bb5565b60443592831161062e5761073f6107469336908401610bb5565b9135610c77565b005b91503461062e578260031936011261062e576024803592605484101561062e576001600160a01b03907f000000000000000000000000000000000000000000000000000000000000000082163303610b3a57506107a48461106c565b15610b02575f947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019180835416928251936307227b9160e21b85528635878601526006868601528460448160209b8c945af1938415610af8575f94610ac9575b5061080e87610c0b565b978854155f146108b6575050505080600186015580600286015560038501555b835491600183018093116108a557505082556001820161084e815461108d565b506002830161085d815461108d565b50600384019161086d835461108d565b50845493600785161561087c57005b61088590610c35565b94850361088e57005b600393855554600185015554600284015554910155005b601190634e487b7160e01b5f52525ffd5b60018995929394950192868454948385968015610abb575b898c8815998a610aa5575b6064925f918d8a54169151988996879563022f65e760e31b87528601528401528160448401525af1918215610a46575f92610a76575b50558660028b01838154898c888a8415610a66575b610a50575b6064925f918d8a5416915198899687956304559f7160e01b87528601528401528160448401525af1918215610a46575f92610a17575b505560038a0194855493908415610a05575b8394956109f2575b606491925416945f88519687948593630d8c635960e21b85528d8501528b8401528160448401525af19384156109e957505f936109b9575b50505561082e565b9080929350813d83116109e2575b6109d18183610b93565b8101031261062e57519086806109b1565b503d6109c7565b513d5f823e3d90fd5b606491506109fe611181565b9150610979565b839450610a10611181565b9450610971565b9091508381813d8311610a3f575b610a2f8183610b93565b8101031261062e5751908c61095f565b503d610a25565b88513d5f823e3d90fd5b505f606492610a5d611181565b91509250610929565b9350610a70611181565b93610924565b9091508381813d8311610a9e575b610a8e8183610b93565b8101031261062e5751908c61090f565b503d610a84565b505f606492610ab2611181565b915092506108d9565b50610ac4611181565b6108ce565b9093508781813d8311610af1575b610ae18183610b93565b8101031261062e57519288610804565b503d610ad7565b83513d5f823e3d90fd5b845162461bcd60e51b815260208185015260138184015272151e5c19481b9bdd081859d9dc9959d85d1959606a1b6044820152606490fd5b62461bcd60e51b8152602084820152600e838201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b67ffffffffffffffff8111610b7f57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610b7f57604052565b81601f8201121561062e5780359067ffffffffffffffff8211610b7f5760405192610bea601f8401601f191660200185610b93565b8284526020838301011161062e57815f926020809301838601378301015290565b6054811015610c21575f525f60205260405f2090565b634e487b7160e01b5f52602160045260245ffd5b6054811015610c21575f52600160205260405f2090565b6054811015610c21575f52600260205260405f2090565b51906001600160801b038216820361062e57565b91825f5260209060038252604092835f2090600190600183019687541561101057600284019460ff865460081c16610fd957815f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852885f205415610fc857825f528752875f2093885190819586918a82549485815201915f528a5f20905f5b8c868210610fb25750505050610d1292500385610b93565b82519384880194858911610f9e578901809511610f9e5788518451858a01968a93918c918491610d45818489018d611108565b8201908682015203848101845201610d5d9083610b93565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703548b516378542ead60e01b8152606060048201529485936001600160a01b03909216928492839291610db4906064850190611129565b906003199182858203016024860152610dcc9161115c565b90838203016044840152610ddf9161115c565b03915a905f91f1908115610a46575f91610f68575b5015610f57577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a283549161010061ff00198416178555610e3a60ff855416610c4c565b928854845411610f4c57869060ff1615610f13575060608280518101031261062e5760ff94600292610e6c8793610c63565b610e836060610e7c8c8501610c63565b9301610c63565b90858701906001600160801b0391826001600160801b0319941684825416179055169160801b161760018501555b885484555491909201805461ffff60801b1916929091161515841660801b91909117600160881b1790555493549316926054841015610c21577fdfa85de5fe7b1512a88ff95fac1019baf5d58df078fed09d10e46c90c690e4499251908152a2565b90949180518101031261062e5760ff6002916001600160801b03610f378397610c63565b84860182198154169055166001850155610eb1565b505050505050505050565b865163cf6c44e960e01b8152600490fd5b90508681813d8311610f97575b610f7f8183610b93565b8101031261062e5751801515810361062e575f610df4565b503d610f75565b634e487b7160e01b5f52601160045260245ffd5b835485528a955090930192918101918101610cfa565b885163d66ca67560e01b8152600490fd5b875162461bcd60e51b815260048101889052601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b865162461bcd60e51b815260048101879052601760248201527f496e76616c69642072657175657374206d617070696e670000000000000000006044820152606490fd5b67ffffffffffffffff8111610b7f5760051b60200190565b6054811015610c215760028110159081611084575090565b60059150111590565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561062e575f8091604460405180948193635ca4b5b160e11b83528760048401523060248401525af180156110fd576110f1575090565b6110fa90610b6b565b90565b6040513d5f823e3d90fd5b5f5b8381106111195750505f910152565b818101518382015260200161110a565b9081518082526020808093019301915f5b828110611148575050505090565b83518552938101939281019260010161113a565b9060209161117581518092818552858086019101611108565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af19081156110fd575f916111e7575090565b90506020813d60201161120e575b8161120260209383610b93565b8101031261062e575190565b3d91506111f556fea164736f6c6343000818000a";
+
+type EncryptedAggregatesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EncryptedAggregatesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EncryptedAggregates__factory extends ContractFactory {
+  constructor(...args: EncryptedAggregatesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EncryptedAggregates & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): EncryptedAggregates__factory {
+    return super.connect(runner) as EncryptedAggregates__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EncryptedAggregatesInterface {
+    return new Interface(_abi) as EncryptedAggregatesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): EncryptedAggregates {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as EncryptedAggregates;
+  }
+}
@@ -0,0 +1,1483 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FHETestFramework,
+  FHETestFrameworkInterface,
+} from "../../contracts/FHETestFramework";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "assertionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "AssertionComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "assertionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    name: "AssertionRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FHETestFramework.CheckKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "CheckComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "CheckDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    name: "CheckRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "delegate",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "DelegateUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "LateDecryptionIgnored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "ValueRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ValueSubmitted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ONE_OF",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "a",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "b",
+        type: "bytes32",
+      },
+    ],
+    name: "addEncryptedCounters",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint128",
+        name: "a",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "b",
+        type: "bytes32",
+      },
+    ],
+    name: "addEncryptedCountersUint128",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint16",
+        name: "a",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint16",
+        name: "b",
+        type: "bytes32",
+      },
+    ],
+    name: "addEncryptedCountersUint16",
+    outputs: [
+      {
+        internalType: "euint16",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "a",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "b",
+        type: "bytes32",
+      },
+    ],
+    name: "addEncryptedCountersUint64",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint8",
+        name: "a",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "b",
+        type: "bytes32",
+      },
+    ],
+    name: "addEncryptedCountersUint8",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "assertionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "assertions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHETestFramework.Operator",
+        name: "op",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expected",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "cancelValueDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHETestFramework.Operator",
+        name: "op",
+        type: "uint8",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "encrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHETestFramework.Bound",
+        name: "rhs",
+        type: "tuple",
+      },
+      {
+        internalType: "bool",
+        name: "reveal",
+        type: "bool",
+      },
+    ],
+    name: "checkCompare",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "checkCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "encrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHETestFramework.Bound",
+        name: "lo",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "encrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHETestFramework.Bound",
+        name: "hi",
+        type: "tuple",
+      },
+      {
+        internalType: "bool",
+        name: "reveal",
+        type: "bool",
+      },
+    ],
+    name: "checkInRange",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "encrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHETestFramework.Bound[]",
+        name: "set",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bool",
+        name: "reveal",
+        type: "bool",
+      },
+    ],
+    name: "checkOneOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "checks",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHETestFramework.CheckKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "enum FHETestFramework.Operator",
+        name: "op",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "clearValues",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "delegates",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "encryptedAggregates",
+    outputs: [
+      {
+        internalType: "contract EncryptedAggregates",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedValues",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    name: "getCheckBounds",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "encrypted",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct FHETestFramework.Bound[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getClearAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getClearBool",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getClearUint",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getClearValue",
+    outputs: [
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "handleAssertionDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "handleCheckDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "handleDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAuthorized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "mockEncrypted",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZero",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroAddress",
+    outputs: [
+      {
+        internalType: "eaddress",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroBool",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroUint128",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroUint16",
+    outputs: [
+      {
+        internalType: "euint16",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroUint256",
+    outputs: [
+      {
+        internalType: "euint256",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroUint64",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mockEncryptedZeroUint8",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pendingDecryptions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "checkId",
+        type: "uint256",
+      },
+    ],
+    name: "requestCheckDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "requestValueDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "retryValueDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revealApprovals",
+    outputs: [
+      {
+        internalType: "contract RevealApprovals",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "valueId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FHETestFramework.Operator",
+        name: "op",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expected",
+        type: "uint256",
+      },
+    ],
+    name: "runAssertion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "assertionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "delegate",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setDelegate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "eaddress",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedAddress",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "ebool",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedBool",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "valueType",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "inputHandle",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedInput",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint128",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedUint128",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint16",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedUint16",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint256",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedUint256",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedUint64",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint8",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedUint8",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "encrypted",
+        type: "bytes32",
+      },
+    ],
+    name: "submitEncryptedValue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "v",
+        type: "bytes32",
+      },
+    ],
+    name: "toBytes32FromEuint32",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "valueCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060c081523462000246575f6060620000186200024a565b82815282602082015282848201520152620000326200024a565b73687820221192c5b662b25367f70076a37bc79b6c80825273848b0066793bcc60346da1f49049357399b8d5956020830181905273a02cda4ca3a71d7c46997716f4283aa851c28812848401819052731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60609094018490527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690941790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701805484169092179091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909116909117905580516001600160401b0390610ad0808201828110848211176200022857829162006e16833903905ff080156200023c576080528151906113c290818301908111838210176200022857829162005a54833903905ff080156200021e5760a052516157e990816200026b823960805181818161287c015281816132fc015261462f015260a0518181816103a10152818161084f01528181610c5001528181610f480152818161117b015281816114f30152818161195f01528181612a75015281816133e701526137a80152f35b50513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b82513d5f823e3d90fd5b5f80fd5b60405190608082016001600160401b03811183821017620002285760405256fe6080604081815260049182361015610015575f80fd5b5f905f3560e01c90816303939f2414613dde575080630766950714613dc75780630b7629de14613dab5780632136426814613d3e57806326eb4dbb14613d2157806326fd421314613ce05780632788557f14613c735780632b719ee214613c5557806331c9554314613bff57806332e28a3914613be15780634724cd1714613ba5578063480cf93614613aac5780634a994eef146139d75780634bd768a0146139a15780634d956f30146136ef5780634e961c3e14613652578063524232f6146135e3578063562b48ff1461332b5780635c6956e7146132e8578063609c6d7f146132b8578063618e7bd91461321457806367f63bae146131e35780636b7b7955146131c75780636e30bc9e146131ab578063701e12ab1461312d578063713efd5614612da7578063778d8ef414612d035780637a9671b9146129c75780638e8b0af71461281d578063940f80a2146122e857806395e46a45146122a75780639651a0991461224057806398cc719a14612198578063a50bc1a814611dd6578063a612a9b514611b5b578063aa8363fa146118a3578063b366975c146117f7578063b9b3b0671461176b578063bc4c956c14611437578063c054b30c1461141b578063c0b8b78a1461100a578063ce9a115814610f77578063d0ce352714610f33578063d254cfe314610ed0578063da1f12ab14610eb3578063db9c48bc14610e96578063deabf8eb14610e77578063df20a43014610ba2578063e347d40b14610b61578063e504889214610b44578063e584324214610af7578063ea86ae5214610793578063ecf05d0214610752578063f325596714610695578063f641b041146102f35763fd137c3a14610289575f80fd5b346102f057816003193601126102f057506102b7602092356024359080156102e2575b81156102d25761564f565b906102c230836156a3565b6102cc33836156a3565b51908152f35b90506102dc6155fc565b9061564f565b506102eb6155fc565b6102ac565b80fd5b5090346105c157602090816003193601126105cf575f8051602061577d833981519152805482516382027b6d60e01b815286358188018181523360208201526001600160a01b039691949193919291849183918916908290819060400103915afa90811561068b575f9161066e575b501561063e576103718361570a565b925f91605485101561062b5761038a60028096146147c3565b61039430836156a3565b61039e33836156a3565b867f00000000000000000000000000000000000000000000000000000000000000001690865163d7ee287d60e01b8152868b8201528581602481865afa90811561062157908992915f916105f4575b50610525575b5050508154956001870180971161051257868355855160a081018181106001600160401b038211176104ff578752878152848101928352868101868152606082019042825260808301943386528a87526001885289872093518455516001840155878301905160548110156104ec57916104de96959493915f805160206157bd8339815191529b9c9d9360ff80198354169116179055516003820155019151166001600160601b0360a01b82541617905560018551916104b283613df7565b80835286858401918083528a8152878752209251835551151591019060ff801983541691151516179055565b82519182524290820152a280f35b634e487b7160e01b875260218d52602487fd5b60418b634e487b7160e01b5f525260245ffd5b634e487b7160e01b835260118952602483fd5b5416803b156105f0578651630f8e573b60e21b8152808b018481526001600160a01b038416602082015290915f9183919082908490829060400103925af180156105e6576105d3575b50803b156105cf57828260448b838a519586948593634b68291f60e01b85528401528a60248401525af180156105c5579083916105ad575b87906103f3565b6105b690613e26565b6105c157815f6105a6565b5080fd5b86513d85823e3d90fd5b8280fd5b6105de919350613e26565b5f915f61056e565b87513d5f823e3d90fd5b5f80fd5b6106149150873d891161061a575b61060c8183613e54565b81019061422a565b5f6103ed565b503d610602565b88513d5f823e3d90fd5b602189634e487b7160e01b5f525260245ffd5b835162461bcd60e51b8152808801839052601c60248201525f8051602061573d8339815191526044820152606490fd5b6106859150833d851161061a5761060c8183613e54565b5f610362565b85513d5f823e3d90fd5b5080913461074f5760208160ff8161073661072060036107127f4ea691ce49c07e8efdd60dda599bd3acbe7d19a68888941ebf529c99ebd3a999988a6106da36613ed8565b9383838398949d939552600c8e5220549d8e6106f7811515613f78565b815260088d5220019861070d898b541615613fc4565b61429b565b86808251830101910161422a565b845461ff00191690151560081b61ff0016178455565b6001821984541617809355519160081c1615158152a280f35b50fd5b50346102f057816003193601126102f057506102b760209235602435908015610785575b8161564f5790506102dc6154b1565b5061078e6154b1565b610776565b5090346105c157602090816003193601126105cf575f8051602061577d833981519152805482516382027b6d60e01b815286358188018181523360208201526001600160a01b03969493919291859183918916908290819060400103915afa90811561068b575f91610ada575b5015610aaa5761080f8161570a565b915f92605481101561062b57600661082791146147c3565b61083130836156a3565b61083b33836156a3565b845163d7ee287d60e01b81526006898201527f0000000000000000000000000000000000000000000000000000000000000000871691908581602481865afa9081156105e657908892915f91610a8d575b506109c9575b505050815494600186018096116109b657858355845160a081018181106001600160401b038211176109a3578652868152848101928352858101600681526060820190428252608083019433865289875260018852888720935184555160018401556002830190516054811015610990579161098096959493915f805160206157bd8339815191529a9b9c9360ff80198354169116179055516003820155019151166001600160601b0360a01b825416179055600184519161095383613df7565b808352858584019180835289815260028752209251835551151591019060ff801983541691151516179055565b815190600682524290820152a280f35b634e487b7160e01b875260218c52602487fd5b60418a634e487b7160e01b5f525260245ffd5b634e487b7160e01b835260118852602483fd5b5416803b156105f0578551630f8e573b60e21b8152808a018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a8357610a70575b50803b156105cf57828260448a8389519586948593634b68291f60e01b8552840152600660248401525af18015610a6657908391610a52575b8690610892565b610a5b90613e26565b6105c157815f610a4b565b85513d85823e3d90fd5b610a7b919350613e26565b5f915f610a12565b86513d5f823e3d90fd5b610aa49150873d891161061a5761060c8183613e54565b5f61088c565b835162461bcd60e51b8152808801849052601c60248201525f8051602061573d8339815191526044820152606490fd5b610af19150843d861161061a5761060c8183613e54565b5f610800565b5091346105cf57816003193601126105cf5760209282610b15613f3f565b91610b1e613f55565b9360018060a01b03809416825286522091165f52825260ff815f20541690519015158152f35b5090346105c157816003193601126105c1576020906102b76155fc565b50346102f057816003193601126102f057506102b760209235602435908015610b94575b8161564f5790506102dc6155a9565b50610b9d6155a9565b610b85565b5090346105c157602090816003193601126105cf575f8051602061577d833981519152805482516382027b6d60e01b815286358188018181523360208201526001600160a01b039691949193919291849183918916908290819060400103915afa90811561068b575f91610e5a575b501561063e57610c208361570a565b925f91605485101561062b57610c3960038096146147c3565b610c4330836156a3565b610c4d33836156a3565b867f00000000000000000000000000000000000000000000000000000000000000001690865163d7ee287d60e01b8152868b8201528581602481865afa90811561062157908992915f91610e3d575b50610d8e575b5050508154956001870180971161051257868355855160a081018181106001600160401b038211176104ff578752878152848101928352868101868152606082019042825260808301943386528a8752600188528987209351845551600184015560028301905160548110156104ec57916104de96959493915f805160206157bd8339815191529b9c9d9360ff801983541691161790555188820155019151166001600160601b0360a01b8254161790556001855191610d6183613df7565b80835286858401918083528a815260028752209251835551151591019060ff801983541691151516179055565b5416803b156105f0578651630f8e573b60e21b8152808b018481526001600160a01b038416602082015290915f9183919082908490829060400103925af180156105e657610e2a575b50803b156105cf57828260448b838a519586948593634b68291f60e01b85528401528a60248401525af180156105c557908391610e16575b8790610ca2565b610e1f90613e26565b6105c157815f610e0f565b610e35919350613e26565b5f915f610dd7565b610e549150873d891161061a5761060c8183613e54565b5f610c9c565b610e719150833d851161061a5761060c8183613e54565b5f610c11565b509190346105cf5760203660031901126105cf57602092505190358152f35b5090346105c157816003193601126105c1576020906102b7615503565b5090346105c157816003193601126105c157602090516127118152f35b509190346105cf5760203660031901126105cf57610f2260ff6001610f3094359384875281602052610f06818820541515614103565b610f0f85614600565b8487526002602052862001541615613fc4565b610f2b8161469b565b614bf0565b80f35b5090346105c157816003193601126105c157517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5082346105c15760203660031901126105c157803591828152600160205260ff6002858320015416906054821015610ff75750610fc457602083610fba84614774565b5415159051908152f35b606490602084519162461bcd60e51b8352820152600d60248201526c2737ba1030903137b7b632b0b760991b6044820152fd5b634e487b7160e01b815260218352602490fd5b5090346105f05760603660031901126105f05782359060548210156105f057602491604435946001600160401b038087116105f057366023880112156105f057868201358181116105f0573686828a0101116105f0576110bd976110719187369201613e75565b5f8051602061575d83398151915254855163196d0b9b60e01b81528735818601523388820152608060448201529889946001600160a01b03949093909285169186916084830190615459565b916110cb6064830189613f1e565b815f602098899503925af1988915610a83575f996113ec575b505f8051602061577d83398151915298838a5416998a3b156105f0578751630f8e573b60e21b808252858201848152336020820152909c5f9183919082908490829060400103925af18015611396576113d9575b506111428261570a565b9a5f9b60548110156113c7578861115991146147c3565b61116330846156a3565b61116d33846156a3565b885163d7ee287d60e01b81527f0000000000000000000000000000000000000000000000000000000000000000871692906111aa8782018b613f1e565b88818d81875afa9081156113bd57908892915f916113a0575b506112d7575b50505050895497600189018099116112c657888b5587519260a08401908111848210176112b357908b959493929189528983528683019182528883019088825260608401924284528a6080860198338a528d815260018b5220945185555160018501556002840191519060548210156112a25750915f805160206157bd8339815191529a9b9c95939161128d97959360ff80198354169116179055516003820155019151166001600160601b0360a01b8254161790556001855191610d6183613df7565b61129983518093613f1e565b4290820152a280f35b634e487b7160e01b8e52602186528dfd5b50634e487b7160e01b5f90815260418552fd5b634e487b7160e01b8b52601184528afd5b541690813b156105f05789519081528581018481526001600160a01b038416602082015290915f9183919082908490829060400103925af1801561139657611383575b50808b913b156105c1578183604487838e9561134d8f8f90519889978896634b68291f60e01b8852870152850190613f1e565b5af1801561137957611361575b85816111c9565b61136a90613e26565b61137557895f61135a565b8980fd5b89513d84823e3d90fd5b61138e919b50613e26565b5f995f61131a565b89513d5f823e3d90fd5b6113b791508a3d8c1161061a5761060c8183613e54565b5f6111c3565b8b513d5f823e3d90fd5b8a602187634e487b7160e01b5f52525ffd5b6113e4919a50613e26565b5f985f611138565b9098508381813d8311611414575b6114048183613e54565b810103126105f05751975f6110e4565b503d6113fa565b82346105f0575f3660031901126105f0576020906102b76155a9565b5050346105f057602090816003193601126105f0575f8051602061577d833981519152805482516382027b6d60e01b815285358187018181523360208201526001600160a01b03969493919291859183918916908290819060400103915afa90811561068b575f9161174e575b501561171e576114b38161570a565b915f92605481101561170b5760076114cb91146147c3565b6114d530836156a3565b6114df33836156a3565b845163d7ee287d60e01b81526007888201527f0000000000000000000000000000000000000000000000000000000000000000871691908581602481865afa9081156105e657908892915f916116ee575b5061163e575b5050508154946001860180961161162b57858355845160a081018181106001600160401b0382111761161857865286815284810192835285810160078152606082019042825260808301943386528987526001885288872093518455516001840155600283019051605481101561160557916115f696959493915f805160206157bd8339815191529a9b9360ff80198354169116179055516003820155019151166001600160601b0360a01b825416179055600184519161095383613df7565b815190600782524290820152a2005b634e487b7160e01b875260218b52602487fd5b604189634e487b7160e01b5f525260245ffd5b634e487b7160e01b835260118752602483fd5b5416803b156105f0578551630f8e573b60e21b81528089018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a83576116db575b50803b156105cf578280916044875180948193634b68291f60e01b8352878d840152600760248401525af18015610a66579083916116c7575b8690611536565b6116d090613e26565b6105c157815f6116c0565b6116e6919350613e26565b5f915f611687565b6117059150873d891161061a5761060c8183613e54565b5f611530565b602188634e487b7160e01b5f525260245ffd5b835162461bcd60e51b8152808701849052601c60248201525f8051602061573d8339815191526044820152606490fd5b6117659150843d861161061a5761060c8183613e54565b5f6114a4565b5050346105f057602061071260ff7fd8da3ad745ce72b28b67ee95bfdcb57d6635f6e1b700424a7859807536f9f94b936117df6107206117aa36613ed8565b825f9892939852600b895282865f20549b6117c68d1515613f78565b8c5f5260068b52875f20019861070d898b541615613fc4565b6001821984541617809355519160081c1615158152a2005b5050346105f0575f3660031901126105f0575f8051602061575d833981519152548151639cd07acb60e01b81525f938101849052602481018490529260209184916044918391906001600160a01b03165af190811561189a575f91611865575b602092506102c230836156a3565b90506020823d602011611892575b8161188060209383613e54565b810103126105f0576020915190611857565b3d9150611873565b513d5f823e3d90fd5b5050346105f057602090816003193601126105f0575f8051602061577d833981519152805482516382027b6d60e01b815285358187018181523360208201526001600160a01b03969493919291859183918916908290819060400103915afa90811561068b575f91611b3e575b501561171e5761191f8161570a565b915f92605481101561170b57600561193791146147c3565b61194130836156a3565b61194b33836156a3565b845163d7ee287d60e01b81526005888201527f0000000000000000000000000000000000000000000000000000000000000000871691908581602481865afa9081156105e657908892915f91611b21575b50611a71575b5050508154946001860180961161162b57858355845160a081018181106001600160401b038211176116185786528681528481019283528581016005815260608201904282526080830194338652898752600188528887209351845551600184015560028301905160548110156116055791611a6296959493915f805160206157bd8339815191529a9b9360ff80198354169116179055516003820155019151166001600160601b0360a01b825416179055600184519161095383613df7565b815190600582524290820152a2005b5416803b156105f0578551630f8e573b60e21b81528089018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a8357611b0e575b50803b156105cf578280916044875180948193634b68291f60e01b8352878d840152600560248401525af18015610a6657908391611afa575b86906119a2565b611b0390613e26565b6105c157815f611af3565b611b19919350613e26565b5f915f611aba565b611b389150873d891161061a5761060c8183613e54565b5f61199c565b611b559150843d861161061a5761060c8183613e54565b5f611910565b8284346105f05760a03660031901126105f057803591602480359260068410156105f057826043193601126105f0576084359182151583036105f057855f52600190602096828852611bb1865f20541515614103565b611bba81614600565b805f52828852611be283875f2089611bd860ff600284015416614886565b9390920154615189565b96611bed30896156a3565b611bf733896156a3565b60075497848901809911611dc4578991899182600755895191611c1983613e39565b858352848301905f8252611c308c85019182614282565b6060840133815260808501938452600860a08601975f895260c08701975f89525f52528c5f20945185558985019251916003831015611db25783549051916006831015611da0575160089290921b61ff00166001600160b01b031990911660ff938416171760109190911b62010000600160b01b031617909155905160028301559251600391909101805491151590931660ff1991909116178255611ce891905b51815461ff00191690151560081b61ff0016179055565b867f6d8413cd10389527583fe9560e5f8e8acb4df88b0dfb686c8e67dbccbcd03c458988515f8152a3855f5260098752845f20805490600160401b821015611d8e5790611d399184820181556141c7565b939093611d7e57505060443580151581036105f057825490151560ff1660ff1991909116178255606435910155611d705751908152f35b611d798261498a565b6102cc565b5f90634e487b7160e01b8252525ffd5b82604186634e487b7160e01b5f52525ffd5b8a60218e634e487b7160e01b5f52525ffd5b8960218d634e487b7160e01b5f52525ffd5b83601187634e487b7160e01b5f52525ffd5b5050346105f05760603660031901126105f05781359060249182359260068410156105f057604435825f526001602096818852611e17865f20541515614103565b611e2085614600565b845f52818852611e36838884895f200154614eb6565b93611e4130866156a3565b611e4b33866156a3565b60055497838901809911612185578860055587519060c08201956001600160401b03968381108882111761217357918c93918c938c528a8352611e918584019283614282565b8b830190815260608301918a8352600660808501965f885260a08601965f88525f52528c5f20935184558884019051600681101561216157815460ff91821660ff19918216179092559151600285015591516003840155935191860180549215159094169116178255611f049190611cd1565b865193611f1085613df7565b838552898501958a368837611f248661428e565b525f905f8051602061579d8339815191529586549760018060a01b03805f8051602061577d8339815191525416803b156105f0575f8f8e51928391637d6e912360e11b83528b830152818381611f7c8d82018b61547e565b03925af1801561215757612144575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561214057848c518092633263b83b60e01b82528c8a830152606089830152818381611fe0606482018a61547e565b63b9b3b06760e01b604483015203925af180156121365790859161211e575b508990525f8051602061571d833981519152808e528b85205461210e578985528d528a842091519283116120fb57600160401b83116120fb578154838355838e8282106120d3575b5050509083528b832086848e5b8582106120c1575050505050508454925f1984146120b157505050927f1dfe5f7b2e124234c9ea158e94f09f47c87ea3ae5e297668432c567d474b7f799288928895019055805f52600b825283865f20558551908152a351908152f35b634e487b7160e01b825260119052fd5b8451940193818401550187908e612054565b8487528620918201918991015b8281106120f0575050838e612047565b5f81550188906120e0565b5050634e487b7160e01b82525060418352fd5b8b51633f06d22b60e01b81528790fd5b61212790613e26565b61213257835f611fff565b8380fd5b8c513d87823e3d90fd5b8480fd5b61214f919550613e26565b5f935f611f8b565b8d513d5f823e3d90fd5b8760218a634e487b7160e01b5f52525ffd5b84604187634e487b7160e01b5f52525ffd5b50634e487b7160e01b5f90815260118352fd5b8284346105f05760203660031901126105f057803590815f52600160205260ff6002845f20015416605481101561222d578015159081612221575b50156121ed576020836121e584614774565b549051908152f35b606490602084519162461bcd60e51b8352820152600e60248201526d2737ba1030b71034b73a32b3b2b960911b6044820152fd5b600791501415846121d3565b602182634e487b7160e01b5f525260245ffd5b8284346105f05760203660031901126105f05760a09181355f526001602052805f209161229b83549360018101549360ff600283015416916003810154946001808a1b03910154169481519687526020870152850190613f1e565b60608301526080820152f35b5050346105f057806003193601126105f0576102b7602092356024359080156122da575b8161564f5790506102dc615556565b506122e3615556565b6122cb565b5050346105f05760c03660031901126105f057813590806023193601126105f057806063193601126105f05760a43580151581036105f05761236a93835f52600160209481865261233d855f20541515614103565b61234681614600565b805f52818652845f208260ff60028301541691612362836147ff565b9a909361485f565b929091019182549261237b8461570a565b605481101561062b5760028110159081612811575b50156127ce57899a9b5f146127c657600160f81b948c905b5f8051602061575d83398151915280549d51631391547f60e01b8152808c0197885260208801929092526001600160f81b031990971660408701526001600160a01b039c90969587918e169082905f90829060600103925af19485156127bc575f9561278d575b50549061241b8261570a565b605481101561062b5760028110159081612781575b501561273e5791898c928c979695945f14612732575f8a612487600160f81b9a5b88541694519a8b9687958694631d44e90160e21b865285019192604091949360608401958452602084015260ff60f81b16910152565b03925af193841561062157908a92915f956126fa575b505f9960649154169189519a8b93849263d99882d560e01b84528a840152602497888401528160448401525af1968715610a83575f976126cb575b506124e330886156a3565b6124ed33886156a3565b600754968388018098116126b9578789918160075588519061250e82613e39565b8482528382018781528a83015f81526060840133815260808501938452600860a08601975f895260c08701975f89525f52528c5f20945185558985019251916003831015611db25783549051916006831015611da0575160089290921b61ff00166001600160b01b031990911660ff938416171760109190911b62010000600160b01b031617909155905160028301559251600391909101805491151590931660ff19919091161782556125c29190611cd1565b867f6d8413cd10389527583fe9560e5f8e8acb4df88b0dfb686c8e67dbccbcd03c45898851868152a3855f5260098752845f208054600160401b91828210156126a757906126149185820181556141c7565b61269657823580151581036105f057815490151560ff1660ff199190911617815583604435910155865f5260098852855f20805491821015611d8e579061265f9184820181556141c7565b939093611d7e57505060643580151581036105f057825490151560ff1660ff1991909116178255608435910155611d705751908152f35b825f86634e487b7160e01b8252525ffd5b83604187634e487b7160e01b5f52525ffd5b82601186634e487b7160e01b5f52525ffd5b9096508781813d83116126f3575b6126e38183613e54565b810103126105f05751955f6124d8565b503d6126d9565b83819b949296503d831161272b575b6127138183613e54565b810103126105f05760648a925f9a519591509961249d565b503d612709565b5f8a612487829a612451565b895162461bcd60e51b81528089018d9052601f60248201527f4f70657261746f72206e6f7420737570706f7274656420666f722074797065006044820152606490fd5b6006915011155f612430565b9094508b81813d83116127b5575b6127a58183613e54565b810103126105f05751935f61240f565b503d61279b565b8a513d5f823e3d90fd5b8b5f956123a8565b895162461bcd60e51b81528089018c9052601f60248201527f4f70657261746f72206e6f7420737570706f7274656420666f722074797065006044820152606490fd5b6006915011155f612390565b8284346105f057602090816003193601126105f057803591825f5260088152835f209160018060a01b039160019383600182015460101c168015612994576128669033146141ed565b60ff9361287a60ff60038401541615613fc4565b7f0000000000000000000000000000000000000000000000000000000000000000169054928751637910867b60e01b94858252828201526024908481602481875afa80156127bc576128d3915f91612977575b50614242565b875f5260098452885f20945f968654975b8881106128f6576128f48b61498a565b005b80826129038c938b6141c7565b50541615801561291d575b61291790614242565b016128e4565b5090612929828a6141c7565b500154908c519184835286830152878286818a5afa918215612157578b92612917915f9161295a575b50905061290e565b61297191508a3d8c1161061a5761060c8183613e54565b8f612952565b61298e9150863d881161061a5761060c8183613e54565b8b6128cd565b875162461bcd60e51b8152808501849052600d60248201526c556e6b6e6f776e20636865636b60981b6044820152606490fd5b5050346105f057602090816003193601126105f0575f8051602061577d833981519152805482516382027b6d60e01b8152853581870181815233602082015293966001600160a01b039690949093919291849183918916908290819060400103915afa90811561068b575f91612ce6575b5015612cb857612a478161570a565b955f966054811015612ca55784612a5e91146147c3565b612a6830836156a3565b612a7233836156a3565b857f00000000000000000000000000000000000000000000000000000000000000001690855163d7ee287d60e01b815285808201528481602481865afa9081156105e657908892915f91612c88575b50612bcc575b50505085549460018601809611612bb957858755845160a081018181106001600160401b03821117612ba657865286815283810192835285810185815260608201904282526080830194338652898b5260018752888b20935184555160018401556002830190516054811015612b9357925f805160206157bd833981519152999a94928892612b86979560ff80198354169116179055516003820155019151166001600160601b0360a01b8254161790556001855191610d6183613df7565b82519182524290820152a2005b634e487b7160e01b8b526021885260248bfd5b604186634e487b7160e01b5f525260245ffd5b634e487b7160e01b875260118452602487fd5b5416803b156105f0578551630f8e573b60e21b81528581018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a8357612c75575b508087913b156105c1578180916044885180948193634b68291f60e01b8352888b8401528a60248401525af18015612c6b57612c53575b8690612ac7565b612c5c90613e26565b612c6757855f612c4c565b8580fd5b86513d84823e3d90fd5b612c80919750613e26565b5f955f612c15565b612c9f9150863d881161061a5761060c8183613e54565b5f612ac1565b602185634e487b7160e01b5f525260245ffd5b50606492519162461bcd60e51b8352820152601c60248201525f8051602061573d8339815191526044820152fd5b612cfd9150833d851161061a5761060c8183613e54565b5f612a38565b8284346105f05760203660031901126105f057803591825f526001602052612d2f815f20541515614103565b612d3883614600565b825f526002602052612d5360ff6001835f2001541615613fc4565b825f5260036020526001815f200154612d6f576128f483614bf0565b906020606492519162461bcd60e51b8352820152601260248201527144656372797074696f6e2070656e64696e6760701b6044820152fd5b8284346105f05760603660031901126105f05780359160248035906001600160401b038083116105f057366023840112156105f057828501359081116105f057818301928236918360061b0101116105f0576044946044359384151585036105f057875f52600193602098858a52612e23885f20541515614103565b612e2c81614600565b84151580613122575b156130ed57805f52858a52875f20985f995f91886002830192015b8d898510613018575050505050612e67308a6156a3565b612e71338a6156a3565b60075498868a01809a116126b957898b91816007558a5190612e9282613e39565b848252838201600281528c83015f81528d606085019033825260808601948552600860a08701985f8a5260c08801985f8a525f52525f20945185558c85019251916003831015611db25783549051916006831015611da0575160089290921b61ff00166001600160b01b031990911660ff938416171760109190911b62010000600160b01b031617909155905160028301559251600391909101805491151590931660ff1991909116178255612f489190611cd1565b887f6d8413cd10389527583fe9560e5f8e8acb4df88b0dfb686c8e67dbccbcd03c458b8a5160028152a35f5b848110612f8b57505050505050611d705751908152f35b885f5260098a52875f20612fa08287866141a3565b90805490600160401b8210156130065790612fbf9189820181556141c7565b919091612ff55790878c83612fea612fd88497966141e0565b859060ff801983541691151516179055565b013591015501612f74565b835f87634e487b7160e01b8252525ffd5b84604188634e487b7160e01b5f52525ffd5b938a91929394819e8a8f6130486130408f878f91613035926141a3565b60ff8c5416906148ad565b9089546148d3565b9461305c57505050505b9c01929190612e50565b606492939495505f9060018060a01b035f8051602061575d8339815191525416905196879586946363a2db2960e01b86528501528c84015281898401525af19081156130e357908a915f916130b2575b50613052565b8f8193508092503d83116130dc575b6130cb8183613e54565b810103126105f0578990518f6130ac565b503d6130c1565b8c513d5f823e3d90fd5b875162461bcd60e51b81528085018b90526010818401526f496e76616c6964207365742073697a6560801b6044820152606490fd5b506010851115612e35565b5050346105f057806003193601126105f05781359160548310156105f05761318e9260446020925f60018060a01b035f8051602061575d833981519152541686519788958694639cd07acb60e01b8652602435908601526024850190613f1e565b5af190811561189a575f9161186557602092506102c230836156a3565b82346105f0575f3660031901126105f05760209051610e108152f35b82346105f0575f3660031901126105f0576020906102b7615556565b8284346105f05760203660031901126105f057355f526003602052805f206001815491015482519182526020820152f35b5050346105f05760203660031901126105f05781355f526008602052805f2080549160018201549060ff82166003600285015494015495825195865260038210156132a557509161327860ff949260e0979460208801528601858360081c16613f6b565b60101c6001600160a01b031660608501526080840152808216151560a084015260081c16151560c0820152f35b602190634e487b7160e01b5f525260245ffd5b5050346105f057806003193601126105f0576132df6020926132d8613f55565b903561413f565b90519015158152f35b82346105f0575f3660031901126105f057517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5050346105f057602090816003193601126105f0575f8051602061577d833981519152805482516382027b6d60e01b815285358187018181523360208201526001600160a01b03969493919291859183918916908290819060400103915afa90811561068b575f916135c6575b501561171e576133a78161570a565b915f92605481101561170b5760086133bf91146147c3565b6133c930836156a3565b6133d333836156a3565b845163d7ee287d60e01b81526008888201527f0000000000000000000000000000000000000000000000000000000000000000871691908581602481865afa9081156105e657908892915f916135a9575b506134f9575b5050508154946001860180961161162b57858355845160a081018181106001600160401b0382111761161857865286815284810192835285810160088152606082019042825260808301943386528987526001885288872093518455516001840155600283019051605481101561160557916134ea96959493915f805160206157bd8339815191529a9b9360ff80198354169116179055516003820155019151166001600160601b0360a01b825416179055600184519161095383613df7565b815190600882524290820152a2005b5416803b156105f0578551630f8e573b60e21b81528089018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a8357613596575b50803b156105cf578280916044875180948193634b68291f60e01b8352878d840152600860248401525af18015610a6657908391613582575b869061342a565b61358b90613e26565b6105c157815f61357b565b6135a1919350613e26565b5f915f613542565b6135c09150873d891161061a5761060c8183613e54565b5f613424565b6135dd9150843d861161061a5761060c8183613e54565b5f613398565b8284346105f05760203660031901126105f05760ff60c09282355f526006602052805f20805493836001830154169261363360028401549260038501549401549482519788526020880190613f6b565b85015260608401528181161515608084015260081c16151560a0820152f35b5050346105f05760203660031901126105f0578135805f52600160205260ff6002835f2001541660548110156136dc576007036136a857602092506001600160a01b039061369f90614774565b54169051908152f35b815162461bcd60e51b8152602081850152600e60248201526d4e6f7420616e206164647265737360901b6044820152606490fd5b602184634e487b7160e01b5f525260245ffd5b5050346105f057602090816003193601126105f0575f8051602061577d833981519152805482516382027b6d60e01b815285358187018181523360208201526001600160a01b03969493919291859183918916908290819060400103915afa90811561068b575f91613984575b501561171e5761376b8161570a565b915f92605481101561170b5761378190156147c3565b61378b30836156a3565b61379533836156a3565b845163d7ee287d60e01b81525f888201527f0000000000000000000000000000000000000000000000000000000000000000871691908581602481865afa9081156105e657908892915f91613967575b506138b8575b5050508154946001860180961161162b57858355845160a081018181106001600160401b038211176116185786528681528481019283528581015f8152606082019042825260808301943386528987526001885288872093518455516001840155600283019051605481101561160557916138aa96959493915f805160206157bd8339815191529a9b9360ff80198354169116179055516003820155019151166001600160601b0360a01b825416179055600184519161095383613df7565b8151905f82524290820152a2005b5416803b156105f0578551630f8e573b60e21b81528089018481526001600160a01b038416602082015290915f9183919082908490829060400103925af18015610a8357613954575b50803b156105cf578280916044875180948193634b68291f60e01b8352878d8401525f60248401525af18015610a6657908391613940575b86906137eb565b61394990613e26565b6105c157815f613939565b61395f919350613e26565b5f915f613901565b61397e9150873d891161061a5761060c8183613e54565b5f6137e5565b61399b9150843d861161061a5761060c8183613e54565b5f61375c565b8284346105f05760203660031901126105f057355f526002602052805f2060ff6001825492015416825191825215156020820152f35b5050346105f057806003193601126105f0576139f1613f3f565b90602435801515928382036105f0576001600160a01b03169384151580613aa2575b15613a6c5790613a4091335f52602052825f20855f52602052825f209060ff801983541691151516179055565b519081527fcb325b7784f78486e42849c7a50b8c5ee008d00cd90e108a58912c0fcb6288b460203392a3005b606490602084519162461bcd60e51b8352820152601060248201526f496e76616c69642064656c656761746560801b6044820152fd5b5033851415613a13565b8284346105f057602090816003193601126105f05780355f5260098252825f20918254916001600160401b038311613b9257508284805193613af3848260051b0186613e54565b80855283850180935f52845f205f915b838310613b5957505050508051938385948501918186525180925282850193925f905b838210613b335786860387f35b845180511515875283015186840152879650948501949382019360019190910190613b26565b600287600192879a98999751613b6e81613df7565b60ff8654161515815284860154838201528152019201920191909693959496613b03565b604190634e487b7160e01b5f525260245ffd5b5050346105f05760203660031901126105f057613bd36128f4923591825f5260016020525f20541515614103565b613bdc81614600565b61469b565b82346105f0575f3660031901126105f0576020906005549051908152f35b5050346105f05760203660031901126105f057606091355f526002602052805f2090600160205260ff6002825f200154169160ff600182549201541690613c4883518095613f1e565b6020840152151590820152f35b82346105f0575f3660031901126105f0576020906007549051908152f35b5050346105f0575f3660031901126105f0575f8051602061575d833981519152548151639cd07acb60e01b81525f938101849052600760248201529260209184916044918391906001600160a01b03165af190811561189a575f9161186557602092506102c230836156a3565b5050346105f057806003193601126105f0576102b760209235602435908015613d13575b8161564f5790506102dc615503565b50613d1c615503565b613d04565b82346105f0575f3660031901126105f0576020905f549051908152f35b5050346105f0575f3660031901126105f0575f8051602061575d833981519152548151639cd07acb60e01b81525f938101849052600860248201529260209184916044918391906001600160a01b03165af190811561189a575f9161186557602092506102c230836156a3565b82346105f0575f3660031901126105f0576020906102b76154b1565b346105f0576128f4613dd836613ed8565b91614003565b346105f0575f3660031901126105f05780601060209252f35b604081019081106001600160401b03821117613e1257604052565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b038111613e1257604052565b60e081019081106001600160401b03821117613e1257604052565b90601f801991011681019081106001600160401b03821117613e1257604052565b9291926001600160401b038211613e125760405191613e9e601f8201601f191660200184613e54565b8294818452818301116105f0578281602093845f960137010152565b9080601f830112156105f057816020613ed593359101613e75565b90565b60606003198201126105f057600435916001600160401b036024358181116105f05783613f0791600401613eba565b926044359182116105f057613ed591600401613eba565b906054821015613f2b5752565b634e487b7160e01b5f52602160045260245ffd5b600435906001600160a01b03821682036105f057565b602435906001600160a01b03821682036105f057565b906006821015613f2b5752565b15613f7f57565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c69642072657175657374206d617070696e670000000000000000006044820152606490fd5b15613fcb57565b60405162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b91825f526020600a8152604092835f205494614020861515613f78565b855f526002835261404660019461403f60ff87895f2001541615613fc4565b838361429b565b855f5260038352845f208185820154159182156140f7575b50506140ca57505f9391836003928787526002835261408c8588209183855260ff6002888b2001541661446c565b815501805460ff19168517905585855252822082815501557fc072615cc0c7b72262830869632423d2c056ab6b705afcdeb9bc45a32f15ce835f80a2565b919250507fbb40830bc6b70796094b62466a492a4ec1b1f10b76cbd7d8d58f75a4d81d80df9251908152a2565b5414159050815f61405e565b1561410a57565b60405162461bcd60e51b815260206004820152600d60248201526c556e6b6e6f776e2076616c756560981b6044820152606490fd5b5f52600160205260018060a01b0380600460405f20015416908115159283614168575b50505090565b168082149250908215614180575b50505f8080614162565b9091505f52600460205260405f20905f5260205260ff60405f2054165f80614176565b91908110156141b35760061b0190565b634e487b7160e01b5f52603260045260245ffd5b80548210156141b3575f5260205f209060011b01905f90565b3580151581036105f05790565b156141f457565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b908160209103126105f0575180151581036105f05790565b1561424957565b60405162461bcd60e51b8152602060048201526011602482015270417070726f76616c73206d697373696e6760781b6044820152606490fd5b6006821015613f2b5752565b8051156141b35760200190565b9190825f525f8051602061571d83398151915291602091838352604093845f20541561445b57855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614445575050506142f792500383613e54565b805180850190818611614431578601809111614431576143985f8694614346896143ab968151968161433289935180928d8087019101615438565b8201908a8201520388810187520185613e54565b6143ba60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061547e565b6003199384878303016024880152615459565b91848303016044850152615459565b03925af1918215614427575f9261440a575b5050156143fa57507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b6144209250803d1061061a5761060c8183613e54565b5f806143cc565b83513d5f823e3d90fd5b634e487b7160e01b5f52601160045260245ffd5b85548452600195860195889550930192016142e0565b845163d66ca67560e01b8152600490fd5b6054811015613f2b5780156145de57600281146145be576003811461459d576004811461457a5760058114614554576006811461452557600781146144fe576008146144ea5760405162461bcd60e51b815260206004820152601060248201526f556e737570706f72746564207479706560801b6044820152606490fd5b6020818051810103126105f0576020015190565b506020818051810103126105f057602001516001600160a01b038116908190036105f05790565b506020818051810103126105f057602001516fffffffffffffffffffffffffffffffff81168091036105f05790565b506020818051810103126105f057602001516001600160401b0381168091036105f05790565b506020818051810103126105f0576020015163ffffffff81168091036105f05790565b506020818051810103126105f0576020015161ffff81168091036105f05790565b506020818051810103126105f0576020015160ff81168091036105f05790565b50806020806145f29351830101910161422a565b156145fc57600190565b5f90565b61461261460d338361413f565b6141ed565b604051637910867b60e01b815260048101919091526020816024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa80156146905761466f915f916146715750614242565b565b61468a915060203d60201161061a5761060c8183613e54565b5f6128cd565b6040513d5f823e3d90fd5b805f52600360205260405f2060018101548015614737574211156146fb577f73963f4ea5ccdd9c06df3a32206b8ae23f99e119c3aad51d22a1dd58f4b734b66020839254604051908152a25f5260036020525f6001604082208281550155565b60405162461bcd60e51b815260206004820152601460248201527344656372797074696f6e206e6f74207374616c6560601b6044820152606490fd5b60405162461bcd60e51b81526020600482015260156024820152742737903832b73234b733903232b1b93cb83a34b7b760591b6044820152606490fd5b5f52600260205260405f209060ff6001830154161561478f57565b60405162461bcd60e51b815260206004820152600c60248201526b139bdd081c995d99585b195960a21b6044820152606490fd5b156147ca57565b60405162461bcd60e51b815260206004820152600d60248201526c0a8f2e0ca40dad2e6dac2e8c6d609b1b6044820152606490fd5b6024358015908115036105f0576148555760443561481c81614600565b5f52600160205260405f2060ff6002820154166054831015613f2b576054811015613f2b5760019261484e91146147c3565b0154905f90565b5060443590600190565b6064358015908115036105f05761487c5760843561481c81614600565b5060843590600190565b6044358015908115036105f0576148a35760643561481c81614600565b5060643590600190565b6148b6816141e0565b156148c8576020013561481c81614600565b602001359160019150565b9060209161493f935f1461498357600160f81b915b5f8051602061575d8339815191525460405163f77f3f1d60e01b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b03925af1908115614690575f91614954575090565b90506020813d60201161497b575b8161496f60209383613e54565b810103126105f0575190565b3d9150614962565b5f916148e8565b90604091825161499981613df7565b60018082526020948583019186368437845f52600887526002825f2001546149c08561428e565b525f5f8051602061579d8339815191529182549460018060a01b0396875f8051602061577d833981519152541697883b156105f0578651637d6e912360e11b815260048082018e90529c998180614a1a602482018761547e565b03815a5f948591f1801561062157614bdd575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15612140578651633263b83b60e01b8152808d01899052606060248201529085908290818381614a86606482018961547e565b63f325596760e01b604483015203925af18015614bd357908591614bbf575b508790525f8051602061571d83398151915280895286852054614baf5787855288528584209051916001600160401b038311614b9c57600160401b8311614b9c578154838355808410614b75575b50908452878420845b838110614b645750505050508154905f198214614b5157507fdbdec89e82e7a8fbb39043b6e7b2322eed1fa8d6e64cfc2258a453bc1941c313959697506001019055815f52600c835284815f205551908152a2565b634e487b7160e01b815260118952602490fd5b825182820155918901918401614afc565b82865284848b882092830192015b828110614b91575050614af3565b5f8155018590614b83565b634e487b7160e01b855260418c52602485fd5b8651633f06d22b60e01b81528c90fd5b614bc890613e26565b61213257835f614aa5565b87513d87823e3d90fd5b614be8919550613e26565b5f935f614a2d565b604051614bfc81613df7565b600180825260203681840137825f52806020528060405f200154614c1f8361428e565b525f8051602061579d833981519152545f8051602061577d8339815191525490925f916001600160a01b0316803b156105f0575f6040518092637d6e912360e11b825260206004830152818381614c79602482018961547e565b03925af1801561469057614ea3575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156105cf57826040518092633263b83b60e01b825287600483015260606024830152818381614ce8606482018961547e565b630766950760e01b604483015203925af18015614e9857908391614e84575b508490525f8051602061571d833981519152806020526040832054614e7257848352602052604082208151916001600160401b038311614e5e57600160401b8311614e5e578154838355808410614e36575b506020019083526020832084845b848110614e235750505050505f8051602061579d83398151915254905f198214614e0f575081015f8051602061579d83398151915255815f52600a6020528260405f2055610e10420191824211614431577f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c9260209260405191614dea83613df7565b838352848301908152865f526003855260405f209251835551910155604051908152a2565b634e487b7160e01b81526011600452602490fd5b6020845194019381840155018590614d67565b82855285846020872092830192015b828110614e53575050614d59565b5f8155018690614e45565b634e487b7160e01b84526041600452602484fd5b604051633f06d22b60e01b8152600490fd5b614e8d90613e26565b6105c157815f614d07565b6040513d85823e3d90fd5b614eae919250613e26565b5f905f614c88565b916006821015613f2b57811561512a57600182146150cb57614ed78361570a565b6054811015613f2b57600281101590816150bf575b501561507a578160026020931461501e5760038114614fc257600414614f67575f8051602061575d83398151915254604051631391547f60e01b815260048101949094526024840191909152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d833981519152546040516385362ee760e01b815260048101949094526024840191909152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b505f8051602061575d83398151915254604051631d44e90160e21b815260048101949094526024840191909152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b505f8051602061575d83398151915254604051637210768160e01b815260048101949094526024840191909152600160f81b6044840152829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b60405162461bcd60e51b815260206004820152601f60248201527f4f70657261746f72206e6f7420737570706f7274656420666f722074797065006044820152606490fd5b6006915011155f614eec565b5f8051602061575d833981519152546040516336024b2f60e21b815260048101949094526024840191909152600160f81b604484015260209150829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d8339815191525460405163f77f3f1d60e01b815260048101949094526024840191909152600160f81b604484015260209150829060649082905f906001600160a01b03165af1908115614690575f91614954575090565b9192906006811015613f2b57801561542c57600181146153b8576151ac8361570a565b6054811015613f2b57600281101590816153ac575b501561507a576002811461533857600381146152c457600414615251579160209161493f935f1461524a57600160f81b915b5f8051602061575d83398151915254604051631391547f60e01b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b5f916151f3565b9160209161493f935f146152bd57600160f81b915b5f8051602061575d833981519152546040516385362ee760e01b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b5f91615266565b509160209161493f935f1461533157600160f81b915b5f8051602061575d83398151915254604051631d44e90160e21b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b5f916152da565b509160209161493f935f146153a557600160f81b915b5f8051602061575d83398151915254604051637210768160e01b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b5f9161534e565b6006915011155f6151c1565b509160209161493f935f1461542557600160f81b915b5f8051602061575d833981519152546040516336024b2f60e21b8152600481019390935260248301919091526001600160f81b031990921660448201529283916001600160a01b03169082905f9082906064820190565b5f916153ce565b509091613ed5926148d3565b5f5b8381106154495750505f910152565b818101518382015260200161543a565b9060209161547281518092818552858086019101615438565b601f01601f1916010190565b9081518082526020808093019301915f5b82811061549d575050505090565b83518552938101939281019260010161548f565b5f8051602061575d83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115614690575f91614954575090565b5f8051602061575d83398151915254604051639cd07acb60e01b81525f60048201819052600360248301529091602091839160449183916001600160a01b03165af1908115614690575f91614954575090565b90602090606460018060a01b035f8051602061575d8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115614690575f91614954575090565b5f8051602061577d833981519152546001600160a01b031691823b156105f057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015614690576157015750565b61466f90613e26565b60081c60ff166054811015613f2b579056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0153656e646572206e6f7420616c6c6f776564206f6e2068616e646c65000000009e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00109ebcfa2129d17e3c06f242f34777d4dd425ba8cc6a365ade39d5c21227163fa164736f6c6343000818000a60a060405234610167575f606061001461016b565b828152826020820152826040820152015261002d61016b565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905533608052604051611223908161019f823960805181818160ae01526107730152f35b5f80fd5b60405190608082016001600160401b0381118382101761018a57604052565b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610015575f80fd5b5f925f3560e01c9182634b68291f14610748575081635346b46b146106f357816358c5e7d31461026a5781638c0d0d1a14610241578163a5fa3f94146101e7578163a99dfe51146101cb578163ce262fbe146101b0578163d58403e314610137578163d7ee287d146100fd57508063da1f12ab146100e15763e9de55531461009b575f80fd5b346100dd57816003193601126100dd57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5080fd5b50346100dd57816003193601126100dd57602090516127118152f35b9050346101335760203660031901126101335735916054831015610130575061012760209261106c565b90519015158152f35b80fd5b8280fd5b9050346101335760203660031901126101335735916054831015610130575060ff61016360c093610c4c565b9182549260018101549160026001600160801b03920154928151958652828116602087015260801c9085015281166060840152818160801c161515608084015260881c16151560a0820152f35b5050346100dd57816003193601126100dd5760209051818152f35b5050346100dd57816003193601126100dd576020905160088152f35b839150346100dd5760203660031901126100dd5735906054821015610130575061021090610c35565b8054600182015460028301546003909301549351918252602082015260408101919091526060810191909152608090f35b839150346100dd5760203660031901126100dd5735906054821015610130575061021090610c0b565b9190503461062e576020928360031936011261062e57823590605482101561062e5761029582610c35565b90815480156106bc576102a784610c4c565b54811115610679578611801591906106705760ff60035b166102e06102cb82611054565b916102d888519384610b93565b808352611054565b8882019190601f19013683376001908186015481511561065d57835284610632575b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970054909a6001600160a01b0391821693909291843b1561062e578b51637d6e912360e11b81528481018f90526024955f9082908183816103878c82018a611129565b03925af1801561062457610611575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561060d57878d8d51928391633263b83b60e01b8352878301526060888301528183816103ec6064820189611129565b635346b46b60e01b604483015203925af18015610603579088916105eb575b508c90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808e528b8820546105db578c88528d528a872090519067ffffffffffffffff968783116105c9576801000000000000000083116105c9578e838354918185558282106105a0575b5050509088528d86818a20918a905b85821061058d5750505050505080545f19811461057b5784019055865491895194608086019086821090821117610568578a528885528b850192835289850196875260608501958087528b815260038d528a8120955192605484101561055857505050927f5c8fdeafb53623d73978fdb914df7bad452f9f3b4aa0ad93e500ca9e75f754ec9694926002928a979560ff80198554169116178355519082015501915115159060ff61ff0084549251151560081b1692169061ffff1916171790555481519081528587820152a251908152f35b634e487b7160e01b825260219052fd5b50634e487b7160e01b5f90815260418352fd5b634e487b7160e01b8752601183528387fd5b845194019381840155018f908891610486565b848c528b20918201918991015b8281106105be5750508f8490610477565b8b81550188906105ad565b634e487b7160e01b8952604185528589fd5b8b51633f06d22b60e01b81528490fd5b6105f490610b6b565b6105ff57865f61040b565b8680fd5b8c513d8a823e3d90fd5b8780fd5b61061c919850610b6b565b5f965f610396565b8d513d5f823e3d90fd5b5f80fd5b6002860154815183101561065d5788820152600386015481516002101561065d576060820152610302565b60328a634e487b7160e01b5f525260245ffd5b60ff60016102be565b845162461bcd60e51b8152808701889052601960248201527f536e617073686f7420616c72656164792072657665616c6564000000000000006044820152606490fd5b845162461bcd60e51b815280870188905260116024820152704e6f7420656e6f7567682076616c75657360781b6044820152606490fd5b3461062e57606036600319011261062e5767ffffffffffffffff9060243582811161062e576107259036908301610bb5565b60443592831161062e5761073f6107469336908401610bb5565b9135610c77565b005b91503461062e578260031936011261062e576024803592605484101561062e576001600160a01b03907f000000000000000000000000000000000000000000000000000000000000000082163303610b3a57506107a48461106c565b15610b02575f947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019180835416928251936307227b9160e21b85528635878601526006868601528460448160209b8c945af1938415610af8575f94610ac9575b5061080e87610c0b565b978854155f146108b6575050505080600186015580600286015560038501555b835491600183018093116108a557505082556001820161084e815461108d565b506002830161085d815461108d565b50600384019161086d835461108d565b50845493600785161561087c57005b61088590610c35565b94850361088e57005b600393855554600185015554600284015554910155005b601190634e487b7160e01b5f52525ffd5b60018995929394950192868454948385968015610abb575b898c8815998a610aa5575b6064925f918d8a54169151988996879563022f65e760e31b87528601528401528160448401525af1918215610a46575f92610a76575b50558660028b01838154898c888a8415610a66575b610a50575b6064925f918d8a5416915198899687956304559f7160e01b87528601528401528160448401525af1918215610a46575f92610a17575b505560038a0194855493908415610a05575b8394956109f2575b606491925416945f88519687948593630d8c635960e21b85528d8501528b8401528160448401525af19384156109e957505f936109b9575b50505561082e565b9080929350813d83116109e2575b6109d18183610b93565b8101031261062e57519086806109b1565b503d6109c7565b513d5f823e3d90fd5b606491506109fe611181565b9150610979565b839450610a10611181565b9450610971565b9091508381813d8311610a3f575b610a2f8183610b93565b8101031261062e5751908c61095f565b503d610a25565b88513d5f823e3d90fd5b505f606492610a5d611181565b91509250610929565b9350610a70611181565b93610924565b9091508381813d8311610a9e575b610a8e8183610b93565b8101031261062e5751908c61090f565b503d610a84565b505f606492610ab2611181565b915092506108d9565b50610ac4611181565b6108ce565b9093508781813d8311610af1575b610ae18183610b93565b8101031261062e57519288610804565b503d610ad7565b83513d5f823e3d90fd5b845162461bcd60e51b815260208185015260138184015272151e5c19481b9bdd081859d9dc9959d85d1959606a1b6044820152606490fd5b62461bcd60e51b8152602084820152600e838201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b67ffffffffffffffff8111610b7f57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610b7f57604052565b81601f8201121561062e5780359067ffffffffffffffff8211610b7f5760405192610bea601f8401601f191660200185610b93565b8284526020838301011161062e57815f926020809301838601378301015290565b6054811015610c21575f525f60205260405f2090565b634e487b7160e01b5f52602160045260245ffd5b6054811015610c21575f52600160205260405f2090565b6054811015610c21575f52600260205260405f2090565b51906001600160801b038216820361062e57565b91825f5260209060038252604092835f2090600190600183019687541561101057600284019460ff865460081c16610fd957815f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852885f205415610fc857825f528752875f2093885190819586918a82549485815201915f528a5f20905f5b8c868210610fb25750505050610d1292500385610b93565b82519384880194858911610f9e578901809511610f9e5788518451858a01968a93918c918491610d45818489018d611108565b8201908682015203848101845201610d5d9083610b93565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703548b516378542ead60e01b8152606060048201529485936001600160a01b03909216928492839291610db4906064850190611129565b906003199182858203016024860152610dcc9161115c565b90838203016044840152610ddf9161115c565b03915a905f91f1908115610a46575f91610f68575b5015610f57577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a283549161010061ff00198416178555610e3a60ff855416610c4c565b928854845411610f4c57869060ff1615610f13575060608280518101031261062e5760ff94600292610e6c8793610c63565b610e836060610e7c8c8501610c63565b9301610c63565b90858701906001600160801b0391826001600160801b0319941684825416179055169160801b161760018501555b885484555491909201805461ffff60801b1916929091161515841660801b91909117600160881b1790555493549316926054841015610c21577fdfa85de5fe7b1512a88ff95fac1019baf5d58df078fed09d10e46c90c690e4499251908152a2565b90949180518101031261062e5760ff6002916001600160801b03610f378397610c63565b84860182198154169055166001850155610eb1565b505050505050505050565b865163cf6c44e960e01b8152600490fd5b90508681813d8311610f97575b610f7f8183610b93565b8101031261062e5751801515810361062e575f610df4565b503d610f75565b634e487b7160e01b5f52601160045260245ffd5b835485528a955090930192918101918101610cfa565b885163d66ca67560e01b8152600490fd5b875162461bcd60e51b815260048101889052601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b865162461bcd60e51b815260048101879052601760248201527f496e76616c69642072657175657374206d617070696e670000000000000000006044820152606490fd5b67ffffffffffffffff8111610b7f5760051b60200190565b6054811015610c215760028110159081611084575090565b60059150111590565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b1561062e575f8091604460405180948193635ca4b5b160e11b83528760048401523060248401525af180156110fd576110f1575090565b6110fa90610b6b565b90565b6040513d5f823e3d90fd5b5f5b8381106111195750505f910152565b818101518382015260200161110a565b9081518082526020808093019301915f5b828110611148575050505090565b83518552938101939281019260010161113a565b9060209161117581518092818552858086019101611108565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af19081156110fd575f916111e7575090565b90506020813d60201161120e575b8161120260209383610b93565b8101031261062e575190565b3d91506111f556fea164736f6c6343000818000a60a080604052346100305733608052610a9b90816100358239608051818181608b0152818161013d015261092d0152f35b5f80fdfe6080604090808252600480361015610015575f80fd5b5f3560e01c9182637910867b1461084a5750816390a05b7f1461062c578163ab2850da146105e8578163c3759eb8146105a4578163c65df794146104ff578163d3e89483146104cf578163db2cbe5b146100be575063e9de555314610078575f80fd5b346100ba575f3660031901126100ba57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b82346100ba5760603660031901126100ba5781359060249283359367ffffffffffffffff908186116100ba57366023870112156100ba57858301359182116100ba57808601958136918460051b0101116100ba578351639651a09960e01b815280840186905260448035949093916001600160a01b03919060a08186817f000000000000000000000000000000000000000000000000000000000000000087165afa9081156104c5579083915f91610478575b5016801561044757330361041557875f526020945f8652875f20546103df5761019989610914565b861515806103d5575b156103a0575f5b868a8c868c898087106102d55750505050925050505f5260019360018652875f20916801000000000000000085116102c4575050805483825580841061029d575b508893929193905f52845f20905f5b83811061027d57505050865f525f845284865f205580865196808801908852526060860197925f905b82821061025857887f268a3ba6d58f7ac609ce11971be5cf7b46e60b03d2b26ba6df846e6828cef4f589808d8b8b8301520390a2005b90919293988935908282168092036100ba579081528501988501939291830190610222565b93809593948761028c84610900565b9301928185015501949392946101f9565b815f528484875f2092830192015b8281106102b95750506101ea565b5f81550185906102ab565b604190634e487b7160e01b5f52525ffd5b8691836102eb6102e68585896108dc565b610900565b161515958661036c575b50505050505090501561033857808b856103206102e66001958f8f60028f8e935f52525f20956108dc565b165f528852895f208260ff19825416179055016101a9565b885162461bcd60e51b81528084018890526010818801526f24b73b30b634b21030b8383937bb32b960811b81840152606490fd5b6102e694965061038595976002915f52525f20956108dc565b165f52875260ff895f2054161587908c8684898f8f906102f5565b875162461bcd60e51b815291820186905260118286015270125b9d985b1a59081d1a1c995cda1bdb19607a1b90820152606490fd5b50838711156101a2565b875162461bcd60e51b815291820186905260128286015271141bdb1a58de48185b1c9958591e481cd95d60721b90820152606490fd5b6064906d139bdd08185d5d1a1bdc9a5e995960921b86600e8760208c519562461bcd60e51b8752860152840152820152fd5b875162461bcd60e51b8152602081840152600d818701526c556e6b6e6f776e2076616c756560981b81880152606490fd5b91505060a0813d60a0116104bd575b8161049460a093836108ba565b810103126100ba5760548882015110156100ba576080015182811681036100ba5782908b610171565b3d9150610487565b88513d5f823e3d90fd5b9050346100ba5760203660031901126100ba57355f525f602052805f206001815491015482519182526020820152f35b82346100ba57602091826003193601126100ba57355f526001808352815f209282518082865491828152019081965f52835f20905f5b818110610588575050508161054b9103826108ba565b8351938285019183865251809252840194915f5b82811061056c5785870386f35b83516001600160a01b031687529581019592810192840161055f565b82546001600160a01b0316845292850192918601918601610535565b82346100ba57806003193601126100ba576020916105c0610874565b90355f5260028352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b82346100ba57806003193601126100ba57602091610604610874565b90355f5260038352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b82346100ba57806003193601126100ba5781359060243592831515938481036100ba57835f5260209160028352835f20335f52835260ff845f2054161561081557845f5260038352835f20335f5283528560ff855f205416151514825f146107ec5784516106998161088a565b601081526f105b1c9958591e48185c1c1c9bdd995960821b85820152905b61079157506106c585610914565b845f525f8352835f209160038452845f20335f528452845f2060ff1981541660ff89161790555f14610750576001820154906001820180921161073d5750916001917f9fe2c4dbcadf2d4dc793484170098187623f79a67dfa0d2e7c0e14943ec4ac5d94939283915b015582519586528501523393a3005b601190634e487b7160e01b5f525260245ffd5b60018201545f1981019190821161073d5750916001917f9fe2c4dbcadf2d4dc793484170098187623f79a67dfa0d2e7c0e14943ec4ac5d949392839161072e565b915082845193849262461bcd60e51b84528301528251908160248401525f935b8285106107d3575050604492505f838284010152601f80199101168101030190fd5b84810182015186860160440152938101938593506107b1565b84516107f78161088a565b600c81526b139bdd08185c1c1c9bdd995960a21b85820152906106b7565b835162461bcd60e51b8152908101839052600f60248201526e2737ba1030b71030b8383937bb32b960891b6044820152606490fd5b83346100ba5760203660031901126100ba57602092355f525f83525f206001810154905411158152f35b602435906001600160a01b03821682036100ba57565b6040810190811067ffffffffffffffff8211176108a657604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176108a657604052565b91908110156108ec5760051b0190565b634e487b7160e01b5f52603260045260245ffd5b356001600160a01b03811681036100ba5790565b6040805163025ebb4560e51b81526004810183905290917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316918381602481865afa908115610a84575f91610a4b575b50610a1457829060248251809481936333fb1dd760e11b835260048301525afa908115610a0a575f916109da575b506109a25750565b5162461bcd60e51b815260206004820152601260248201527144656372797074696f6e2070656e64696e6760701b6044820152606490fd5b90508181813d8311610a03575b6109f181836108ba565b810103126100ba57602001515f61099a565b503d6109e7565b82513d5f823e3d90fd5b825162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b90508381813d8311610a7d575b610a6281836108ba565b810103126100ba576020015180151581036100ba575f61096c565b503d610a58565b84513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type FHETestFrameworkConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FHETestFrameworkConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FHETestFramework__factory extends ContractFactory {
+  constructor(...args: FHETestFrameworkConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      FHETestFramework & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): FHETestFramework__factory {
+    return super.connect(runner) as FHETestFramework__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FHETestFrameworkInterface {
+    return new Interface(_abi) as FHETestFrameworkInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FHETestFramework {
+    return new Contract(address, _abi, runner) as unknown as FHETestFramework;
+  }
+}
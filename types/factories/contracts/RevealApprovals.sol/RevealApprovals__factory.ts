@@ -0,0 +1,292 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  RevealApprovals,
+  RevealApprovalsInterface,
+} from "../../../contracts/RevealApprovals.sol/RevealApprovals";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "approvals",
+        type: "uint256",
+      },
+    ],
+    name: "ApprovalUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "approvers",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+    ],
+    name: "PolicySet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "approvals",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "framework",
+    outputs: [
+      {
+        internalType: "contract IRevealSubject",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getApprovers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "isApproved",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isApprover",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "policies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "approvals",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApproval",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "approvers",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "threshold",
+        type: "uint256",
+      },
+    ],
+    name: "setPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a080604052346100305733608052610a9b90816100358239608051818181608b0152818161013d015261092d0152f35b5f80fdfe6080604090808252600480361015610015575f80fd5b5f3560e01c9182637910867b1461084a5750816390a05b7f1461062c578163ab2850da146105e8578163c3759eb8146105a4578163c65df794146104ff578163d3e89483146104cf578163db2cbe5b146100be575063e9de555314610078575f80fd5b346100ba575f3660031901126100ba57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b5f80fd5b82346100ba5760603660031901126100ba5781359060249283359367ffffffffffffffff908186116100ba57366023870112156100ba57858301359182116100ba57808601958136918460051b0101116100ba578351639651a09960e01b815280840186905260448035949093916001600160a01b03919060a08186817f000000000000000000000000000000000000000000000000000000000000000087165afa9081156104c5579083915f91610478575b5016801561044757330361041557875f526020945f8652875f20546103df5761019989610914565b861515806103d5575b156103a0575f5b868a8c868c898087106102d55750505050925050505f5260019360018652875f20916801000000000000000085116102c4575050805483825580841061029d575b508893929193905f52845f20905f5b83811061027d57505050865f525f845284865f205580865196808801908852526060860197925f905b82821061025857887f268a3ba6d58f7ac609ce11971be5cf7b46e60b03d2b26ba6df846e6828cef4f589808d8b8b8301520390a2005b90919293988935908282168092036100ba579081528501988501939291830190610222565b93809593948761028c84610900565b9301928185015501949392946101f9565b815f528484875f2092830192015b8281106102b95750506101ea565b5f81550185906102ab565b604190634e487b7160e01b5f52525ffd5b8691836102eb6102e68585896108dc565b610900565b161515958661036c575b50505050505090501561033857808b856103206102e66001958f8f60028f8e935f52525f20956108dc565b165f528852895f208260ff19825416179055016101a9565b885162461bcd60e51b81528084018890526010818801526f24b73b30b634b21030b8383937bb32b960811b81840152606490fd5b6102e694965061038595976002915f52525f20956108dc565b165f52875260ff895f2054161587908c8684898f8f906102f5565b875162461bcd60e51b815291820186905260118286015270125b9d985b1a59081d1a1c995cda1bdb19607a1b90820152606490fd5b50838711156101a2565b875162461bcd60e51b815291820186905260128286015271141bdb1a58de48185b1c9958591e481cd95d60721b90820152606490fd5b6064906d139bdd08185d5d1a1bdc9a5e995960921b86600e8760208c519562461bcd60e51b8752860152840152820152fd5b875162461bcd60e51b8152602081840152600d818701526c556e6b6e6f776e2076616c756560981b81880152606490fd5b91505060a0813d60a0116104bd575b8161049460a093836108ba565b810103126100ba5760548882015110156100ba576080015182811681036100ba5782908b610171565b3d9150610487565b88513d5f823e3d90fd5b9050346100ba5760203660031901126100ba57355f525f602052805f206001815491015482519182526020820152f35b82346100ba57602091826003193601126100ba57355f526001808352815f209282518082865491828152019081965f52835f20905f5b818110610588575050508161054b9103826108ba565b8351938285019183865251809252840194915f5b82811061056c5785870386f35b83516001600160a01b031687529581019592810192840161055f565b82546001600160a01b0316845292850192918601918601610535565b82346100ba57806003193601126100ba576020916105c0610874565b90355f5260028352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b82346100ba57806003193601126100ba57602091610604610874565b90355f5260038352815f209060018060a01b03165f52825260ff815f20541690519015158152f35b82346100ba57806003193601126100ba5781359060243592831515938481036100ba57835f5260209160028352835f20335f52835260ff845f2054161561081557845f5260038352835f20335f5283528560ff855f205416151514825f146107ec5784516106998161088a565b601081526f105b1c9958591e48185c1c1c9bdd995960821b85820152905b61079157506106c585610914565b845f525f8352835f209160038452845f20335f528452845f2060ff1981541660ff89161790555f14610750576001820154906001820180921161073d5750916001917f9fe2c4dbcadf2d4dc793484170098187623f79a67dfa0d2e7c0e14943ec4ac5d94939283915b015582519586528501523393a3005b601190634e487b7160e01b5f525260245ffd5b60018201545f1981019190821161073d5750916001917f9fe2c4dbcadf2d4dc793484170098187623f79a67dfa0d2e7c0e14943ec4ac5d949392839161072e565b915082845193849262461bcd60e51b84528301528251908160248401525f935b8285106107d3575050604492505f838284010152601f80199101168101030190fd5b84810182015186860160440152938101938593506107b1565b84516107f78161088a565b600c81526b139bdd08185c1c1c9bdd995960a21b85820152906106b7565b835162461bcd60e51b8152908101839052600f60248201526e2737ba1030b71030b8383937bb32b960891b6044820152606490fd5b83346100ba5760203660031901126100ba57602092355f525f83525f206001810154905411158152f35b602435906001600160a01b03821682036100ba57565b6040810190811067ffffffffffffffff8211176108a657604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176108a657604052565b91908110156108ec5760051b0190565b634e487b7160e01b5f52603260045260245ffd5b356001600160a01b03811681036100ba5790565b6040805163025ebb4560e51b81526004810183905290917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316918381602481865afa908115610a84575f91610a4b575b50610a1457829060248251809481936333fb1dd760e11b835260048301525afa908115610a0a575f916109da575b506109a25750565b5162461bcd60e51b815260206004820152601260248201527144656372797074696f6e2070656e64696e6760701b6044820152606490fd5b90508181813d8311610a03575b6109f181836108ba565b810103126100ba57602001515f61099a565b503d6109e7565b82513d5f823e3d90fd5b825162461bcd60e51b815260206004820152601060248201526f105b1c9958591e481c995d99585b195960821b6044820152606490fd5b90508381813d8311610a7d575b610a6281836108ba565b810103126100ba576020015180151581036100ba575f61096c565b503d610a58565b84513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type RevealApprovalsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RevealApprovalsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RevealApprovals__factory extends ContractFactory {
+  constructor(...args: RevealApprovalsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RevealApprovals & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RevealApprovals__factory {
+    return super.connect(runner) as RevealApprovals__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RevealApprovalsInterface {
+    return new Interface(_abi) as RevealApprovalsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RevealApprovals {
+    return new Contract(address, _abi, runner) as unknown as RevealApprovals;
+  }
+}
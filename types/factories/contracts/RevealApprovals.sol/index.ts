@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IRevealSubject__factory } from "./IRevealSubject__factory";
+export { RevealApprovals__factory } from "./RevealApprovals__factory";
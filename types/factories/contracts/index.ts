@@ -1,5 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
-export { VeterinaryFHERecordNetwork__factory } from "./VeterinaryFHERecordNetwork__factory";
+export * as revealApprovalsSol from "./RevealApprovals.sol";
+export * as test from "./test";
+export { EncryptedAggregates__factory } from "./EncryptedAggregates__factory";
+export { FHEAssert__factory } from "./FHEAssert__factory";
+export { FHETestFramework__factory } from "./FHETestFramework__factory";
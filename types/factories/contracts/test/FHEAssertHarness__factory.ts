@@ -0,0 +1,261 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  FHEAssertHarness,
+  FHEAssertHarnessInterface,
+} from "../../../contracts/test/FHEAssertHarness";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "AssertionDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum FHEAssert.Kind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "label",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "AssertionRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    name: "FHEAssertRevealed",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "a",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "b",
+        type: "uint32",
+      },
+    ],
+    name: "assertAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getAssertion",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "handleAssertionReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "requestReveal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610154575f6060610014610158565b828152826020820152826040820152015261002d610158565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055604051611657908161018c8239f35b5f80fd5b60405190608082016001600160401b0381118382101761017757604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806311dbaa49146100645780631d99e1671461005f5780639b6784b21461005a578063da1f12ab146100555763ecf486db14610050575f80fd5b6103ec565b6103d0565b61028b565b610171565b346101475760403660031901126101475761014561008061014b565b61008861015e565b9061009963ffffffff809216610c51565b9116906101076100a883610c51565b926100db6040516100b8816101f7565b600681526530901e9e903160d11b60208201526100d58686610cb9565b90610dc1565b506100ee84846100e961045a565b610709565b506100f881610490565b90836101026104a3565b61081e565b5061011a82826101156104cf565b610917565b50610123610516565b9161012d83610589565b526101378261059b565b526101406105bf565b610a19565b005b5f80fd5b6004359063ffffffff8216820361014757565b6024359063ffffffff8216820361014757565b34610147576020366003190112610147576004355f52600160205260406002815f20015460ff8251918181161515835260081c1615156020820152f35b634e487b7160e01b5f52604160045260245ffd5b6080810190811067ffffffffffffffff8211176101de57604052565b6101ae565b67ffffffffffffffff81116101de57604052565b6040810190811067ffffffffffffffff8211176101de57604052565b90601f8019910116810190811067ffffffffffffffff8211176101de57604052565b81601f820112156101475780359067ffffffffffffffff82116101de576040519261026a601f8401601f191660200185610213565b8284526020838301011161014757815f926020809301838601378301015290565b346101475760603660031901126101475760043567ffffffffffffffff602435818111610147576102c0903690600401610235565b90604435908111610147576102dc610301913690600401610235565b826102ef855f52600260205260405f2090565b946102fc86541515610ad5565b6110a6565b5f5b82548110156101455780600261033961032b61032160019588610b21565b90549060031b1c90565b5f52600160205260405f2090565b01805460ff166103c05781830160051b8401518154600191151560081b61ff001661ffff19909116171781557fcb23e8f145bf1914ff1a9ef028e990492d0fc1928485cdb6ebd4c6882464f6ee6103b66103a4610399610321868a610b21565b935460081c60ff1690565b60405190151581529081906020820190565b0390a25b01610303565b506103ba565b5f91031261014757565b34610147575f3660031901126101475760206040516127118152f35b346101475760203660031901126101475767ffffffffffffffff6004358181116101475736602382011215610147578060040135918211610147573660248360051b830101116101475761045691602461044692016105e0565b6040519081529081906020820190565b0390f35b60405190610467826101f7565b60068252653090109e903160d11b6020830152565b634e487b7160e01b5f52601160045260245ffd5b90600a820180921161049e57565b61047c565b604051906104b0826101f7565b601082526f6120696e205b622c2062202b2031305d60801b6020830152565b604051906104dc826101f7565b601382527230903430b9903a3432903134ba399037b3103160691b6020830152565b67ffffffffffffffff81116101de5760051b60200190565b604051906060820182811067ffffffffffffffff8211176101de5760405260028252604082602036910137565b9061054d826104fe565b61055a6040519182610213565b828152809261056b601f19916104fe565b0190602036910137565b634e487b7160e01b5f52603260045260245ffd5b8051156105965760200190565b610575565b8051600110156105965760400190565b80518210156105965760209160051b010190565b604051906105cc826101f7565b600582526462203c206160d81b6020830152565b906105ea816104fe565b916105f86040519384610213565b818352602091602084019060051b82019136831161014757905b8282106106fa57505050506106278151610543565b905f5b815181101561069c5780610640600192846105ab565b51151580610682575b61065290610b36565b8161066f61066083866105ab565b515f52600160205260405f2090565b015461067b82866105ab565b520161062a565b5061065261069082856105ab565b515f5410159050610649565b507fbef6e1e7290a10df270fbaed3a2ae813e7bcdc88563f75e0598071aeba198f636106ca6106f493611359565b92826106e885946106e3865f52600260205260405f2090565b610b76565b60405191829182610bfc565b0390a290565b81358152908301908301610612565b905f929160018060a01b035f8051602061162b83398151915254166040938451936336024b2f60e21b8552600485015260248401528460448401528260648160209788945af1918215610819575f926107ea575b5061076830836114c5565b61077233836114c5565b5f54936001850180951161049e5784935f8051602061160b833981519152936107e0606094875f556107ca84516107a8816101c2565b6001815284878201525f868201525f88820152895f5260018752855f20610d0d565b8351958695600187528601526060850190610d9c565b918301520390a290565b61080b919250843d8611610812575b6108038183610213565b810190610c37565b905f61075d565b503d6107f9565b610c46565b91905f9160018060a01b03945f8051602061162b83398151915292868454169660405193631391547f60e01b85528260048601526024850152600160f81b97886044860152846064816020998a945af19485156108195786945f966108ef575b50606492915f915416604051998a958694631d44e90160e21b86526004860152602485015260448401525af1908115610819576108cd946108c7935f936108d0575b5050610ffe565b90610e57565b90565b6108e7929350803d10610812576108038183610213565b905f806108c0565b5f9196509161090d60649493873d8911610812576108038183610213565b969150919261087e565b5f8051602061162b833981519152805460405163d99882d560e01b81526004810194909452602484018590525f60448501819052602095929492916001600160a01b03918791859160649183919086165af1908115610819576109b09587945f936109ec575b505416905f60405180978195829463f77f3f1d60e01b8452600484016040905f9294936060820195825260208201520152565b03925af1918215610819576108cd935f936109cd575b5050610ee4565b6109e4929350803d10610812576108038183610213565b905f806109c6565b610a04919350853d8711610812576108038183610213565b915f61097d565b5f1981019190821161049e57565b9190916002835110610a9e575f90600180946001915b610a41575b50506108cd929350610f71565b90928151841015610a985790858092610a77610a65610a5f88610a0b565b856105ab565b51610a7088866105ab565b5190611052565b90868303610a8957505b940191610a2f565b90610a9391610ffe565b610a81565b92610a34565b60405162461bcd60e51b815260206004820152600f60248201526e4e6565642074776f2076616c75657360881b6044820152606490fd5b15610adc57565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c69642072657175657374206d617070696e670000000000000000006044820152606490fd5b8054821015610596575f5260205f2001905f90565b15610b3d57565b60405162461bcd60e51b81526020600482015260116024820152702ab735b737bbb71030b9b9b2b93a34b7b760791b6044820152606490fd5b81519167ffffffffffffffff83116101de57600160401b83116101de578154838355808410610bd6575b50610bb36020809201925f5260205f2090565b905f5b848110610bc4575050505050565b83518382015592810192600101610bb6565b825f528360205f2091820191015b818110610bf15750610ba0565b5f8155600101610be4565b60209060206040818301928281528551809452019301915f5b828110610c23575050505090565b835185529381019392810192600101610c15565b90816020910312610147575190565b6040513d5f823e3d90fd5b60205f91604460018060a01b035f8051602061162b8339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610819575f91610ca0575090565b6108cd915060203d602011610812576108038183610213565b90602090606460018060a01b035f8051602061162b8339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115610819575f91610ca0575090565b8151906005821015610d6757805460ff92831660ff199091161781556020830151600182015560408301516002909101805460609094015161ffff199094169115159092161791151560081b61ff0016919091179055565b565b634e487b7160e01b5f52602160045260245ffd5b5f5b838110610d8c5750505f910152565b8181015183820152602001610d7d565b90602091610db581518092818552858086019101610d7b565b601f01601f1916010190565b919091610dce30846114c5565b610dd833846114c5565b5f54906001820180921161049e57610e4c5f8051602061160b83398151915291835f558395610e32604051610e0c816101c2565b5f81528260208201525f60408201525f6060820152865f52600160205260405f20610d0d565b6040519283925f8452606060208501526060840190610d9c565b9060408301520390a2565b919091610e6430846114c5565b610e6e33846114c5565b5f54906001820180921161049e57610e4c5f8051602061160b83398151915291835f558395610ec9604051610ea2816101c2565b600281528260208201525f60408201525f6060820152865f52600160205260405f20610d0d565b60405192839260028452606060208501526060840190610d9c565b919091610ef130846114c5565b610efb33846114c5565b5f54906001820180921161049e57610e4c5f8051602061160b83398151915291835f558395610f56604051610f2f816101c2565b600381528260208201525f60408201525f6060820152865f52600160205260405f20610d0d565b60405192839260038452606060208501526060840190610d9c565b919091610f7e30846114c5565b610f8833846114c5565b5f54906001820180921161049e57610e4c5f8051602061160b83398151915291835f558395610fe3604051610fbc816101c2565b600481528260208201525f60408201525f6060820152865f52600160205260405f20610d0d565b60405192839260048452606060208501526060840190610d9c565b90602090606460018060a01b035f8051602061162b8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610819575f91610ca0575090565b90602090606460018060a01b035f8051602061162b8339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af1908115610819575f91610ca0575090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f20541561117c57845f5260205260405f206040519182602083549182815201925f5260205f20915f905b828210611165575050505091816111206111299593611125950382610213565b61122e565b1590565b611153577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190611100565b60405163d66ca67560e01b8152600490fd5b60209291906111a4849282815194859201610d7b565b019081520190565b90816020910312610147575180151581036101475790565b9081518082526020808093019301915f5b8281106111e3575050505090565b8351855293810193928101926001016111d5565b91611220906112126108cd95936060865260608601906111c4565b908482036020860152610d9c565b916040818403910152610d9c565b91908051916020938385019384861161049e5760400180941161049e576112d593611273869461126560405193849288840161118e565b03601f198101835282610213565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f906112b7906112ab906001600160a01b031681565b6001600160a01b031690565b92604051968795869485936378542ead60e01b8552600485016111f7565b03925af1918215610819575f926112eb57505090565b6108cd9250803d1061130a575b6113028183610213565b8101906111ac565b503d6112f8565b9060206108cd9281815201906111c4565b929161133b9184526060602085015260608401906111c4565b916040634db3c25960e11b910152565b5f19811461049e5760010190565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005490939291906113b7906112ab906001600160a01b031681565b803b15610147575f6040518092637d6e912360e11b82528183816113de8960048301611311565b03925af18015610819576114b2575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254611424906112ab906001600160a01b031681565b90813b15610147575f6040518093633263b83b60e01b825281838161144d898c60048401611322565b03925af1801561081957610d65936114759361146f92611499575b5086611535565b5461134b565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806114a66114ac926101e3565b806103c6565b5f611468565b806114a66114bf926101e3565b5f6113ed565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b15610147575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af180156108195761152c5750565b610d65906101e3565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f20546115f8575f5260205260405f209082519267ffffffffffffffff84116101de57600160401b84116101de5782548484558085106115d2575b5060206115af9101925f5260205f2090565b905f5b8481106115c0575050505050565b835183820155928101926001016115b2565b835f528460205f2091820191015b8181106115ed575061159d565b5f81556001016115e0565b604051633f06d22b60e01b8152600490fdfe36b27ae3bbc8014fc1c805333bda1dddad776806e95d44b2562d5c346bef1f759e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type FHEAssertHarnessConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FHEAssertHarnessConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class FHEAssertHarness__factory extends ContractFactory {
+  constructor(...args: FHEAssertHarnessConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      FHEAssertHarness & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): FHEAssertHarness__factory {
+    return super.connect(runner) as FHEAssertHarness__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FHEAssertHarnessInterface {
+    return new Interface(_abi) as FHEAssertHarnessInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FHEAssertHarness {
+    return new Contract(address, _abi, runner) as unknown as FHEAssertHarness;
+  }
+}
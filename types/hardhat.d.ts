@@ -46,13 +46,29 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "EncryptedAggregates",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.EncryptedAggregates__factory>;
     getContractFactory(
-      name: "VeterinaryFHERecordNetwork",
+      name: "FHEAssert",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork__factory>;
+    ): Promise<Contracts.FHEAssert__factory>;
+    getContractFactory(
+      name: "FHETestFramework",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.FHETestFramework__factory>;
+    getContractFactory(
+      name: "IRevealSubject",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IRevealSubject__factory>;
+    getContractFactory(
+      name: "RevealApprovals",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.RevealApprovals__factory>;
+    getContractFactory(
+      name: "FHEAssertHarness",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.FHEAssertHarness__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +111,35 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "EncryptedAggregates",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.EncryptedAggregates>;
+    getContractAt(
+      name: "FHEAssert",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.FHEAssert>;
+    getContractAt(
+      name: "FHETestFramework",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.FHETestFramework>;
+    getContractAt(
+      name: "IRevealSubject",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IRevealSubject>;
+    getContractAt(
+      name: "RevealApprovals",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.RevealApprovals>;
     getContractAt(
-      name: "VeterinaryFHERecordNetwork",
+      name: "FHEAssertHarness",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.FHEAssertHarness>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +174,29 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "EncryptedAggregates",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.EncryptedAggregates>;
     deployContract(
-      name: "VeterinaryFHERecordNetwork",
+      name: "FHEAssert",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.FHEAssert>;
+    deployContract(
+      name: "FHETestFramework",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHETestFramework>;
+    deployContract(
+      name: "IRevealSubject",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IRevealSubject>;
+    deployContract(
+      name: "RevealApprovals",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.RevealApprovals>;
+    deployContract(
+      name: "FHEAssertHarness",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHEAssertHarness>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +239,35 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "EncryptedAggregates",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EncryptedAggregates>;
+    deployContract(
+      name: "FHEAssert",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHEAssert>;
+    deployContract(
+      name: "FHETestFramework",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHETestFramework>;
+    deployContract(
+      name: "IRevealSubject",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IRevealSubject>;
+    deployContract(
+      name: "RevealApprovals",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.RevealApprovals>;
     deployContract(
-      name: "VeterinaryFHERecordNetwork",
+      name: "FHEAssertHarness",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.VeterinaryFHERecordNetwork>;
+    ): Promise<Contracts.FHEAssertHarness>;
 
     // default types
     getContractFactory(
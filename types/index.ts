@@ -22,7 +22,15 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
-export type { VeterinaryFHERecordNetwork } from "./contracts/VeterinaryFHERecordNetwork";
-export { VeterinaryFHERecordNetwork__factory } from "./factories/contracts/VeterinaryFHERecordNetwork__factory";
+export type { EncryptedAggregates } from "./contracts/EncryptedAggregates";
+export { EncryptedAggregates__factory } from "./factories/contracts/EncryptedAggregates__factory";
+export type { FHEAssert } from "./contracts/FHEAssert";
+export { FHEAssert__factory } from "./factories/contracts/FHEAssert__factory";
+export type { FHETestFramework } from "./contracts/FHETestFramework";
+export { FHETestFramework__factory } from "./factories/contracts/FHETestFramework__factory";
+export type { IRevealSubject } from "./contracts/RevealApprovals.sol/IRevealSubject";
+export { IRevealSubject__factory } from "./factories/contracts/RevealApprovals.sol/IRevealSubject__factory";
+export type { RevealApprovals } from "./contracts/RevealApprovals.sol/RevealApprovals";
+export { RevealApprovals__factory } from "./factories/contracts/RevealApprovals.sol/RevealApprovals__factory";
+export type { FHEAssertHarness } from "./contracts/test/FHEAssertHarness";
+export { FHEAssertHarness__factory } from "./factories/contracts/test/FHEAssertHarness__factory";